@@ -0,0 +1,193 @@
+/**
+ * In-memory stand-in for expo-file-system in tests. Covers the parts of the
+ * File/Directory API the app uses; every test file starts with an empty disk.
+ */
+
+const files = new Map<string, Uint8Array>();
+const directories = new Set<string>();
+
+type PathPart = string | File | Directory;
+
+const trimSlashes = (path: string): string => path.replace(/\/+$/, '');
+
+function joinPath(parts: PathPart[]): string {
+    return parts
+        .map((part, i) => {
+            const path = typeof part === 'string' ? part : part.uri;
+            return i === 0 ? trimSlashes(path) : trimSlashes(path.replace(/^\/+/, ''));
+        })
+        .join('/');
+}
+
+const parentOf = (uri: string): string => uri.slice(0, uri.lastIndexOf('/'));
+
+function concat(first: Uint8Array, second: Uint8Array): Uint8Array {
+    const joined = new Uint8Array(first.length + second.length);
+    joined.set(first);
+    joined.set(second, first.length);
+    return joined;
+}
+
+export class FileHandle {
+    offset: number | null = 0;
+
+    constructor(private readonly uri: string) {}
+
+    get size(): number | null {
+        return files.get(this.uri)?.length ?? null;
+    }
+
+    writeBytes(bytes: Uint8Array): void {
+        const current = files.get(this.uri);
+        if (!current) throw new Error(`File is closed or missing: ${this.uri}`);
+        const offset = this.offset ?? current.length;
+        const end = offset + bytes.length;
+        const next =
+            end > current.length ? concat(current, new Uint8Array(end - current.length)) : current;
+        next.set(bytes, offset);
+        files.set(this.uri, next);
+        this.offset = end;
+    }
+
+    readBytes(length: number): Uint8Array {
+        const current = files.get(this.uri) ?? new Uint8Array(0);
+        const offset = this.offset ?? 0;
+        const bytes = current.slice(offset, offset + length);
+        this.offset = offset + bytes.length;
+        return bytes;
+    }
+
+    close(): void {}
+}
+
+export class File {
+    uri: string;
+
+    constructor(...uris: PathPart[]) {
+        this.uri = joinPath(uris);
+    }
+
+    get name(): string {
+        return this.uri.slice(this.uri.lastIndexOf('/') + 1);
+    }
+
+    get exists(): boolean {
+        return files.has(this.uri);
+    }
+
+    get size(): number | null {
+        return files.get(this.uri)?.length ?? null;
+    }
+
+    create(): void {
+        if (!directories.has(parentOf(this.uri))) {
+            throw new Error(`Missing directory: ${parentOf(this.uri)}`);
+        }
+        if (files.has(this.uri)) throw new Error(`File exists: ${this.uri}`);
+        files.set(this.uri, new Uint8Array(0));
+    }
+
+    delete(): void {
+        if (!files.delete(this.uri)) throw new Error(`Missing file: ${this.uri}`);
+    }
+
+    write(content: string | Uint8Array): void {
+        if (!directories.has(parentOf(this.uri))) {
+            throw new Error(`Missing directory: ${parentOf(this.uri)}`);
+        }
+        files.set(
+            this.uri,
+            typeof content === 'string' ? new TextEncoder().encode(content) : content.slice()
+        );
+    }
+
+    textSync(): string {
+        return new TextDecoder().decode(this.bytesSync());
+    }
+
+    async text(): Promise<string> {
+        return this.textSync();
+    }
+
+    bytesSync(): Uint8Array {
+        const bytes = files.get(this.uri);
+        if (!bytes) throw new Error(`Missing file: ${this.uri}`);
+        return bytes.slice();
+    }
+
+    async bytes(): Promise<Uint8Array> {
+        return this.bytesSync();
+    }
+
+    copy(destination: File | Directory): void {
+        const target =
+            destination instanceof Directory ? new File(destination, this.name) : destination;
+        target.write(this.bytesSync());
+    }
+
+    move(destination: File | Directory): void {
+        const target =
+            destination instanceof Directory ? new File(destination, this.name) : destination;
+        this.copy(target);
+        this.delete();
+        this.uri = target.uri;
+    }
+
+    open(): FileHandle {
+        if (!files.has(this.uri)) throw new Error(`Missing file: ${this.uri}`);
+        return new FileHandle(this.uri);
+    }
+}
+
+export class Directory {
+    uri: string;
+
+    constructor(...uris: PathPart[]) {
+        this.uri = joinPath(uris);
+    }
+
+    get name(): string {
+        return this.uri.slice(this.uri.lastIndexOf('/') + 1);
+    }
+
+    get exists(): boolean {
+        return directories.has(this.uri);
+    }
+
+    create(options: { intermediates?: boolean } = {}): void {
+        if (!options.intermediates && !directories.has(parentOf(this.uri))) {
+            throw new Error(`Missing directory: ${parentOf(this.uri)}`);
+        }
+        for (let uri = this.uri; !directories.has(uri); uri = parentOf(uri)) {
+            directories.add(uri);
+        }
+    }
+
+    delete(): void {
+        directories.delete(this.uri);
+        for (const uri of [...files.keys()]) {
+            if (uri.startsWith(`${this.uri}/`)) files.delete(uri);
+        }
+    }
+
+    list(): (File | Directory)[] {
+        const children: (File | Directory)[] = [];
+        for (const uri of files.keys()) {
+            if (parentOf(uri) === this.uri) children.push(new File(uri));
+        }
+        for (const uri of directories) {
+            if (parentOf(uri) === this.uri) children.push(new Directory(uri));
+        }
+        return children;
+    }
+}
+
+directories.add('file://');
+directories.add('file:///cache');
+directories.add('file:///document');
+
+export const Paths = {
+    cache: new Directory('file:///cache'),
+    document: new Directory('file:///document'),
+    availableDiskSpace: 64 * 1024 * 1024 * 1024,
+};
@@ -76,7 +76,7 @@ export default function HomeScreen() {
       </ThemedView>
       <ThemedView style={styles.stepContainer}>
         <ThemedText type="subtitle">Video Demo</ThemedText>
-        <Link href="/video">
+        <Link href="/sources">
           <ThemedText type="link">Open Video Player Example</ThemedText>
         </Link>
       </ThemedView>
@@ -0,0 +1,499 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as ImagePicker from 'expo-image-picker';
+import { Stack, useFocusEffect, useRouter } from 'expo-router';
+import React, { memo, useCallback, useState } from 'react';
+import {
+    Alert,
+    FlatList,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import { useDownloads } from '../hooks/use-downloads';
+import {
+    Download,
+    downloadProgress,
+    DownloadManager,
+    DownloadStatus,
+    formatBytes,
+} from '../lib/download-manager';
+import {
+    clearProgress,
+    isCompleted,
+    loadProgress,
+    PlaybackProgress,
+    progressFraction,
+} from '../lib/playback-progress';
+import { createPlaylist, savePlaylist } from '../lib/playlist';
+import { detectStreamType } from '../lib/stream-manifest';
+import { formatClockTime } from '../lib/timecode';
+import {
+    loadRecentSources,
+    RecentSource,
+    removeRecentSource,
+    SAMPLE_SOURCE,
+    saveRecentSources,
+    titleFromUri,
+    validateVideoUrl,
+    VideoSourceInfo,
+    VideoSourceKind,
+} from '../lib/video-source';
+
+const screenOptions = {
+    title: 'Choose a Video',
+    headerTintColor: '#fff',
+    headerStyle: { backgroundColor: '#000' },
+};
+
+const KIND_ICONS: Record<VideoSourceKind, keyof typeof Ionicons.glyphMap> = {
+    sample: 'film-outline',
+    library: 'images-outline',
+    file: 'document-outline',
+    url: 'link-outline',
+};
+
+const DOWNLOAD_ICONS: Record<DownloadStatus, keyof typeof Ionicons.glyphMap> = {
+    queued: 'pause-circle-outline',
+    downloading: 'pause-circle-outline',
+    paused: 'arrow-down-circle-outline',
+    completed: 'checkmark-circle',
+    failed: 'refresh-circle-outline',
+};
+
+// Only plain files over http(s) can be saved; streams and local files can't
+const isDownloadable = (uri: string) =>
+    /^https?:\/\//i.test(uri) && detectStreamType(uri) === 'progressive';
+
+function describeDownload(download: Download): string {
+    const { status, bytesWritten, totalBytes } = download;
+    const size = totalBytes > 0 ? formatBytes(totalBytes) : '';
+    switch (status) {
+        case 'completed':
+            return `Available offline${size ? ` · ${size}` : ''}`;
+        case 'failed':
+            return download.error ?? 'Download failed';
+        case 'queued':
+            return 'Waiting to download';
+        default: {
+            const label = status === 'paused' ? 'Paused' : 'Downloading';
+            if (totalBytes <= 0) return label;
+            const percent = Math.round(downloadProgress(download) * 100);
+            return `${label} · ${percent}% · ${formatBytes(bytesWritten)} of ${size}`;
+        }
+    }
+}
+
+// Recent Row Component
+interface RecentRowProps {
+    recent: RecentSource;
+    progress: PlaybackProgress | null;
+    download: Download | undefined;
+    onOpen: (source: VideoSourceInfo) => void;
+    onRemove: (uri: string) => void;
+    onDownload: (uri: string) => void;
+}
+
+const RecentRow = memo(function RecentRow({
+    recent,
+    progress,
+    download,
+    onOpen,
+    onRemove,
+    onDownload,
+}: RecentRowProps) {
+    const fraction = progressFraction(progress);
+    let position = 'Not started';
+    if (progress && isCompleted(progress)) {
+        position = 'Watched';
+    } else if (progress && progress.position > 0) {
+        position = `${formatClockTime(progress.position)} / ${formatClockTime(progress.duration)}`;
+    }
+    const showDownload = download?.status === 'downloading' || download?.status === 'paused';
+
+    return (
+        <TouchableOpacity style={styles.row} onPress={() => onOpen(recent)}>
+            <Ionicons name={KIND_ICONS[recent.kind]} size={20} color="#888" />
+            <View style={styles.rowText}>
+                <Text style={styles.rowTitle} numberOfLines={1}>
+                    {recent.title}
+                </Text>
+                <Text style={styles.rowSubtitle}>{position}</Text>
+                {download && (
+                    <Text
+                        style={[
+                            styles.rowSubtitle,
+                            download.status === 'failed' && styles.downloadError,
+                        ]}
+                        numberOfLines={1}>
+                        {describeDownload(download)}
+                    </Text>
+                )}
+                {fraction > 0 && (
+                    <View style={styles.progressTrack}>
+                        <View style={[styles.progressFill, { width: `${fraction * 100}%` }]} />
+                    </View>
+                )}
+                {showDownload && (
+                    <View style={styles.progressTrack}>
+                        <View
+                            style={[
+                                styles.downloadFill,
+                                { width: `${downloadProgress(download) * 100}%` },
+                            ]}
+                        />
+                    </View>
+                )}
+            </View>
+            {(download || isDownloadable(recent.uri)) && (
+                <TouchableOpacity onPress={() => onDownload(recent.uri)} hitSlop={8}>
+                    <Ionicons
+                        name={download ? DOWNLOAD_ICONS[download.status] : 'cloud-download-outline'}
+                        size={20}
+                        color={download?.status === 'completed' ? '#22c55e' : '#888'}
+                    />
+                </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => onRemove(recent.uri)} hitSlop={8}>
+                <Ionicons name="close" size={18} color="#666" />
+            </TouchableOpacity>
+        </TouchableOpacity>
+    );
+});
+
+export default function SourcesScreen() {
+    const router = useRouter();
+    const [recents, setRecents] = useState<RecentSource[]>([]);
+    const [progress, setProgress] = useState<Record<string, PlaybackProgress | null>>({});
+    const downloads = useDownloads();
+    const [url, setUrl] = useState('');
+    const [thumbnailsUrl, setThumbnailsUrl] = useState('');
+    const [urlError, setUrlError] = useState<string | null>(null);
+
+    // Positions change while the player is open, so reload on every visit
+    useFocusEffect(
+        useCallback(() => {
+            const loaded = loadRecentSources();
+            setRecents(loaded);
+            setProgress(
+                Object.fromEntries(loaded.map((recent) => [recent.uri, loadProgress(recent.uri)]))
+            );
+        }, [])
+    );
+
+    // Opening replaces the play queue; the player adds each item to the recents
+    const open = useCallback(
+        (sources: VideoSourceInfo[]) => {
+            if (sources.length === 0) return;
+            savePlaylist(createPlaylist(sources));
+            const [first] = sources;
+            router.push({ pathname: '/video', params: { uri: first.uri, title: first.title } });
+        },
+        [router]
+    );
+    const openOne = useCallback((source: VideoSourceInfo) => open([source]), [open]);
+
+    const pickFromLibrary = useCallback(async () => {
+        try {
+            const result = await ImagePicker.launchImageLibraryAsync({
+                mediaTypes: ['videos'],
+                allowsMultipleSelection: true,
+                orderedSelection: true,
+            });
+            if (result.canceled) return;
+            open(
+                result.assets.map((asset) => ({
+                    uri: asset.uri,
+                    title: titleFromUri(asset.fileName ?? asset.uri),
+                    kind: 'library',
+                }))
+            );
+        } catch (error) {
+            Alert.alert('Could not open the library', String(error));
+        }
+    }, [open]);
+
+    const pickFile = useCallback(async () => {
+        try {
+            // Copy so the file stays readable after the picker's grant expires
+            const result = await DocumentPicker.getDocumentAsync({
+                type: 'video/*',
+                copyToCacheDirectory: true,
+                multiple: true,
+            });
+            if (result.canceled) return;
+            open(
+                result.assets.map((asset) => ({
+                    uri: asset.uri,
+                    title: titleFromUri(asset.name),
+                    kind: 'file',
+                }))
+            );
+        } catch (error) {
+            Alert.alert('Could not open the file', String(error));
+        }
+    }, [open]);
+
+    const openUrl = useCallback(() => {
+        const validation = validateVideoUrl(url);
+        if (!validation.valid) {
+            setUrlError(validation.error);
+            return;
+        }
+
+        // Local files are allowed here so sprite fixtures can be tried without a server
+        const thumbnailsUri = thumbnailsUrl.trim();
+        const thumbnails =
+            !thumbnailsUri || thumbnailsUri.startsWith('file://')
+                ? null
+                : validateVideoUrl(thumbnailsUri);
+        if (thumbnails && !thumbnails.valid) {
+            setUrlError(`Thumbnails track: ${thumbnails.error}`);
+            return;
+        }
+
+        setUrlError(null);
+        setUrl('');
+        setThumbnailsUrl('');
+        openOne({
+            uri: validation.uri,
+            title: titleFromUri(validation.uri),
+            kind: 'url',
+            thumbnailsUri: thumbnailsUri || undefined,
+        });
+    }, [url, thumbnailsUrl, openOne]);
+
+    // One button per row: start, pause, resume or retry; a finished copy asks before deleting
+    const toggleDownload = useCallback((uri: string) => {
+        const manager = DownloadManager.getInstance();
+        const download = manager.get(uri);
+        if (!download) {
+            manager.enqueue(uri);
+        } else if (download.status === 'downloading' || download.status === 'queued') {
+            manager.pause(uri);
+        } else if (download.status === 'completed') {
+            Alert.alert('Remove download?', 'The video will stream from its URL again.', [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Remove', style: 'destructive', onPress: () => manager.remove(uri) },
+            ]);
+        } else {
+            manager.resume(uri);
+        }
+    }, []);
+
+    // Forgetting a recent also forgets where it stopped and deletes its offline copy
+    const removeRecent = useCallback((uri: string) => {
+        clearProgress(uri);
+        DownloadManager.getInstance().remove(uri);
+        const next = removeRecentSource(loadRecentSources(), uri);
+        saveRecentSources(next);
+        setRecents(next);
+    }, []);
+
+    const header = (
+        <View>
+            <View style={styles.pickers}>
+                <TouchableOpacity style={styles.pickerButton} onPress={pickFromLibrary}>
+                    <Ionicons name="images" size={24} color="white" />
+                    <Text style={styles.pickerLabel}>Library</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.pickerButton} onPress={pickFile}>
+                    <Ionicons name="folder-open" size={24} color="white" />
+                    <Text style={styles.pickerLabel}>Files</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.pickerButton} onPress={() => openOne(SAMPLE_SOURCE)}>
+                    <Ionicons name="film" size={24} color="white" />
+                    <Text style={styles.pickerLabel}>Sample</Text>
+                </TouchableOpacity>
+            </View>
+
+            <View style={styles.urlRow}>
+                <TextInput
+                    style={styles.urlInput}
+                    value={url}
+                    onChangeText={(text) => {
+                        setUrl(text);
+                        setUrlError(null);
+                    }}
+                    onSubmitEditing={openUrl}
+                    placeholder="https://example.com/video.mp4"
+                    placeholderTextColor="#555"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                    returnKeyType="go"
+                />
+                <TouchableOpacity style={styles.urlButton} onPress={openUrl}>
+                    <Ionicons name="arrow-forward" size={20} color="white" />
+                </TouchableOpacity>
+            </View>
+            <TextInput
+                style={[styles.urlInput, styles.thumbnailsInput]}
+                value={thumbnailsUrl}
+                onChangeText={(text) => {
+                    setThumbnailsUrl(text);
+                    setUrlError(null);
+                }}
+                onSubmitEditing={openUrl}
+                placeholder="Thumbnails track (WebVTT, optional)"
+                placeholderTextColor="#555"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+            />
+            {urlError && <Text style={styles.urlError}>{urlError}</Text>}
+
+            <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Recent</Text>
+                {recents.length > 1 && (
+                    <TouchableOpacity onPress={() => open(recents)}>
+                        <Text style={styles.playAll}>Play all</Text>
+                    </TouchableOpacity>
+                )}
+            </View>
+        </View>
+    );
+
+    return (
+        <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+            <Stack.Screen options={screenOptions} />
+            <FlatList
+                data={recents}
+                keyExtractor={(item) => item.uri}
+                ListHeaderComponent={header}
+                ListEmptyComponent={<Text style={styles.empty}>Nothing opened yet.</Text>}
+                renderItem={({ item }) => (
+                    <RecentRow
+                        recent={item}
+                        progress={progress[item.uri] ?? null}
+                        download={downloads.find((download) => download.uri === item.uri)}
+                        onOpen={openOne}
+                        onRemove={removeRecent}
+                        onDownload={toggleDownload}
+                    />
+                )}
+                contentContainerStyle={styles.content}
+                keyboardShouldPersistTaps="handled"
+            />
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#000',
+    },
+    content: {
+        padding: 20,
+    },
+    pickers: {
+        flexDirection: 'row',
+        gap: 12,
+    },
+    pickerButton: {
+        flex: 1,
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 16,
+        borderRadius: 12,
+        backgroundColor: 'rgba(255,255,255,0.1)',
+    },
+    pickerLabel: {
+        color: '#fff',
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    urlRow: {
+        flexDirection: 'row',
+        gap: 8,
+        marginTop: 16,
+    },
+    urlInput: {
+        flex: 1,
+        paddingVertical: 10,
+        paddingHorizontal: 12,
+        borderRadius: 8,
+        backgroundColor: '#1a1a1a',
+        color: '#fff',
+        fontSize: 14,
+    },
+    thumbnailsInput: {
+        flex: 0,
+        marginTop: 8,
+        fontSize: 12,
+    },
+    urlButton: {
+        justifyContent: 'center',
+        paddingHorizontal: 12,
+        borderRadius: 8,
+        backgroundColor: '#3b82f6',
+    },
+    urlError: {
+        marginTop: 6,
+        color: '#f87171',
+        fontSize: 12,
+    },
+    sectionHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: 24,
+        marginBottom: 8,
+    },
+    sectionTitle: {
+        color: '#fff',
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    playAll: {
+        color: '#3b82f6',
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 10,
+    },
+    rowText: {
+        flex: 1,
+    },
+    rowTitle: {
+        color: '#fff',
+        fontSize: 14,
+    },
+    rowSubtitle: {
+        marginTop: 2,
+        color: '#666',
+        fontSize: 12,
+        fontVariant: ['tabular-nums'],
+    },
+    progressTrack: {
+        height: 3,
+        marginTop: 6,
+        borderRadius: 2,
+        backgroundColor: 'rgba(255,255,255,0.15)',
+        overflow: 'hidden',
+    },
+    progressFill: {
+        height: '100%',
+        backgroundColor: '#3b82f6',
+    },
+    downloadFill: {
+        height: '100%',
+        backgroundColor: '#22c55e',
+    },
+    downloadError: {
+        color: '#f87171',
+    },
+    empty: {
+        color: '#555',
+        fontSize: 12,
+    },
+});
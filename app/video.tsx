@@ -1,31 +1,161 @@
 import { Ionicons } from '@expo/vector-icons';
-import { Stack } from 'expo-router';
-import { useVideoPlayer, VideoView } from 'expo-video';
-import React, { memo, useCallback, useState } from 'react';
-import { Dimensions, StyleSheet, TouchableOpacity, View } from 'react-native';
-import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { useVideoPlayer, VideoSource, VideoView } from 'expo-video';
+import React, { memo, ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, Dimensions, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import {
+    Directions,
+    Gesture,
+    GestureDetector,
+    GestureHandlerRootView,
+} from 'react-native-gesture-handler';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { scheduleOnRN } from 'react-native-worklets';
 
+import { AbLoopBar } from '../components/ab-loop-bar';
+import { AnimationExportSheet } from '../components/animation-export-sheet';
+import { BottomSheet } from '../components/bottom-sheet';
 import { CapCutTimeline } from '../components/CapCutTimeline';
+import { CaptionEditor } from '../components/caption-editor';
+import { CaptionOverlay } from '../components/caption-overlay';
+import { CaptionSheet } from '../components/caption-sheet';
+import { ChapterList } from '../components/chapter-list';
+import { ExportSheet } from '../components/export-sheet';
+import { FrameGrabSheet, FrameTarget } from '../components/frame-grab-sheet';
+import { OptionRow } from '../components/option-row';
+import { QueueSheet } from '../components/queue-sheet';
+import { ResumePrompt } from '../components/resume-prompt';
+import { SeekSettingsSheet } from '../components/seek-settings-sheet';
+import { SourceErrorBanner } from '../components/source-error-banner';
+import { StreamTracksSheet } from '../components/stream-tracks-sheet';
+import { useAbLoop } from '../hooks/use-ab-loop';
+import { useCaptionStyle } from '../hooks/use-caption-style';
+import { useEditHistory } from '../hooks/use-edit-history';
+import { useFrameGrabSettings } from '../hooks/use-frame-grab-settings';
+import { useFrameRate } from '../hooks/use-frame-rate';
+import { useKeyboardShortcuts } from '../hooks/use-keyboard-shortcuts';
+import { usePlaybackProgress } from '../hooks/use-playback-progress';
+import { usePlaybackRate } from '../hooks/use-playback-rate';
+import { usePlaylist } from '../hooks/use-playlist';
+import { useSeekSettings } from '../hooks/use-seek-settings';
+import { SequenceEndAction, useSequencePlayback } from '../hooks/use-sequence-playback';
+import { useSpriteThumbnails } from '../hooks/use-sprite-thumbnails';
+import { useStreamManifest } from '../hooks/use-stream-manifest';
+import { useStreamTracks } from '../hooks/use-stream-tracks';
+import { addLoopPoint, EMPTY_LOOP_POINTS, nextCountIn } from '../lib/ab-loop';
+import {
+    createCue,
+    Cue,
+    DEFAULT_CUE_DURATION,
+    MIN_CUE_DURATION,
+    overlappingCueIds,
+} from '../lib/captions';
+import { getClipEncoder } from '../lib/clip-export';
+import { DownloadManager } from '../lib/download-manager';
+import { readJson, sourceStorageName, writeJson } from '../lib/json-storage';
+import { createMarker, Marker, nextMarkerColor } from '../lib/markers';
+import { loadProgress, resumePosition } from '../lib/playback-progress';
+import { EndAction, endAction, nextIndex, previousIndex } from '../lib/playlist';
+import {
+    boundaryTimes,
+    clampSeek,
+    formatSkip,
+    nextBoundary,
+    previousBoundary,
+    SKIP_ACCUMULATE_WINDOW,
+    SkipAccumulator,
+} from '../lib/seek-policy';
+import { formatRate, SPEED_OPTIONS, toShuttleKey } from '../lib/shuttle';
+import { formatRendition, toVideoSource, writePinnedManifest } from '../lib/stream-manifest';
+import { SpriteSheetProvider } from '../lib/thumbnail-provider';
+import { frameToTime, timeToFrame } from '../lib/timecode';
+import {
+    addCaption,
+    addMarker,
+    editProject,
+    EMPTY_TIMELINE_STATE,
+    mergeCaptions,
+    removeCaption,
+    removeMarker,
+    replaceCaptions,
+    replaceMarkers,
+    setTrim,
+    splitCaption,
+    TimelineState,
+    updateCaption,
+    updateMarker,
+} from '../lib/timeline-commands';
+import {
+    clipAtTime,
+    createProject,
+    moveClip,
+    projectDuration,
+    rippleDelete,
+    splitAt,
+    TrimRange,
+} from '../lib/timeline-project';
+import {
+    addRecentSource,
+    findRecentSource,
+    loadRecentSources,
+    SAMPLE_SOURCE,
+    saveRecentSources,
+    titleFromUri,
+    VideoSourceInfo,
+} from '../lib/video-source';
 
-// 4K Video with Audio - Sintel (Blender Foundation)
-const videoSource =
-    'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/Sintel.mp4';
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
-// Stable screen options
-const screenOptions = {
-    title: 'Expo Video Demo',
-    headerTintColor: '#fff',
-    headerStyle: { backgroundColor: '#000' },
-};
+// Seek cadence while holding for fast scrub
+const FAST_SCRUB_TICK = 100;
 
 // Controls Component
 interface VideoControlsProps {
     player: ReturnType<typeof useVideoPlayer>;
+    backwardStep: number;
+    forwardStep: number;
+    rate: number;
+    onSeekBy: (delta: number) => void;
+    onJump: (direction: number) => void;
+    onStepFrame: (offset: number) => void;
+    onOpenSettings: () => void;
+    onOpenSpeed: () => void;
+    hasCaptions: boolean;
+    onOpenCaptions: () => void;
+    onCaptureFrame: () => void;
+    /** Current stream rendition; null for progressive files. */
+    renditionLabel: string | null;
+    onOpenTracks: () => void;
+    queueLabel: string;
+    canPrevious: boolean;
+    canNext: boolean;
+    onPrevious: () => void;
+    onNext: () => void;
+    onOpenQueue: () => void;
 }
 
-const VideoControls = memo(function VideoControls({ player }: VideoControlsProps) {
+const VideoControls = memo(function VideoControls({
+    player,
+    backwardStep,
+    forwardStep,
+    rate,
+    onSeekBy,
+    onJump,
+    onStepFrame,
+    onOpenSettings,
+    onOpenSpeed,
+    hasCaptions,
+    onOpenCaptions,
+    onCaptureFrame,
+    renditionLabel,
+    onOpenTracks,
+    queueLabel,
+    canPrevious,
+    canNext,
+    onPrevious,
+    onNext,
+    onOpenQueue,
+}: VideoControlsProps) {
     const [isPlaying, setIsPlaying] = useState(false);
 
     React.useEffect(() => {
@@ -44,63 +174,992 @@ const VideoControls = memo(function VideoControls({ player }: VideoControlsProps
         }
     }, [player]);
 
-    const seekBackward = useCallback(() => {
-        player.currentTime = Math.max(0, player.currentTime - 10);
-    }, [player]);
+    const seekBackward = useCallback(() => onSeekBy(-backwardStep), [onSeekBy, backwardStep]);
+    const seekForward = useCallback(() => onSeekBy(forwardStep), [onSeekBy, forwardStep]);
+    const jumpBackward = useCallback(() => onJump(-1), [onJump]);
+    const jumpForward = useCallback(() => onJump(1), [onJump]);
+    const stepBackward = useCallback(() => onStepFrame(-1), [onStepFrame]);
+    const stepForward = useCallback(() => onStepFrame(1), [onStepFrame]);
+
+    // Long-pressing either skip button opens the seek settings
+    return (
+        <>
+            <View style={styles.actionsContainer}>
+                <TouchableOpacity style={styles.smallIconButton} onPress={stepBackward}>
+                    <Ionicons name="caret-back" size={18} color="white" />
+                </TouchableOpacity>
+
+                <TouchableOpacity style={styles.smallIconButton} onPress={jumpBackward}>
+                    <Ionicons name="play-skip-back" size={18} color="white" />
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={seekBackward}
+                    onLongPress={onOpenSettings}>
+                    <Ionicons name="play-back" size={24} color="white" />
+                    <Text style={styles.stepLabel}>{backwardStep}</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={[styles.iconButton, styles.playButton]}
+                    onPress={togglePlayback}>
+                    <Ionicons name={isPlaying ? 'pause' : 'play'} size={32} color="black" />
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={seekForward}
+                    onLongPress={onOpenSettings}>
+                    <Ionicons name="play-forward" size={24} color="white" />
+                    <Text style={styles.stepLabel}>{forwardStep}</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity style={styles.smallIconButton} onPress={jumpForward}>
+                    <Ionicons name="play-skip-forward" size={18} color="white" />
+                </TouchableOpacity>
+
+                <TouchableOpacity style={styles.smallIconButton} onPress={stepForward}>
+                    <Ionicons name="caret-forward" size={18} color="white" />
+                </TouchableOpacity>
+            </View>
+
+            <View style={styles.secondaryActions}>
+                <TouchableOpacity
+                    style={[styles.smallIconButton, !canPrevious && styles.toolButtonDisabled]}
+                    onPress={onPrevious}
+                    disabled={!canPrevious}>
+                    <Ionicons name="play-skip-back-circle-outline" size={18} color="white" />
+                </TouchableOpacity>
+
+                <TouchableOpacity style={styles.pillButton} onPress={onOpenSpeed}>
+                    <Ionicons name="speedometer-outline" size={14} color="white" />
+                    <Text style={styles.pillText}>{formatRate(rate)}</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity style={styles.smallIconButton} onPress={onOpenCaptions}>
+                    <Ionicons
+                        name="logo-closed-captioning"
+                        size={18}
+                        color={hasCaptions ? 'white' : '#888'}
+                    />
+                </TouchableOpacity>
+
+                <TouchableOpacity style={styles.smallIconButton} onPress={onCaptureFrame}>
+                    <Ionicons name="camera-outline" size={18} color="white" />
+                </TouchableOpacity>
+
+                {renditionLabel && (
+                    <TouchableOpacity style={styles.pillButton} onPress={onOpenTracks}>
+                        <Ionicons name="layers-outline" size={14} color="white" />
+                        <Text style={styles.pillText}>{renditionLabel}</Text>
+                    </TouchableOpacity>
+                )}
+
+                <TouchableOpacity style={styles.pillButton} onPress={onOpenQueue}>
+                    <Ionicons name="list" size={14} color="white" />
+                    <Text style={styles.pillText}>{queueLabel}</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                    style={[styles.smallIconButton, !canNext && styles.toolButtonDisabled]}
+                    onPress={onNext}
+                    disabled={!canNext}>
+                    <Ionicons name="play-skip-forward-circle-outline" size={18} color="white" />
+                </TouchableOpacity>
+            </View>
+        </>
+    );
+});
+
+// Video Surface Component
+interface VideoSurfaceProps {
+    player: ReturnType<typeof useVideoPlayer>;
+    doubleTapStep: number;
+    fastScrubRate: number;
+    onSeekBy: (delta: number) => void;
+    onStepFrame: (offset: number) => void;
+    /** Drawn over the video, e.g. captions. */
+    children?: ReactNode;
+}
+
+interface SkipIndicator {
+    side: 'left' | 'right';
+    label: string;
+}
 
-    const seekForward = useCallback(() => {
-        player.currentTime = Math.min(player.duration || 0, player.currentTime + 10);
+/**
+ * The video with its gestures: double-tap the left/right half to skip (repeated
+ * taps add up), hold a half to fast scrub, swipe to step a frame.
+ */
+const VideoSurface = memo(function VideoSurface({
+    player,
+    doubleTapStep,
+    fastScrubRate,
+    onSeekBy,
+    onStepFrame,
+    children,
+}: VideoSurfaceProps) {
+    const [accumulator] = useState(() => new SkipAccumulator());
+    const [indicator, setIndicator] = useState<SkipIndicator | null>(null);
+    const hideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const scrubTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    const resumeAfterScrubRef = useRef(false);
+
+    useEffect(() => {
+        return () => {
+            if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+            if (scrubTimerRef.current) clearInterval(scrubTimerRef.current);
+        };
+    }, []);
+
+    const skip = useCallback(
+        (direction: number) => {
+            const delta = direction * doubleTapStep;
+            const total = accumulator.add(delta);
+            onSeekBy(delta);
+
+            setIndicator({ side: direction < 0 ? 'left' : 'right', label: formatSkip(total) });
+            if (hideTimerRef.current) clearTimeout(hideTimerRef.current);
+            hideTimerRef.current = setTimeout(() => setIndicator(null), SKIP_ACCUMULATE_WINDOW);
+        },
+        [accumulator, doubleTapStep, onSeekBy]
+    );
+
+    const startFastScrub = useCallback(
+        (direction: number) => {
+            if (scrubTimerRef.current) clearInterval(scrubTimerRef.current);
+            resumeAfterScrubRef.current = player.playing;
+            player.pause();
+
+            const side = direction < 0 ? 'left' : 'right';
+            setIndicator({ side, label: `${direction < 0 ? '«' : '»'} ${fastScrubRate}x` });
+            scrubTimerRef.current = setInterval(
+                () => onSeekBy((direction * fastScrubRate * FAST_SCRUB_TICK) / 1000),
+                FAST_SCRUB_TICK
+            );
+        },
+        [player, fastScrubRate, onSeekBy]
+    );
+
+    const stopFastScrub = useCallback(() => {
+        // Also runs when a tap ends without becoming a long press
+        if (!scrubTimerRef.current) return;
+        clearInterval(scrubTimerRef.current);
+        scrubTimerRef.current = null;
+        setIndicator(null);
+        if (resumeAfterScrubRef.current) player.play();
     }, [player]);
 
+    const doubleTapGesture = Gesture.Tap()
+        .numberOfTaps(2)
+        .onEnd((event) => {
+            'worklet';
+            scheduleOnRN(skip, event.x < SCREEN_WIDTH / 2 ? -1 : 1);
+        });
+
+    const fastScrubGesture = Gesture.LongPress()
+        .onStart((event) => {
+            'worklet';
+            scheduleOnRN(startFastScrub, event.x < SCREEN_WIDTH / 2 ? -1 : 1);
+        })
+        .onFinalize(() => {
+            'worklet';
+            scheduleOnRN(stopFastScrub);
+        });
+
+    // Swipe left/right to step a frame forward/back
+    const frameStepGesture = Gesture.Race(
+        Gesture.Fling()
+            .direction(Directions.LEFT)
+            .onEnd(() => {
+                'worklet';
+                scheduleOnRN(onStepFrame, 1);
+            }),
+        Gesture.Fling()
+            .direction(Directions.RIGHT)
+            .onEnd(() => {
+                'worklet';
+                scheduleOnRN(onStepFrame, -1);
+            })
+    );
+
+    const gesture = Gesture.Race(doubleTapGesture, fastScrubGesture, frameStepGesture);
+
     return (
-        <View style={styles.actionsContainer}>
-            <TouchableOpacity style={styles.iconButton} onPress={seekBackward}>
-                <Ionicons name="play-back" size={24} color="white" />
+        <GestureDetector gesture={gesture}>
+            <View style={styles.videoContainer}>
+                <VideoView
+                    style={styles.video}
+                    player={player}
+                    fullscreenOptions={{ enable: true }}
+                    allowsPictureInPicture
+                    nativeControls={false}
+                />
+
+                {children}
+
+                {indicator && (
+                    <View
+                        style={[
+                            styles.skipIndicator,
+                            indicator.side === 'left' ? styles.skipLeft : styles.skipRight,
+                        ]}
+                        pointerEvents="none">
+                        <Text style={styles.skipText}>{indicator.label}</Text>
+                    </View>
+                )}
+            </View>
+        </GestureDetector>
+    );
+});
+
+// Edit Toolbar Component
+interface EditToolbarProps {
+    canUndo: boolean;
+    canRedo: boolean;
+    canEditClips: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+    onSplit: () => void;
+    onDelete: () => void;
+    onMove: (offset: number) => void;
+    onAddMarker: () => void;
+    onExport: () => void;
+    onExportAnimation: () => void;
+}
+
+const EditToolbar = memo(function EditToolbar({
+    canUndo,
+    canRedo,
+    canEditClips,
+    onUndo,
+    onRedo,
+    onSplit,
+    onDelete,
+    onMove,
+    onAddMarker,
+    onExport,
+    onExportAnimation,
+}: EditToolbarProps) {
+    const moveBack = useCallback(() => onMove(-1), [onMove]);
+    const moveForward = useCallback(() => onMove(1), [onMove]);
+    const disabledStyle = !canEditClips && styles.toolButtonDisabled;
+
+    return (
+        <View style={styles.toolbar}>
+            <TouchableOpacity
+                style={[styles.toolButton, !canUndo && styles.toolButtonDisabled]}
+                onPress={onUndo}
+                disabled={!canUndo}>
+                <Ionicons name="arrow-undo" size={20} color="white" />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+                style={[styles.toolButton, !canRedo && styles.toolButtonDisabled]}
+                onPress={onRedo}
+                disabled={!canRedo}>
+                <Ionicons name="arrow-redo" size={20} color="white" />
+            </TouchableOpacity>
+
+            <View style={styles.toolbarDivider} />
+
+            <TouchableOpacity style={styles.toolButton} onPress={onSplit}>
+                <Ionicons name="cut" size={20} color="white" />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+                style={[styles.toolButton, disabledStyle]}
+                onPress={onDelete}
+                disabled={!canEditClips}>
+                <Ionicons name="trash" size={20} color="white" />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+                style={[styles.toolButton, disabledStyle]}
+                onPress={moveBack}
+                disabled={!canEditClips}>
+                <Ionicons name="chevron-back" size={20} color="white" />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+                style={[styles.toolButton, disabledStyle]}
+                onPress={moveForward}
+                disabled={!canEditClips}>
+                <Ionicons name="chevron-forward" size={20} color="white" />
+            </TouchableOpacity>
+
+            <View style={styles.toolbarDivider} />
+
+            <TouchableOpacity style={styles.toolButton} onPress={onAddMarker}>
+                <Ionicons name="bookmark" size={20} color="white" />
             </TouchableOpacity>
 
-            <TouchableOpacity style={[styles.iconButton, styles.playButton]} onPress={togglePlayback}>
-                <Ionicons name={isPlaying ? 'pause' : 'play'} size={32} color="black" />
+            <View style={styles.toolbarDivider} />
+
+            <TouchableOpacity style={styles.toolButton} onPress={onExport}>
+                <Ionicons name="film-outline" size={20} color="white" />
             </TouchableOpacity>
 
-            <TouchableOpacity style={styles.iconButton} onPress={seekForward}>
-                <Ionicons name="play-forward" size={24} color="white" />
+            <TouchableOpacity style={styles.toolButton} onPress={onExportAnimation}>
+                <Ionicons name="images-outline" size={20} color="white" />
             </TouchableOpacity>
         </View>
     );
 });
 
-export default function VideoScreen() {
+// Editor Component
+interface VideoEditorProps {
+    source: VideoSourceInfo;
+    endAction: EndAction;
+    queueLabel: string;
+    canPrevious: boolean;
+    canNext: boolean;
+    onEnded: () => void;
+    onPrevious: () => void;
+    onNext: () => void;
+    onOpenQueue: () => void;
+}
+
+/**
+ * Player, timeline and controls for one source. The screen remounts it for
+ * every playlist item, so the player, edit history and thumbnails start fresh.
+ */
+const VideoEditor = memo(function VideoEditor({
+    source,
+    endAction,
+    queueLabel,
+    canPrevious,
+    canNext,
+    onEnded,
+    onPrevious,
+    onNext,
+    onOpenQueue,
+}: VideoEditorProps) {
+    const videoSource = source.uri;
+    const markersStorageName = useMemo(
+        () => sourceStorageName('markers', videoSource),
+        [videoSource]
+    );
+    const captionsStorageName = useMemo(
+        () => sourceStorageName('captions', videoSource),
+        [videoSource]
+    );
+    const screenOptions = useMemo(
+        () => ({
+            title: source.title,
+            headerTintColor: '#fff',
+            headerStyle: { backgroundColor: '#000' },
+        }),
+        [source.title]
+    );
+
     const setupPlayer = useCallback((p: ReturnType<typeof useVideoPlayer>) => {
-        p.loop = true;
+        // Looping is handled by the sequence playback so it wraps the whole edit
+        p.loop = false;
         p.timeUpdateEventInterval = 0.1; // 100ms for smooth timeline
         p.play();
     }, []);
 
-    const player = useVideoPlayer(videoSource, setupPlayer);
+    // A finished offline copy plays instead of the remote file, and the timeline decodes its
+    // frames from disk too. Everything stored per source stays keyed by the remote URI.
+    const [playUri] = useState(
+        () => DownloadManager.getInstance().localUri(videoSource) ?? videoSource
+    );
+    const player = useVideoPlayer(toVideoSource(playUri), setupPlayer);
+    const frameRate = useFrameRate(player);
+
+    // HLS/DASH: the manifest lists the renditions and any timeline sprites; picking
+    // a quality plays a copy of the manifest that only holds that rendition
+    const manifest = useStreamManifest(videoSource);
+    const { tracks, selectAudioTrack, selectSubtitleTrack } = useStreamTracks(player);
+    const [renditionId, setRenditionId] = useState<string | null>(null);
+    const [isTracksSheetOpen, setTracksSheetOpen] = useState(false);
+    const pinnedSourceRef = useRef<VideoSource | null>(null);
+    const resolveSource = useCallback(
+        (uri: string) =>
+            (uri === playUri ? pinnedSourceRef.current : null) ?? toVideoSource(uri),
+        [playUri]
+    );
+    // Published sprites (a WebVTT track, or the stream's own) beat decoding frames on the
+    // device. Without them the timeline decodes frames itself, streams included.
+    const vttTiles = useSpriteThumbnails(source.thumbnailsUri);
+    const thumbnailProviders = useMemo(() => {
+        const tiles = vttTiles?.length ? vttTiles : manifest?.thumbnails;
+        return tiles?.length ? { [playUri]: new SpriteSheetProvider(tiles) } : undefined;
+    }, [vttTiles, manifest, playUri]);
+    const { settings: seekSettings, updateSettings: updateSeekSettings } = useSeekSettings();
+    const [isSeekSettingsOpen, setSeekSettingsOpen] = useState(false);
+    const [isSpeedSheetOpen, setSpeedSheetOpen] = useState(false);
+    const { style: captionStyle, updateStyle: updateCaptionStyle } = useCaptionStyle();
+    const [isCaptionSheetOpen, setCaptionSheetOpen] = useState(false);
+    const [selectedCueId, setSelectedCueId] = useState<string | null>(null);
+    const history = useEditHistory<TimelineState>(EMPTY_TIMELINE_STATE);
+    const { execute, seal, reset } = history;
+    const { project, trim, markers, captions } = history.state;
+    const duration = project ? projectDuration(project) : 0;
+    const selectedCueIndex = captions.findIndex((cue) => cue.id === selectedCueId);
+    const selectedCue = selectedCueIndex >= 0 ? captions[selectedCueIndex] : null;
+    const overlappingCues = useMemo(() => overlappingCueIds(captions), [captions]);
+
+    // At the end the playlist decides: replay, stop, or hand over to the next item.
+    // Both timeUpdate and playToEnd can report the end, so hand over only once.
+    const hasEndedRef = useRef(false);
+    const handleSequenceEnd = useCallback((): SequenceEndAction => {
+        if (endAction === 'replay') return 'wrap';
+        if (endAction === 'stop') return 'stop';
+        if (!hasEndedRef.current) {
+            hasEndedRef.current = true;
+            onEnded();
+        }
+        return 'handled';
+    }, [endAction, onEnded]);
+
+    const [sourceError, setSourceError] = useState<string | null>(null);
+    const handleSourceError = useCallback(
+        (error: Error | null) => setSourceError(error ? error.message : null),
+        []
+    );
+    // Loops inside the trimmed range instead of the whole sequence
+    const playback = useSequencePlayback(player, project, trim, {
+        onEnd: handleSequenceEnd,
+        resolveSource,
+        onSourceError: handleSourceError,
+    });
+
+    const selectRendition = useCallback(
+        (id: string | null) => {
+            const rendition = manifest?.renditions.find((candidate) => candidate.id === id);
+            try {
+                pinnedSourceRef.current =
+                    manifest && rendition ? writePinnedManifest(manifest, rendition) : null;
+            } catch {
+                Alert.alert('Quality', 'Picking a quality is not supported here; staying on Auto.');
+                return;
+            }
+            setRenditionId(rendition ? rendition.id : null);
+            playback.reload();
+        },
+        [manifest, playback]
+    );
+    const renditionLabel = manifest
+        ? `${renditionId ? '' : 'Auto · '}${
+              tracks.videoTrack
+                  ? formatRendition(tracks.videoTrack.size.height, tracks.videoTrack.bitrate)
+                  : manifest.type.toUpperCase()
+          }`
+        : null;
+    const { rate, setSpeed, shuttle } = usePlaybackRate(player, playback);
+
+    // A/B loop picked with two long-presses on the strip
+    const [loopPoints, setLoopPoints] = useState(EMPTY_LOOP_POINTS);
+    const [countIn, setCountIn] = useState(0);
+    const loopRepeats = useAbLoop(player, playback, loopPoints.loop, countIn);
+
+    // J/K/L shuttle
+    const handleKey = useCallback(
+        (key: string) => {
+            const shuttleKey = toShuttleKey(key);
+            if (shuttleKey) shuttle(shuttleKey);
+            return shuttleKey !== null;
+        },
+        [shuttle]
+    );
+    useKeyboardShortcuts(handleKey);
+
+    // Start with a single clip spanning the source once its duration is known
+    useEffect(() => {
+        if (project) return;
+        const subscription = player.addListener('statusChange', () => {
+            if (player.duration > 0) {
+                reset({
+                    project: createProject(playUri, player.duration),
+                    trim: null,
+                    markers: readJson<Marker[]>(markersStorageName, []),
+                    captions: readJson<Cue[]>(captionsStorageName, []),
+                });
+            }
+        });
+        return () => subscription.remove();
+    }, [player, project, reset, playUri, markersStorageName, captionsStorageName]);
+
+    // Continue where this source was left off once the project exists, offering to
+    // start over. Finished videos start from the beginning.
+    const [resumeFrom] = useState(() => resumePosition(loadProgress(videoSource)));
+    const hasResumedRef = useRef(false);
+    const [resumedAt, setResumedAt] = useState<number | null>(null);
+    useEffect(() => {
+        if (!project || resumeFrom === null || hasResumedRef.current) return;
+        hasResumedRef.current = true;
+        if (resumeFrom < projectDuration(project)) {
+            playback.seek(resumeFrom);
+            setResumedAt(resumeFrom);
+        }
+    }, [project, playback, resumeFrom]);
+    usePlaybackProgress(player, playback, project, videoSource);
+
+    const startOver = useCallback(() => {
+        playback.seek(0);
+        setResumedAt(null);
+    }, [playback]);
+    const dismissResumePrompt = useCallback(() => setResumedAt(null), []);
+
+    // Pauses and moves exactly `offset` frames from the current one
+    const stepFrame = useCallback(
+        (offset: number) => {
+            player.pause();
+            const frame = timeToFrame(playback.getCurrentTime(), frameRate);
+            playback.seek(frameToTime(frame + offset, frameRate));
+        },
+        [player, playback, frameRate]
+    );
+
+    const seekBy = useCallback(
+        (delta: number) => playback.seek(clampSeek(playback.getCurrentTime() + delta, duration)),
+        [playback, duration]
+    );
+
+    // Previous/next clip edge, marker or caption
+    const jumpToBoundary = useCallback(
+        (direction: number) => {
+            const times = boundaryTimes(project, markers, captions);
+            const time = playback.getCurrentTime();
+            const target =
+                direction < 0 ? previousBoundary(times, time) ?? 0 : nextBoundary(times, time);
+            if (target !== null) playback.seek(target);
+        },
+        [project, markers, captions, playback]
+    );
+
+    const openSeekSettings = useCallback(() => setSeekSettingsOpen(true), []);
+    const closeSeekSettings = useCallback(() => setSeekSettingsOpen(false), []);
+    const pickLoopPoint = useCallback(
+        (time: number) => setLoopPoints((points) => addLoopPoint(points, time)),
+        []
+    );
+    const clearLoop = useCallback(() => setLoopPoints(EMPTY_LOOP_POINTS), []);
+    const cycleCountIn = useCallback(() => setCountIn(nextCountIn), []);
+
+    const openSpeedSheet = useCallback(() => setSpeedSheetOpen(true), []);
+    const openTracksSheet = useCallback(() => setTracksSheetOpen(true), []);
+    const closeTracksSheet = useCallback(() => setTracksSheetOpen(false), []);
+    const closeSpeedSheet = useCallback(() => setSpeedSheetOpen(false), []);
+    const openCaptionSheet = useCallback(() => setCaptionSheetOpen(true), []);
+    const closeCaptionSheet = useCallback(() => setCaptionSheetOpen(false), []);
+
+    // Exports the trimmed range, or the whole edit when nothing is trimmed
+    const [clipEncoder] = useState(getClipEncoder);
+    const [isExportSheetOpen, setExportSheetOpen] = useState(false);
+    const exportRange = useMemo(
+        () => trim ?? (duration > 0 ? { start: 0, end: duration } : null),
+        [trim, duration]
+    );
+    const openExportSheet = useCallback(() => {
+        if (!clipEncoder) {
+            Alert.alert(
+                'Export',
+                'Exporting clips needs a development build; Expo Go and the web have no encoder.'
+            );
+            return;
+        }
+        setExportSheetOpen(true);
+    }, [clipEncoder]);
+    const closeExportSheet = useCallback(() => setExportSheetOpen(false), []);
+    const [isAnimationSheetOpen, setAnimationSheetOpen] = useState(false);
+    const openAnimationSheet = useCallback(() => setAnimationSheetOpen(true), []);
+    const closeAnimationSheet = useCallback(() => setAnimationSheetOpen(false), []);
+
+    // Frame grabs decode the playing clip's source at the player's own time; pausing keeps
+    // the captured moment on screen while the sheet is open
+    const { settings: frameGrabSettings, updateSettings: updateFrameGrabSettings } =
+        useFrameGrabSettings();
+    const [frameTarget, setFrameTarget] = useState<FrameTarget | null>(null);
+    const captureFrame = useCallback(() => {
+        player.pause();
+        const location = project ? clipAtTime(project, playback.getCurrentTime()) : null;
+        setFrameTarget({
+            sourceUri: location?.clip.sourceUri ?? playUri,
+            time: player.currentTime,
+        });
+    }, [player, project, playback, playUri]);
+    const closeFrameGrab = useCallback(() => setFrameTarget(null), []);
+
+    // Markers persist per source; skip the empty state before the project loads
+    useEffect(() => {
+        if (project) writeJson(markersStorageName, markers);
+    }, [project, markers, markersStorageName]);
+
+    useEffect(() => {
+        if (project) writeJson(captionsStorageName, captions);
+    }, [project, captions, captionsStorageName]);
+
+    const changeTrim = useCallback(
+        (range: TrimRange, isFinal: boolean) => {
+            execute((state) => setTrim(state, range));
+            if (isFinal) seal();
+        },
+        [execute, seal]
+    );
+
+    const splitAtPlayhead = useCallback(() => {
+        execute((state) =>
+            state.project
+                ? editProject('Split', state, splitAt(state.project, playback.getCurrentTime()))
+                : null
+        );
+    }, [execute, playback]);
+
+    const deleteActiveClip = useCallback(() => {
+        execute((state) => {
+            if (!state.project || state.project.clips.length <= 1) return null;
+            const location = clipAtTime(state.project, playback.getCurrentTime());
+            return location
+                ? editProject('Delete', state, rippleDelete(state.project, location.clip.id))
+                : null;
+        });
+    }, [execute, playback]);
+
+    const moveActiveClip = useCallback(
+        (offset: number) => {
+            execute((state) => {
+                if (!state.project) return null;
+                const location = clipAtTime(state.project, playback.getCurrentTime());
+                return location
+                    ? editProject(
+                          'Move',
+                          state,
+                          moveClip(state.project, location.clip.id, location.index + offset)
+                      )
+                    : null;
+            });
+        },
+        [execute, playback]
+    );
+
+    const addMarkerAtPlayhead = useCallback(() => {
+        execute((state) =>
+            addMarker(
+                state,
+                createMarker(
+                    playback.getCurrentTime(),
+                    `Marker ${state.markers.length + 1}`,
+                    nextMarkerColor(state.markers)
+                )
+            )
+        );
+    }, [execute, playback]);
+
+    const renameMarker = useCallback(
+        (id: string, title: string) => execute((state) => updateMarker(state, id, { title })),
+        [execute]
+    );
+
+    const deleteMarker = useCallback(
+        (id: string) => execute((state) => removeMarker(state, id)),
+        [execute]
+    );
+
+    const importChapters = useCallback(
+        (imported: Marker[]) => execute((state) => replaceMarkers(state, imported)),
+        [execute]
+    );
+
+    const importCaptions = useCallback(
+        (imported: Cue[]) => execute((state) => replaceCaptions(state, imported)),
+        [execute]
+    );
+
+    const selectCue = useCallback(
+        (id: string | null) => {
+            setSelectedCueId(id);
+            const cue = captions.find((candidate) => candidate.id === id);
+            if (cue) playback.seek(cue.start);
+        },
+        [captions, playback]
+    );
+
+    const addCaptionAtPlayhead = useCallback(() => {
+        const start = playback.getCurrentTime();
+        const end = Math.min(start + DEFAULT_CUE_DURATION, duration);
+        if (end - start < MIN_CUE_DURATION) return;
+        const cue = createCue(start, end, '');
+        execute((state) => addCaption(state, cue));
+        setSelectedCueId(cue.id);
+    }, [execute, playback, duration]);
+
+    // Edge drags on the caption lane coalesce into one step, like the trim handles
+    const changeCueTiming = useCallback(
+        (id: string, start: number, end: number, isFinal: boolean) => {
+            execute((state) => updateCaption(state, id, { start, end }));
+            if (isFinal) seal();
+        },
+        [execute, seal]
+    );
+
+    const changeCueText = useCallback(
+        (id: string, text: string) => execute((state) => updateCaption(state, id, { text })),
+        [execute]
+    );
+
+    const splitSelectedCue = useCallback(() => {
+        if (!selectedCueId) return;
+        execute((state) => splitCaption(state, selectedCueId, playback.getCurrentTime()));
+    }, [execute, playback, selectedCueId]);
+
+    const mergeSelectedCue = useCallback(() => {
+        if (selectedCueId) execute((state) => mergeCaptions(state, selectedCueId));
+    }, [execute, selectedCueId]);
+
+    const deleteSelectedCue = useCallback(() => {
+        if (!selectedCueId) return;
+        execute((state) => removeCaption(state, selectedCueId));
+        setSelectedCueId(null);
+    }, [execute, selectedCueId]);
 
     return (
         <GestureHandlerRootView style={styles.container}>
             <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
                 <Stack.Screen options={screenOptions} />
 
-                <View style={styles.videoContainer}>
-                    <VideoView
-                        style={styles.video}
-                        player={player}
-                        fullscreenOptions={{ enable: true }}
-                        allowsPictureInPicture
-                        nativeControls={false}
-                    />
-                </View>
+                <VideoSurface
+                    player={player}
+                    doubleTapStep={seekSettings.doubleTapStep}
+                    fastScrubRate={seekSettings.fastScrubRate}
+                    onSeekBy={seekBy}
+                    onStepFrame={stepFrame}>
+                    <CaptionOverlay playback={playback} cues={captions} style={captionStyle} />
+                    {resumedAt !== null && (
+                        <ResumePrompt
+                            position={resumedAt}
+                            onStartOver={startOver}
+                            onDismiss={dismissResumePrompt}
+                        />
+                    )}
+                    {sourceError !== null && (
+                        <SourceErrorBanner message={sourceError} onRetry={playback.reload} />
+                    )}
+                </VideoSurface>
 
                 {/* CapCut-style Timeline */}
-                <CapCutTimeline player={player} videoUri={videoSource} />
+                <CapCutTimeline
+                    playback={playback}
+                    project={project}
+                    trimRange={trim}
+                    markers={markers}
+                    captions={captions}
+                    selectedCueId={selectedCueId}
+                    onSelectCue={selectCue}
+                    onCueTimingChange={changeCueTiming}
+                    frameRate={frameRate}
+                    playbackRate={rate}
+                    loopPoints={loopPoints}
+                    onLoopPoint={pickLoopPoint}
+                    onTrimChange={changeTrim}
+                    liveScrub
+                    thumbnailProviders={thumbnailProviders}
+                />
+
+                <AbLoopBar
+                    points={loopPoints}
+                    repeats={loopRepeats}
+                    countIn={countIn}
+                    onCycleCountIn={cycleCountIn}
+                    onClear={clearLoop}
+                />
+
+                {/* Clip Editing */}
+                <EditToolbar
+                    canUndo={history.canUndo}
+                    canRedo={history.canRedo}
+                    onUndo={history.undo}
+                    onRedo={history.redo}
+                    canEditClips={(project?.clips.length ?? 0) > 1}
+                    onSplit={splitAtPlayhead}
+                    onDelete={deleteActiveClip}
+                    onMove={moveActiveClip}
+                    onAddMarker={addMarkerAtPlayhead}
+                    onExport={openExportSheet}
+                    onExportAnimation={openAnimationSheet}
+                />
 
                 {/* Playback Controls */}
-                <VideoControls player={player} />
+                <VideoControls
+                    player={player}
+                    backwardStep={seekSettings.backwardStep}
+                    forwardStep={seekSettings.forwardStep}
+                    rate={rate}
+                    onSeekBy={seekBy}
+                    onJump={jumpToBoundary}
+                    onStepFrame={stepFrame}
+                    onOpenSettings={openSeekSettings}
+                    onOpenSpeed={openSpeedSheet}
+                    hasCaptions={captions.length > 0}
+                    onOpenCaptions={openCaptionSheet}
+                    onCaptureFrame={captureFrame}
+                    renditionLabel={renditionLabel}
+                    onOpenTracks={openTracksSheet}
+                    queueLabel={queueLabel}
+                    canPrevious={canPrevious}
+                    canNext={canNext}
+                    onPrevious={onPrevious}
+                    onNext={onNext}
+                    onOpenQueue={onOpenQueue}
+                />
+
+                {/* Chapters */}
+                <ChapterList
+                    playback={playback}
+                    markers={markers}
+                    duration={duration}
+                    onRename={renameMarker}
+                    onDelete={deleteMarker}
+                    onImport={importChapters}
+                />
+
+                <CaptionEditor
+                    cues={captions}
+                    selectedCue={selectedCue}
+                    isOverlapping={!!selectedCue && overlappingCues.has(selectedCue.id)}
+                    canMerge={selectedCueIndex >= 0 && selectedCueIndex < captions.length - 1}
+                    onAdd={addCaptionAtPlayhead}
+                    onSplit={splitSelectedCue}
+                    onMerge={mergeSelectedCue}
+                    onDelete={deleteSelectedCue}
+                    onChangeText={changeCueText}
+                    onSeek={playback.seek}
+                />
+
+                <SeekSettingsSheet
+                    visible={isSeekSettingsOpen}
+                    settings={seekSettings}
+                    onChange={updateSeekSettings}
+                    onClose={closeSeekSettings}
+                />
+
+                <CaptionSheet
+                    visible={isCaptionSheetOpen}
+                    cueCount={captions.length}
+                    style={captionStyle}
+                    onStyleChange={updateCaptionStyle}
+                    onImport={importCaptions}
+                    onClose={closeCaptionSheet}
+                />
+
+                {clipEncoder && (
+                    <ExportSheet
+                        visible={isExportSheetOpen}
+                        project={project}
+                        range={exportRange}
+                        title={source.title}
+                        encoder={clipEncoder}
+                        onClose={closeExportSheet}
+                    />
+                )}
+
+                <AnimationExportSheet
+                    visible={isAnimationSheetOpen}
+                    project={project}
+                    range={exportRange}
+                    title={source.title}
+                    sourceSize={tracks.videoTrack?.size ?? null}
+                    onClose={closeAnimationSheet}
+                />
+
+                <FrameGrabSheet
+                    target={frameTarget}
+                    title={source.title}
+                    size={tracks.videoTrack?.size ?? null}
+                    settings={frameGrabSettings}
+                    onSettingsChange={updateFrameGrabSettings}
+                    onClose={closeFrameGrab}
+                />
+
+                <StreamTracksSheet
+                    visible={isTracksSheetOpen}
+                    renditions={manifest?.renditions ?? []}
+                    renditionId={renditionId}
+                    tracks={tracks}
+                    onSelectRendition={selectRendition}
+                    onSelectAudio={selectAudioTrack}
+                    onSelectSubtitles={selectSubtitleTrack}
+                    onClose={closeTracksSheet}
+                />
+
+                <BottomSheet
+                    visible={isSpeedSheetOpen}
+                    title="Playback speed"
+                    onClose={closeSpeedSheet}>
+                    <OptionRow
+                        label="Pitch is corrected where the platform supports it"
+                        options={SPEED_OPTIONS}
+                        value={rate}
+                        format={formatRate}
+                        onSelect={setSpeed}
+                    />
+                </BottomSheet>
             </SafeAreaView>
         </GestureHandlerRootView>
     );
+});
+
+// Opened directly the sample plays; otherwise the source chosen on the sources screen
+function sourceFromParams(uri?: string, title?: string): VideoSourceInfo {
+    if (!uri) return SAMPLE_SOURCE;
+    return (
+        findRecentSource(loadRecentSources(), uri) ?? {
+            uri,
+            title: title ?? titleFromUri(uri),
+            kind: 'url',
+        }
+    );
+}
+
+export default function VideoScreen() {
+    const params = useLocalSearchParams<{ uri?: string; title?: string }>();
+    const [initialSource] = useState(() => sourceFromParams(params.uri, params.title));
+    const { playlist, next, previous, select, move, remove, toggleShuffle, toggleRepeat } =
+        usePlaylist(initialSource);
+    const [isQueueOpen, setQueueOpen] = useState(false);
+    const source = playlist.items[playlist.index];
+    const hasQueue = playlist.items.length > 1;
+
+    // Every item played lands in the recents
+    useEffect(() => {
+        saveRecentSources(addRecentSource(loadRecentSources(), source));
+    }, [source]);
+
+    const advance = useCallback(() => next(true), [next]);
+    const skipToNext = useCallback(() => next(), [next]);
+    const openQueue = useCallback(() => setQueueOpen(true), []);
+    const closeQueue = useCallback(() => setQueueOpen(false), []);
+
+    return (
+        <>
+            <VideoEditor
+                key={source.uri}
+                source={source}
+                endAction={endAction(playlist)}
+                queueLabel={`${playlist.index + 1}/${playlist.items.length}`}
+                canPrevious={hasQueue && previousIndex(playlist) !== null}
+                canNext={hasQueue && nextIndex(playlist, false) !== null}
+                onEnded={advance}
+                onPrevious={previous}
+                onNext={skipToNext}
+                onOpenQueue={openQueue}
+            />
+
+            <QueueSheet
+                visible={isQueueOpen}
+                playlist={playlist}
+                onSelect={select}
+                onMove={move}
+                onRemove={remove}
+                onToggleShuffle={toggleShuffle}
+                onToggleRepeat={toggleRepeat}
+                onClose={closeQueue}
+            />
+        </>
+    );
 }
 
 const styles = StyleSheet.create({
@@ -120,11 +1179,31 @@ const styles = StyleSheet.create({
         width: '100%',
         height: '100%',
     },
+    toolbar: {
+        flexDirection: 'row',
+        justifyContent: 'center',
+        alignItems: 'center',
+        gap: 16,
+        marginTop: 20,
+    },
+    toolButton: {
+        padding: 8,
+        borderRadius: 8,
+        backgroundColor: 'rgba(255,255,255,0.1)',
+    },
+    toolButtonDisabled: {
+        opacity: 0.3,
+    },
+    toolbarDivider: {
+        width: 1,
+        height: 20,
+        backgroundColor: 'rgba(255,255,255,0.2)',
+    },
     actionsContainer: {
         flexDirection: 'row',
         justifyContent: 'center',
         alignItems: 'center',
-        gap: 30,
+        gap: 12,
         marginTop: 30,
     },
     iconButton: {
@@ -132,6 +1211,65 @@ const styles = StyleSheet.create({
         borderRadius: 25,
         backgroundColor: 'rgba(255,255,255,0.1)',
     },
+    smallIconButton: {
+        padding: 8,
+        borderRadius: 20,
+        backgroundColor: 'rgba(255,255,255,0.1)',
+    },
+    secondaryActions: {
+        flexDirection: 'row',
+        justifyContent: 'center',
+        alignItems: 'center',
+        gap: 12,
+        marginTop: 20,
+    },
+    pillButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 14,
+        backgroundColor: 'rgba(255,255,255,0.1)',
+    },
+    pillText: {
+        color: '#fff',
+        fontSize: 12,
+        fontWeight: '600',
+        fontVariant: ['tabular-nums'],
+    },
+    stepLabel: {
+        position: 'absolute',
+        bottom: -14,
+        alignSelf: 'center',
+        color: '#888',
+        fontSize: 10,
+        fontVariant: ['tabular-nums'],
+    },
+    skipIndicator: {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        width: '40%',
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: 'rgba(255,255,255,0.12)',
+    },
+    skipLeft: {
+        left: 0,
+        borderTopRightRadius: 999,
+        borderBottomRightRadius: 999,
+    },
+    skipRight: {
+        right: 0,
+        borderTopLeftRadius: 999,
+        borderBottomLeftRadius: 999,
+    },
+    skipText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '700',
+    },
     playButton: {
         backgroundColor: '#fff',
         padding: 15,
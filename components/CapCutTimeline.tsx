@@ -1,39 +1,87 @@
 import { Image } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useVideoPlayer } from 'expo-video';
-import * as VideoThumbnails from 'expo-video-thumbnails';
 import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
     ActivityIndicator,
     Dimensions,
     PixelRatio,
-    Platform,
     StyleSheet,
     Text,
+    TextInput,
+    TouchableOpacity,
     View,
 } from 'react-native';
-import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { decodeAudioData } from 'react-native-audio-api';
+import { Gesture, GestureDetector, GestureType } from 'react-native-gesture-handler';
 import Animated, {
     interpolate,
+    SharedValue,
     useAnimatedStyle,
     useSharedValue,
     withSpring,
+    withTiming,
 } from 'react-native-reanimated';
 import { scheduleOnRN } from 'react-native-worklets';
 
+import type { SequencePlayback } from '../hooks/use-sequence-playback';
+import type { LoopPoints } from '../lib/ab-loop';
+import {
+    activeCues,
+    Cue,
+    cueBoundaries,
+    MIN_CUE_DURATION,
+    overlappingCueIds,
+    plainCueText,
+} from '../lib/captions';
+import { IS_LOW_END_DEVICE } from '../lib/device';
+import { DownloadManager } from '../lib/download-manager';
+import { FrameIndex } from '../lib/frame-index';
+import type { Marker } from '../lib/markers';
+import { TaskScheduler } from '../lib/task-scheduler';
+import { ThumbnailCache } from '../lib/thumbnail-cache';
+import { ThumbnailProvider, VideoFrameProvider } from '../lib/thumbnail-provider';
+import { coarseToFineOrder } from '../lib/thumbnail-order';
+import { formatRate } from '../lib/shuttle';
+import type { ThumbnailImage } from '../lib/sprite-tiles';
+import { detectStreamType } from '../lib/stream-manifest';
+import { throttle } from '../lib/throttle';
+import {
+    DEFAULT_FRAME_RATE,
+    formatTimecode,
+    parseTimecode,
+    TIMECODE_MODES,
+    TimecodeMode,
+} from '../lib/timecode';
+import {
+    Clip,
+    clipAtTime,
+    clipDuration,
+    clipEnd,
+    Project,
+    projectDuration,
+    TrimRange,
+} from '../lib/timeline-project';
+import { reducePeaks, resamplePeaks, WAVEFORM_SAMPLE_RATE } from '../lib/waveform';
+import { WaveformCache } from '../lib/waveform-cache';
+
+export type { TrimRange } from '../lib/timeline-project';
+
 // ============================================================================
 // CONSTANTS & CONFIGURATION
 // ============================================================================
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const PIXEL_RATIO = PixelRatio.get();
-const IS_LOW_END_DEVICE = PIXEL_RATIO < 2 || Platform.OS === 'android';
 
 const TIMELINE_PADDING = 20;
 const TIMELINE_WIDTH = SCREEN_WIDTH - TIMELINE_PADDING * 2;
 const TIMELINE_HEIGHT = 56;
 const PLAYHEAD_WIDTH = 4;
 const THUMBNAIL_HEIGHT = 48;
+const WAVEFORM_HEIGHT = 28;
+
+// Spacing of waveform bars on screen, in points
+const WAVEFORM_BAR_SPACING = 3;
 
 // Adaptive thumbnail count based on device capability
 const THUMBNAIL_COUNT = IS_LOW_END_DEVICE ? 6 : 10;
@@ -50,39 +98,57 @@ const THUMBNAIL_CONFIG = {
 // Limit concurrent thumbnail generation to prevent memory pressure
 const MAX_CONCURRENT_THUMBNAILS = IS_LOW_END_DEVICE ? 2 : 4;
 
-// ============================================================================
-// THUMBNAIL CACHE (Singleton)
-// ============================================================================
+// Give up on a frame that takes this long (remote 4K sources can stall)
+const THUMBNAIL_TIMEOUT = 15000;
 
-class ThumbnailCache {
-    private static instance: ThumbnailCache;
-    private cache = new Map<string, string[]>();
-    private maxSize = 5; // Keep max 5 videos in cache
+// Disk budget for the persistent thumbnail cache
+const THUMBNAIL_CACHE_BYTES = (IS_LOW_END_DEVICE ? 20 : 50) * 1024 * 1024;
 
-    static getInstance(): ThumbnailCache {
-        if (!ThumbnailCache.instance) {
-            ThumbnailCache.instance = new ThumbnailCache();
-        }
-        return ThumbnailCache.instance;
-    }
+// Disk budget for cached waveform peaks, roughly 5 hours of audio per MB
+const WAVEFORM_CACHE_BYTES = (IS_LOW_END_DEVICE ? 2 : 5) * 1024 * 1024;
 
-    get(key: string): string[] | undefined {
-        return this.cache.get(key);
-    }
+// Zoom limits - the deepest zoom shows this many seconds across the timeline
+const MIN_ZOOM = 1;
+const MIN_VISIBLE_DURATION = 2;
 
-    set(key: string, thumbnails: string[]): void {
-        // LRU eviction
-        if (this.cache.size >= this.maxSize) {
-            const firstKey = this.cache.keys().next().value;
-            if (firstKey) this.cache.delete(firstKey);
-        }
-        this.cache.set(key, thumbnails);
-    }
+// Auto-scroll while scrubbing near the edges of a zoomed timeline
+const EDGE_SCROLL_ZONE = 24;
+const EDGE_SCROLL_STEP = 12;
 
-    clear(): void {
-        this.cache.clear();
-    }
-}
+// Where the playhead lands (fraction of the visible width) when the track follows playback
+const FOLLOW_ANCHOR = 0.25;
+
+// Trim handles - the selection never gets shorter than MIN_TRIM_DURATION seconds
+const TRIM_HANDLE_WIDTH = 12;
+const TRIM_HANDLE_HIT_SLOP = 10;
+const MIN_TRIM_DURATION = 0.5;
+
+// Hold this long on the strip to pick an A/B loop point
+const LOOP_POINT_PRESS_DURATION = 500;
+
+// Marker flags
+const MARKER_FLAG_SIZE = 10;
+const MARKER_HIT_SLOP = 12;
+
+// Caption cue ticks - scrubbing within this many pixels of one snaps to it
+const CUE_TICK_HEIGHT = 8;
+const CUE_SNAP_DISTANCE = 8;
+
+// Caption lane under the strip - a drag starting this close to a cue edge moves it
+const CAPTION_LANE_HEIGHT = 24;
+const CUE_EDGE_HIT_SLOP = 12;
+
+// Scrub preview bubble - exact frames are requested at most this often
+const SCRUB_PREVIEW_WIDTH = 96;
+const SCRUB_PREVIEW_HEIGHT = 54;
+const SCRUB_PREVIEW_INTERVAL = 150;
+const SCRUB_PREVIEW_PRIORITY = 1000;
+
+// Throttle for seeking the player while scrubbing with live preview on
+const LIVE_SCRUB_INTERVAL = 100;
+
+// Wait for zoom/scroll to settle before regenerating thumbnails for the visible range
+const VIEWPORT_SETTLE_DELAY = 250;
 
 // ============================================================================
 // UTILITIES
@@ -95,63 +161,184 @@ const formatTime = (seconds: number): string => {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 };
 
-const formatTimeMs = (seconds: number): string => {
-    if (!seconds || isNaN(seconds)) return '00:00.00';
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    const ms = Math.floor((seconds % 1) * 100);
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(2, '0')}`;
+const TIMECODE_LABELS: Record<TimecodeMode, string> = {
+    clock: 'MM:SS',
+    centis: 'MM:SS.CC',
+    smpte: 'SMPTE',
+    frames: 'FRAME',
 };
 
-// Chunked parallel execution to limit concurrency
-async function generateThumbnailsWithLimit<T>(
-    tasks: (() => Promise<T>)[],
-    limit: number
-): Promise<T[]> {
-    const results: T[] = [];
-    const executing: Promise<void>[] = [];
-
-    for (const task of tasks) {
-        const p = task().then((result) => {
-            results.push(result);
-            executing.splice(executing.indexOf(p), 1);
-        });
-        executing.push(p);
+const clamp = (value: number, min: number, max: number): number => {
+    'worklet';
+    return Math.min(Math.max(value, min), max);
+};
 
-        if (executing.length >= limit) {
-            await Promise.race(executing);
+/** Fraction of the sequence under `x`, a point on the visible timeline. */
+const progressAtX = (x: number, scroll: number, zoomLevel: number): number => {
+    'worklet';
+    return (clamp(x, 0, TIMELINE_WIDTH) + scroll) / (TIMELINE_WIDTH * zoomLevel);
+};
+
+/** The time in sorted `times` nearest to `time` if it's within `slop`, else `time`. */
+const snapToTimes = (time: number, times: number[], slop: number): number => {
+    'worklet';
+    let lo = 0;
+    let hi = times.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (times[mid] < time) {
+            lo = mid + 1;
+        } else {
+            hi = mid;
+        }
+    }
+    let nearest = time;
+    let best = slop;
+    for (const candidate of [times[lo - 1], times[lo]]) {
+        if (candidate !== undefined && Math.abs(candidate - time) <= best) {
+            nearest = candidate;
+            best = Math.abs(candidate - time);
         }
     }
+    return nearest;
+};
+
+// Shared by every strip so the concurrency limit holds across clips and zoom levels
+const thumbnailScheduler = new TaskScheduler(MAX_CONCURRENT_THUMBNAILS);
+
+// Every frame generated so far, for instant scrub previews
+const frameIndex = new FrameIndex();
+
+// On-device decoding for sources without published thumbnails, one provider per source
+const frameProviders = new Map<string, VideoFrameProvider>();
+
+const frameProviderFor = (sourceUri: string): VideoFrameProvider => {
+    let provider = frameProviders.get(sourceUri);
+    if (!provider) {
+        provider = new VideoFrameProvider(sourceUri, THUMBNAIL_CONFIG.quality);
+        frameProviders.set(sourceUri, provider);
+    }
+    return provider;
+};
+
+// Decodes in flight, so clips that share a source decode it only once
+const pendingWaveforms = new Map<string, Promise<Uint8Array | null>>();
+
+// The decoder reads remote files whole into memory and can't read HLS/DASH at all, so
+// only local files (or a finished download of the source) get a waveform
+const localAudioUri = (sourceUri: string): string | null => {
+    const uri = DownloadManager.getInstance().localUri(sourceUri) ?? sourceUri;
+    return uri.startsWith('file://') && detectStreamType(uri) === 'progressive' ? uri : null;
+};
+
+const loadWaveform = (sourceUri: string): Promise<Uint8Array | null> => {
+    const cache = WaveformCache.getInstance({ maxBytes: WAVEFORM_CACHE_BYTES });
+    const cached = cache.get(sourceUri);
+    if (cached) return Promise.resolve(cached);
+
+    const audioUri = localAudioUri(sourceUri);
+    if (!audioUri) return Promise.resolve(null);
+
+    let pending = pendingWaveforms.get(sourceUri);
+    if (!pending) {
+        // Starts inside a promise so a missing decoder (e.g. web) rejects instead of throwing
+        pending = Promise.resolve()
+            .then(() => decodeAudioData(audioUri, WAVEFORM_SAMPLE_RATE))
+            .then((buffer) => reducePeaks(buffer))
+            .then((peaks) => {
+                cache.set(sourceUri, peaks);
+                return peaks;
+            })
+            // No audio track or no decoder - the lane stays empty
+            .catch(() => null)
+            .finally(() => pendingWaveforms.delete(sourceUri));
+        pendingWaveforms.set(sourceUri, pending);
+    }
+    return pending;
+};
 
-    await Promise.all(executing);
-    return results;
+// ============================================================================
+// THUMBNAIL IMAGE COMPONENT
+// ============================================================================
+
+interface Size {
+    width: number;
+    height: number;
 }
 
+interface ThumbnailViewProps {
+    image: ThumbnailImage;
+    recyclingKey?: string;
+}
+
+/**
+ * Fills its parent with a thumbnail. Sprite tiles are cut out by drawing the
+ * whole sheet scaled and offset inside a clipping frame, which needs both the
+ * frame and sheet sizes - the tile stays hidden until they're measured.
+ */
+const ThumbnailView = memo(function ThumbnailView({ image, recyclingKey }: ThumbnailViewProps) {
+    const [frame, setFrame] = useState<Size | null>(null);
+    const [sheet, setSheet] = useState<Size | null>(null);
+    const { crop } = image;
+
+    if (!crop) {
+        return (
+            <Image
+                source={{ uri: image.uri }}
+                style={styles.thumbnailImage}
+                contentFit="cover"
+                transition={150}
+                cachePolicy="memory-disk"
+                recyclingKey={recyclingKey}
+            />
+        );
+    }
+
+    // Cover the frame with the tile, centered
+    const scale = frame ? Math.max(frame.width / crop.width, frame.height / crop.height) : 0;
+    const sheetStyle =
+        frame && sheet
+            ? {
+                  width: sheet.width * scale,
+                  height: sheet.height * scale,
+                  left: (frame.width - crop.width * scale) / 2 - crop.x * scale,
+                  top: (frame.height - crop.height * scale) / 2 - crop.y * scale,
+              }
+            : styles.spriteHidden;
+
+    return (
+        <View
+            style={styles.spriteFrame}
+            onLayout={({ nativeEvent }) => setFrame(nativeEvent.layout)}>
+            <Image
+                source={{ uri: image.uri }}
+                style={[styles.spriteSheet, sheetStyle]}
+                contentFit="fill"
+                cachePolicy="memory-disk"
+                onLoad={({ source }) => setSheet({ width: source.width, height: source.height })}
+            />
+        </View>
+    );
+});
+
 // ============================================================================
 // THUMBNAIL FRAME COMPONENT
 // ============================================================================
 
 interface ThumbnailFrameProps {
     index: number;
-    thumbnailUri: string | null;
+    thumbnail: ThumbnailImage | null;
     isLoading: boolean;
 }
 
 const ThumbnailFrame = memo(
-    function ThumbnailFrame({ index, thumbnailUri, isLoading }: ThumbnailFrameProps) {
+    function ThumbnailFrame({ index, thumbnail, isLoading }: ThumbnailFrameProps) {
         const hue = (index * 360) / THUMBNAIL_COUNT;
 
         return (
-            <View style={[styles.thumbnailFrame, { width: THUMBNAIL_WIDTH }]}>
-                {thumbnailUri ? (
-                    <Image
-                        source={{ uri: thumbnailUri }}
-                        style={styles.thumbnailImage}
-                        contentFit="cover"
-                        transition={150}
-                        cachePolicy="memory-disk"
-                        recyclingKey={`thumb-${index}`}
-                    />
+            <View style={styles.thumbnailFrame}>
+                {thumbnail ? (
+                    <ThumbnailView image={thumbnail} recyclingKey={`thumb-${index}`} />
                 ) : (
                     <LinearGradient
                         colors={[`hsla(${hue}, 40%, 20%, 1)`, `hsla(${hue + 15}, 40%, 15%, 1)`]}
@@ -169,7 +356,8 @@ const ThumbnailFrame = memo(
         );
     },
     (prev, next) =>
-        prev.thumbnailUri === next.thumbnailUri &&
+        prev.thumbnail?.uri === next.thumbnail?.uri &&
+        prev.thumbnail?.crop === next.thumbnail?.crop &&
         prev.isLoading === next.isLoading &&
         prev.index === next.index
 );
@@ -179,7 +367,7 @@ const ThumbnailFrame = memo(
 // ============================================================================
 
 interface ThumbnailStripProps {
-    thumbnails: (string | null)[];
+    thumbnails: (ThumbnailImage | null)[];
     isLoading: boolean;
 }
 
@@ -187,12 +375,12 @@ const ThumbnailStrip = memo(
     function ThumbnailStrip({ thumbnails, isLoading }: ThumbnailStripProps) {
         return (
             <View style={styles.thumbnailStrip}>
-                {thumbnails.map((uri, i) => (
+                {thumbnails.map((thumbnail, i) => (
                     <ThumbnailFrame
                         key={i}
                         index={i}
-                        thumbnailUri={uri}
-                        isLoading={isLoading && !uri}
+                        thumbnail={thumbnail}
+                        isLoading={isLoading && !thumbnail}
                     />
                 ))}
             </View>
@@ -201,112 +389,129 @@ const ThumbnailStrip = memo(
     (prev, next) =>
         prev.isLoading === next.isLoading &&
         prev.thumbnails.length === next.thumbnails.length &&
-        prev.thumbnails.every((t, i) => t === next.thumbnails[i])
+        prev.thumbnails.every(
+            (t, i) => t?.uri === next.thumbnails[i]?.uri && t?.crop === next.thumbnails[i]?.crop
+        )
 );
 
 // ============================================================================
-// MAIN TIMELINE COMPONENT
+// THUMBNAIL LOADING HOOK
 // ============================================================================
 
-interface CapCutTimelineProps {
-    player: ReturnType<typeof useVideoPlayer>;
-    videoUri: string;
-}
-
-export const CapCutTimeline = memo(function CapCutTimeline({
-    player,
-    videoUri,
-}: CapCutTimelineProps) {
-    // State
-    const [duration, setDuration] = useState(0);
-    const [displayTime, setDisplayTime] = useState(0);
-    const [thumbnails, setThumbnails] = useState<(string | null)[]>(() =>
-        Array(THUMBNAIL_COUNT).fill(null)
+/**
+ * Loads `count` evenly spaced thumbnails covering [start, end) of the video
+ * (source time) from its provider. Expensive (decoded) frames are backed by
+ * the shared ThumbnailCache and appear as soon as they're ready,
+ * coarse-to-fine around `getFocusTime()`.
+ */
+function useThumbnailRange(
+    videoUri: string,
+    provider: ThumbnailProvider,
+    start: number,
+    end: number,
+    count: number,
+    enabled: boolean,
+    getFocusTime?: () => number
+) {
+    const [thumbnails, setThumbnails] = useState<(ThumbnailImage | null)[]>(() =>
+        Array(count).fill(null)
     );
-    const [isLoadingThumbnails, setIsLoadingThumbnails] = useState(true);
+    const [isLoading, setIsLoading] = useState(true);
 
-    // Refs
     const isMountedRef = useRef(true);
-    const abortControllerRef = useRef<AbortController | null>(null);
-    const cache = useMemo(() => ThumbnailCache.getInstance(), []);
-
-    // Animated values
-    const isDragging = useSharedValue(false);
-    const progress = useSharedValue(0);
-    const playheadScale = useSharedValue(1);
+    const cache = useMemo(
+        () => ThumbnailCache.getInstance({ maxBytes: THUMBNAIL_CACHE_BYTES }),
+        []
+    );
 
-    // Cleanup on unmount
     useEffect(() => {
         isMountedRef.current = true;
         return () => {
             isMountedRef.current = false;
-            abortControllerRef.current?.abort();
         };
     }, []);
 
-    // Generate thumbnails with optimized parallel loading
     useEffect(() => {
-        if (duration <= 0 || !videoUri) return;
+        if (!enabled || end <= start || !videoUri) return;
 
-        // Abort any previous generation
-        abortControllerRef.current?.abort();
         const controller = new AbortController();
-        abortControllerRef.current = controller;
-
-        const cacheKey = `${videoUri}_${Math.round(duration)}`;
+        const cacheKey = `${videoUri}_${start.toFixed(1)}-${end.toFixed(1)}_${count}`;
+
+        const step = (end - start) / count;
+
+        // Published thumbnails need no scheduling or disk cache
+        if (!provider.isExpensive) {
+            Promise.all(
+                Array.from({ length: count }, (_, i) =>
+                    provider.getThumbnail(start + step * i).catch(() => null)
+                )
+            ).then((images) => {
+                if (controller.signal.aborted || !isMountedRef.current) return;
+                setThumbnails(images);
+                setIsLoading(false);
+            });
+            return () => controller.abort();
+        }
 
-        // Check cache first
+        // Check cache first; only complete ranges are stored
         const cached = cache.get(cacheKey);
-        if (cached && cached.length === THUMBNAIL_COUNT) {
-            setThumbnails(cached);
-            setIsLoadingThumbnails(false);
+        if (cached && cached.length === count && cached.every((uri) => uri !== null)) {
+            cached.forEach((uri, i) => uri && frameIndex.add(videoUri, start + step * i, uri));
+            setThumbnails(cached.map((uri) => (uri ? { uri } : null)));
+            setIsLoading(false);
             return;
         }
 
         const generate = async () => {
             if (!isMountedRef.current) return;
-            setIsLoadingThumbnails(true);
+            setThumbnails(Array(count).fill(null));
+            setIsLoading(true);
 
-            const tasks = Array.from({ length: THUMBNAIL_COUNT }, (_, i) => async () => {
-                if (controller.signal.aborted) return null;
+            const focusTime = getFocusTime?.() ?? start;
+            const focusIndex = clamp(Math.floor((focusTime - start) / step), 0, count - 1);
 
-                const timeMs = (duration / THUMBNAIL_COUNT) * i * 1000;
-                try {
-                    const result = await VideoThumbnails.getThumbnailAsync(videoUri, {
-                        time: timeMs,
-                        quality: THUMBNAIL_CONFIG.quality,
-                    });
-                    return result.uri;
-                } catch {
-                    // Silent fail for individual thumbnails
-                    return null;
-                }
+            // Earlier in the coarse-to-fine order means higher priority
+            const priorities: number[] = Array(count).fill(0);
+            coarseToFineOrder(count, focusIndex).forEach((index, position) => {
+                priorities[index] = -position;
             });
 
+            const tasks = priorities.map((priority, i) => ({
+                priority,
+                run: async () => (await provider.getThumbnail(start + step * i)).uri,
+            }));
+
             try {
-                const results = await generateThumbnailsWithLimit(
-                    tasks,
-                    MAX_CONCURRENT_THUMBNAILS
-                );
+                // Failed or timed out frames stay null
+                const settled = await thumbnailScheduler.runAll(tasks, {
+                    signal: controller.signal,
+                    timeout: THUMBNAIL_TIMEOUT,
+                    onSettled: (i, result) => {
+                        if (result.status !== 'fulfilled') return;
+                        frameIndex.add(videoUri, start + step * i, result.value);
+
+                        // Show each frame as soon as it's ready
+                        if (controller.signal.aborted || !isMountedRef.current) return;
+                        setThumbnails((prev) => {
+                            const next = [...prev];
+                            next[i] = { uri: result.value };
+                            return next;
+                        });
+                    },
+                });
+                const results = settled.map((r) => (r.status === 'fulfilled' ? r.value : null));
 
                 if (!controller.signal.aborted && isMountedRef.current) {
-                    // Sort results back to original order
-                    const orderedResults = Array(THUMBNAIL_COUNT).fill(null);
-                    results.forEach((uri, idx) => {
-                        if (uri) orderedResults[idx] = uri;
-                    });
+                    setIsLoading(false);
 
-                    setThumbnails(orderedResults);
-                    setIsLoadingThumbnails(false);
-
-                    // Cache valid results
-                    if (orderedResults.some((r) => r !== null)) {
-                        cache.set(cacheKey, orderedResults);
+                    // Cache complete ranges only, so failed frames are retried next time
+                    if (results.every((r) => r !== null)) {
+                        cache.set(cacheKey, results);
                     }
                 }
             } catch {
                 if (isMountedRef.current) {
-                    setIsLoadingThumbnails(false);
+                    setIsLoading(false);
                 }
             }
         };
@@ -314,43 +519,569 @@ export const CapCutTimeline = memo(function CapCutTimeline({
         generate();
 
         return () => controller.abort();
-    }, [duration, videoUri, cache]);
+    }, [videoUri, provider, start, end, count, enabled, getFocusTime, cache]);
+
+    return { thumbnails, isLoading };
+}
+
+// ============================================================================
+// WAVEFORM
+// ============================================================================
+
+/** Audio peaks of a source, from the WaveformCache or decoded on first use; null when remote. */
+function useWaveform(sourceUri: string, enabled: boolean) {
+    const [peaks, setPeaks] = useState<Uint8Array | null>(null);
+
+    useEffect(() => {
+        if (!enabled || !sourceUri) return;
+
+        let cancelled = false;
+        loadWaveform(sourceUri).then((result) => {
+            if (!cancelled) setPeaks(result);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [sourceUri, enabled]);
+
+    return peaks;
+}
+
+interface WaveformLaneProps {
+    /** Bar heights between 0 and 1. */
+    amplitudes: number[];
+}
+
+const WaveformLane = memo(function WaveformLane({ amplitudes }: WaveformLaneProps) {
+    return (
+        <View style={styles.waveformBars}>
+            {amplitudes.map((amplitude, i) => {
+                const height = Math.max(1, amplitude * WAVEFORM_HEIGHT);
+                return <View key={i} style={[styles.waveformBar, { height }]} />;
+            })}
+        </View>
+    );
+});
+
+// ============================================================================
+// SCRUB PREVIEW HOOK
+// ============================================================================
+
+/**
+ * Preview frame for a scrub position: the nearest known frame right away,
+ * then a throttled request for the exact time. Cheap providers are asked
+ * directly. Optionally seeks the player along (throttled) so the video
+ * follows the finger.
+ */
+function useScrubPreview(
+    project: Project | null,
+    getProvider: (sourceUri: string) => ThumbnailProvider,
+    onLiveSeek?: (time: number) => void
+) {
+    const [preview, setPreview] = useState<ThumbnailImage | null>(null);
+    const requestRef = useRef<AbortController | null>(null);
+
+    const fetchExactFrame = useMemo(
+        () =>
+            throttle((provider: ThumbnailProvider, sourceUri: string, sourceTime: number) => {
+                requestRef.current?.abort();
+                const controller = new AbortController();
+                requestRef.current = controller;
+
+                thumbnailScheduler
+                    .schedule(() => provider.getThumbnail(sourceTime), {
+                        priority: SCRUB_PREVIEW_PRIORITY,
+                        timeout: THUMBNAIL_TIMEOUT,
+                        signal: controller.signal,
+                    })
+                    .then((image) => {
+                        frameIndex.add(sourceUri, sourceTime, image.uri);
+                        if (!controller.signal.aborted) setPreview(image);
+                    })
+                    .catch(() => {
+                        // Keep showing the nearest frame
+                    });
+            }, SCRUB_PREVIEW_INTERVAL),
+        []
+    );
+
+    const liveSeek = useMemo(
+        () => (onLiveSeek ? throttle(onLiveSeek, LIVE_SCRUB_INTERVAL) : null),
+        [onLiveSeek]
+    );
+
+    const endScrub = useCallback(() => {
+        fetchExactFrame.cancel();
+        liveSeek?.cancel();
+        requestRef.current?.abort();
+        requestRef.current = null;
+    }, [fetchExactFrame, liveSeek]);
+
+    useEffect(() => endScrub, [endScrub]);
+
+    const updateScrub = useCallback(
+        (time: number) => {
+            const location = project && clipAtTime(project, time);
+            if (!location) return;
+
+            const { clip, sourceTime } = location;
+            const provider = getProvider(clip.sourceUri);
+            if (provider.isExpensive) {
+                const nearest = frameIndex.nearest(clip.sourceUri, sourceTime);
+                if (nearest) setPreview({ uri: nearest.uri });
+                fetchExactFrame(provider, clip.sourceUri, sourceTime);
+            } else {
+                provider
+                    .getThumbnail(sourceTime)
+                    .then(setPreview)
+                    .catch(() => setPreview(null));
+            }
+            liveSeek?.(time);
+        },
+        [project, getProvider, fetchExactFrame, liveSeek]
+    );
+
+    return { preview, updateScrub, endScrub };
+}
+
+// ============================================================================
+// CLIP SEGMENT COMPONENT
+// ============================================================================
+
+interface ClipSegmentProps {
+    clip: Clip;
+    duration: number;
+    zoom: SharedValue<number>;
+    visibleStart: number;
+    visibleEnd: number;
+    isZoomed: boolean;
+    isActive: boolean;
+    getPlayheadTime: () => number;
+    thumbnailProvider: ThumbnailProvider;
+}
+
+/**
+ * One clip on the track: a thumbnail strip for its source range, plus a finer
+ * strip for the part of the clip that is visible while zoomed in. The audio
+ * waveform below is drawn for the visible part only, at the settled zoom.
+ */
+const ClipSegment = memo(function ClipSegment({
+    clip,
+    duration,
+    zoom,
+    visibleStart,
+    visibleEnd,
+    isZoomed,
+    isActive,
+    getPlayheadTime,
+    thumbnailProvider,
+}: ClipSegmentProps) {
+    const length = clipDuration(clip);
+    const count = Math.max(1, Math.round((THUMBNAIL_COUNT * length) / duration));
+
+    // Playhead position in this clip's source time
+    const getFocusTime = useCallback(
+        () => clip.sourceIn + (getPlayheadTime() - clip.start),
+        [clip, getPlayheadTime]
+    );
+
+    const { thumbnails, isLoading } = useThumbnailRange(
+        clip.sourceUri,
+        thumbnailProvider,
+        clip.sourceIn,
+        clip.sourceOut,
+        count,
+        duration > 0,
+        getFocusTime
+    );
+
+    // Visible part of this clip, in sequence time
+    const detailStart = Math.max(visibleStart, clip.start);
+    const detailEnd = Math.min(visibleEnd, clipEnd(clip));
+    const hasDetail = isZoomed && detailEnd > detailStart;
+    const detailCount = Math.max(
+        1,
+        Math.round((THUMBNAIL_COUNT * (detailEnd - detailStart)) / (visibleEnd - visibleStart))
+    );
+    const { thumbnails: detailThumbnails, isLoading: isLoadingDetail } = useThumbnailRange(
+        clip.sourceUri,
+        thumbnailProvider,
+        clip.sourceIn + (detailStart - clip.start),
+        clip.sourceIn + (detailEnd - clip.start),
+        detailCount,
+        hasDetail,
+        getFocusTime
+    );
+
+    // One waveform bar every few points across the visible part of the clip
+    const peaks = useWaveform(clip.sourceUri, duration > 0);
+    const visibleWidth =
+        detailEnd > detailStart
+            ? (TIMELINE_WIDTH * (detailEnd - detailStart)) / (visibleEnd - visibleStart)
+            : 0;
+    const barCount = Math.round(visibleWidth / WAVEFORM_BAR_SPACING);
+    const amplitudes = useMemo(
+        () =>
+            peaks
+                ? resamplePeaks(
+                      peaks,
+                      clip.sourceIn + (detailStart - clip.start),
+                      clip.sourceIn + (detailEnd - clip.start),
+                      barCount
+                  )
+                : [],
+        [peaks, clip, detailStart, detailEnd, barCount]
+    );
+
+    const segmentStyle = useAnimatedStyle(() => {
+        const contentWidth = TIMELINE_WIDTH * zoom.value;
+        return {
+            left: (clip.start / duration) * contentWidth,
+            width: (length / duration) * contentWidth,
+        };
+    });
+
+    const detailStripStyle = useAnimatedStyle(() => {
+        const contentWidth = TIMELINE_WIDTH * zoom.value;
+        return {
+            left: ((detailStart - clip.start) / duration) * contentWidth,
+            width: ((detailEnd - detailStart) / duration) * contentWidth,
+        };
+    });
+
+    return (
+        <Animated.View
+            style={[styles.clipSegment, isActive && styles.clipSegmentActive, segmentStyle]}>
+            <ThumbnailStrip thumbnails={thumbnails} isLoading={isLoading} />
+
+            {hasDetail && (
+                <Animated.View style={[styles.detailStrip, detailStripStyle]}>
+                    <ThumbnailStrip thumbnails={detailThumbnails} isLoading={isLoadingDetail} />
+                </Animated.View>
+            )}
+
+            {amplitudes.length > 0 && (
+                <Animated.View style={[styles.waveformLane, detailStripStyle]}>
+                    <WaveformLane amplitudes={amplitudes} />
+                </Animated.View>
+            )}
+        </Animated.View>
+    );
+});
+
+// ============================================================================
+// MARKER FLAG COMPONENT
+// ============================================================================
+
+interface MarkerFlagProps {
+    marker: Marker;
+    duration: number;
+    zoom: SharedValue<number>;
+    /** Timeline gestures a tap on the flag must win against. */
+    blocks: GestureType[];
+    onSelect: (time: number) => void;
+}
+
+const MarkerFlag = memo(function MarkerFlag({
+    marker,
+    duration,
+    zoom,
+    blocks,
+    onSelect,
+}: MarkerFlagProps) {
+    const { time } = marker;
+
+    const tapGesture = Gesture.Tap()
+        .hitSlop(MARKER_HIT_SLOP)
+        .blocksExternalGesture(...blocks)
+        .onEnd(() => {
+            'worklet';
+            scheduleOnRN(onSelect, time);
+        });
+
+    const flagStyle = useAnimatedStyle(() => ({
+        left: (time / duration) * TIMELINE_WIDTH * zoom.value,
+    }));
+
+    return (
+        <GestureDetector gesture={tapGesture}>
+            <Animated.View style={[styles.markerFlag, flagStyle]}>
+                <View style={[styles.markerFlagHead, { backgroundColor: marker.color }]} />
+                <View style={[styles.markerFlagLine, { backgroundColor: marker.color }]} />
+            </Animated.View>
+        </GestureDetector>
+    );
+});
+
+// ============================================================================
+// CAPTION CUE TICKS
+// ============================================================================
+
+interface CueTicksProps {
+    /** Cue starts and ends, sorted. */
+    times: number[];
+    duration: number;
+}
+
+// Placed in percent of the track, so zooming only resizes the track
+const CueTicks = memo(function CueTicks({ times, duration }: CueTicksProps) {
+    return (
+        <View style={styles.cueTicks} pointerEvents="none">
+            {times.map((time) => (
+                <View
+                    key={time}
+                    style={[styles.cueTick, { left: `${(time / duration) * 100}%` }]}
+                />
+            ))}
+        </View>
+    );
+});
+
+// ============================================================================
+// CAPTION LANE
+// ============================================================================
+
+interface CaptionBlockProps {
+    cue: Cue;
+    duration: number;
+    isSelected: boolean;
+    /** Overlaps another cue, which players show stacked. */
+    isOverlapping: boolean;
+}
+
+const CaptionBlock = memo(function CaptionBlock({
+    cue,
+    duration,
+    isSelected,
+    isOverlapping,
+}: CaptionBlockProps) {
+    const placement = {
+        left: `${(cue.start / duration) * 100}%`,
+        width: `${((cue.end - cue.start) / duration) * 100}%`,
+    } as const;
+
+    return (
+        <View
+            style={[
+                styles.captionBlock,
+                isOverlapping && styles.captionBlockOverlap,
+                isSelected && styles.captionBlockSelected,
+                placement,
+            ]}>
+            <Text style={styles.captionBlockText} numberOfLines={1}>
+                {plainCueText(cue.text).replace(/\n/g, ' ')}
+            </Text>
+        </View>
+    );
+});
+
+// ============================================================================
+// MAIN TIMELINE COMPONENT
+// ============================================================================
+
+interface CapCutTimelineProps {
+    playback: SequencePlayback;
+    project: Project | null;
+    trimRange: TrimRange | null;
+    markers?: Marker[];
+    /** Caption cues; their edges show as ticks the scrubber snaps to. */
+    captions?: Cue[];
+    /** Cue highlighted on the caption lane. */
+    selectedCueId?: string | null;
+    /** Tap on the caption lane; null when no cue is under the finger. */
+    onSelectCue?: (id: string | null) => void;
+    /**
+     * Called while a cue edge is dragged on the caption lane, which only shows
+     * when this is set; `isFinal` marks the end of the drag.
+     */
+    onCueTimingChange?: (id: string, start: number, end: number, isFinal: boolean) => void;
+    /** Frames per second of the source, for SMPTE and frame-number display. */
+    frameRate?: number;
+    /** Current playback rate, shown next to the time when it isn't 1x. */
+    playbackRate?: number;
+    /** A/B loop to shade on the strip. */
+    loopPoints?: LoopPoints;
+    /** Long-press on the strip picks an A/B loop point at that time. */
+    onLoopPoint?: (time: number) => void;
+    /** Called while a trim handle moves; `isFinal` marks the end of the drag. */
+    onTrimChange?: (range: TrimRange, isFinal: boolean) => void;
+    /** Seek the player while scrubbing so the video follows the finger. */
+    liveScrub?: boolean;
+    /** Thumbnail providers per source URI; other sources decode frames on the device. */
+    thumbnailProviders?: Record<string, ThumbnailProvider>;
+}
+
+interface Viewport {
+    zoom: number;
+    scrollX: number;
+}
+
+export const CapCutTimeline = memo(function CapCutTimeline({
+    playback,
+    project,
+    trimRange,
+    markers,
+    captions,
+    selectedCueId,
+    onSelectCue,
+    onCueTimingChange,
+    frameRate = DEFAULT_FRAME_RATE,
+    playbackRate = 1,
+    loopPoints,
+    onLoopPoint,
+    onTrimChange,
+    liveScrub = false,
+    thumbnailProviders,
+}: CapCutTimelineProps) {
+    // State
+    const duration = useMemo(() => (project ? projectDuration(project) : 0), [project]);
+    const [displayTime, setDisplayTime] = useState(0);
+    const [timecodeMode, setTimecodeMode] = useState<TimecodeMode>('centis');
+    // Text being typed into the timecode field; null when not editing
+    const [timecodeInput, setTimecodeInput] = useState<string | null>(null);
+    const [viewport, setViewport] = useState<Viewport>({ zoom: MIN_ZOOM, scrollX: 0 });
+    const [settledViewport, setSettledViewport] = useState<Viewport>(viewport);
+
+    // Animated values
+    const isDragging = useSharedValue(false);
+    const progress = useSharedValue(0);
+    const playheadScale = useSharedValue(1);
+    const zoom = useSharedValue(MIN_ZOOM);
+    const scrollX = useSharedValue(0);
+    const pinchStartZoom = useSharedValue(MIN_ZOOM);
+    const pinchAnchor = useSharedValue(0);
+    const trimStart = useSharedValue(0);
+    const trimEnd = useSharedValue(1);
+    const trimDragOrigin = useSharedValue(0);
+    const isTrimming = useSharedValue(false);
+    // Cue edge being dragged on the caption lane, and the edge that stays put
+    const cueDragId = useSharedValue('');
+    const cueDragIsStart = useSharedValue(false);
+    const cueDragAnchor = useSharedValue(0);
+
+    const maxZoom = Math.max(MIN_ZOOM, duration / MIN_VISIBLE_DURATION);
+    const cueTimes = useMemo(
+        () => (captions ? cueBoundaries(captions).filter((time) => time < duration) : []),
+        [captions, duration]
+    );
+    const laneCues = onCueTimingChange ? captions ?? [] : [];
+    const overlappingCues = useMemo(() => overlappingCueIds(captions ?? []), [captions]);
+    const minTrimProgress = duration > 0 ? Math.min(1, MIN_TRIM_DURATION / duration) : 1;
+
+    // Visible time range once zoom/scroll have settled
+    const settledWidth = TIMELINE_WIDTH * settledViewport.zoom;
+    const visibleStart = (settledViewport.scrollX / settledWidth) * duration;
+    const visibleEnd = ((settledViewport.scrollX + TIMELINE_WIDTH) / settledWidth) * duration;
+    const isZoomed = settledViewport.zoom > MIN_ZOOM;
+
+    const getThumbnailProvider = useCallback(
+        (sourceUri: string) => thumbnailProviders?.[sourceUri] ?? frameProviderFor(sourceUri),
+        [thumbnailProviders]
+    );
+    const { preview, updateScrub, endScrub } = useScrubPreview(
+        project,
+        getThumbnailProvider,
+        liveScrub ? playback.seek : undefined
+    );
+
+    const activeClipId = useMemo(
+        () => (project ? clipAtTime(project, displayTime)?.clip.id : undefined),
+        [project, displayTime]
+    );
+
+    // Debounce thumbnail regeneration until the user stops zooming/scrolling
+    useEffect(() => {
+        const timeout = setTimeout(() => setSettledViewport(viewport), VIEWPORT_SETTLE_DELAY);
+        return () => clearTimeout(timeout);
+    }, [viewport]);
+
+    // Follow the trim selection from props unless a handle is being dragged
+    useEffect(() => {
+        if (duration <= 0 || isTrimming.value) return;
+        trimStart.value = trimRange ? trimRange.start / duration : 0;
+        trimEnd.value = trimRange ? trimRange.end / duration : 1;
+    }, [trimRange, duration, isTrimming, trimStart, trimEnd]);
 
     // Callbacks
     const seekTo = useCallback(
         (time: number) => {
-            player.currentTime = time;
+            playback.seek(time);
         },
-        [player]
+        [playback]
     );
 
     const updateDisplayTime = useCallback((time: number) => {
         setDisplayTime(time);
     }, []);
 
-    // Subscribe to time updates
-    useEffect(() => {
-        const subscription = player.addListener('timeUpdate', (payload) => {
-            if (!isDragging.value && duration > 0) {
-                progress.value = payload.currentTime / duration;
-                scheduleOnRN(updateDisplayTime, payload.currentTime);
-            }
-        });
-        return () => subscription.remove();
-    }, [player, duration, isDragging, progress, updateDisplayTime]);
+    const jumpTo = useCallback(
+        (time: number) => {
+            if (duration <= 0) return;
+            progress.value = time / duration;
+            seekTo(time);
+            setDisplayTime(time);
+        },
+        [duration, progress, seekTo]
+    );
+
+    const pickLoopPoint = useCallback(
+        (time: number) => {
+            onLoopPoint?.(time);
+        },
+        [onLoopPoint]
+    );
 
-    // Subscribe to status changes (for duration)
+    const selectCueAt = useCallback(
+        (time: number) => {
+            // Overlapping cues: the later one is drawn on top, so pick that
+            const cues = activeCues(captions ?? [], time);
+            onSelectCue?.(cues[cues.length - 1]?.id ?? null);
+        },
+        [captions, onSelectCue]
+    );
+
+    const reportCueTiming = useCallback(
+        (id: string, start: number, end: number, isFinal: boolean) => {
+            onCueTimingChange?.(id, start, end, isFinal);
+        },
+        [onCueTimingChange]
+    );
+
+    const commitViewport = useCallback((nextZoom: number, nextScrollX: number) => {
+        setViewport({ zoom: nextZoom, scrollX: nextScrollX });
+    }, []);
+
+    const reportTrim = useCallback(
+        (startProgress: number, endProgress: number, isFinal: boolean) => {
+            onTrimChange?.(
+                { start: startProgress * duration, end: endProgress * duration },
+                isFinal
+            );
+        },
+        [onTrimChange, duration]
+    );
+
+    // Subscribe to sequence time updates
     useEffect(() => {
-        const subscription = player.addListener('statusChange', () => {
-            if (player.duration > 0) {
-                setDuration(player.duration);
+        return playback.addTimeListener((time) => {
+            if (!isDragging.value && duration > 0) {
+                progress.value = time / duration;
+                scheduleOnRN(updateDisplayTime, time);
+
+                // Keep the playhead in view while zoomed in
+                const contentWidth = TIMELINE_WIDTH * zoom.value;
+                const playheadX = progress.value * contentWidth - scrollX.value;
+                if (zoom.value > MIN_ZOOM && (playheadX < 0 || playheadX > TIMELINE_WIDTH)) {
+                    scrollX.value = clamp(
+                        progress.value * contentWidth - TIMELINE_WIDTH * FOLLOW_ANCHOR,
+                        0,
+                        contentWidth - TIMELINE_WIDTH
+                    );
+                    commitViewport(zoom.value, scrollX.value);
+                }
             }
         });
-        if (player.duration > 0) {
-            setDuration(player.duration);
-        }
-        return () => subscription.remove();
-    }, [player]);
+    }, [playback, duration, isDragging, progress, zoom, scrollX, updateDisplayTime, commitViewport]);
 
     // Gestures
     const tapGesture = Gesture.Tap()
@@ -360,8 +1091,7 @@ export const CapCutTimeline = memo(function CapCutTimeline({
         })
         .onEnd((event) => {
             'worklet';
-            const x = Math.max(0, Math.min(event.x, TIMELINE_WIDTH));
-            const newProgress = x / TIMELINE_WIDTH;
+            const newProgress = progressAtX(event.x, scrollX.value, zoom.value);
             progress.value = newProgress;
             const newTime = newProgress * duration;
             scheduleOnRN(seekTo, newTime);
@@ -370,6 +1100,7 @@ export const CapCutTimeline = memo(function CapCutTimeline({
         });
 
     const panGesture = Gesture.Pan()
+        .maxPointers(1)
         .onStart(() => {
             'worklet';
             isDragging.value = true;
@@ -377,28 +1108,183 @@ export const CapCutTimeline = memo(function CapCutTimeline({
         })
         .onUpdate((event) => {
             'worklet';
-            const x = Math.max(0, Math.min(event.x, TIMELINE_WIDTH));
-            const newProgress = x / TIMELINE_WIDTH;
-            progress.value = newProgress;
-            const newTime = newProgress * duration;
+            const contentWidth = TIMELINE_WIDTH * zoom.value;
+            const maxScroll = contentWidth - TIMELINE_WIDTH;
+
+            // Scroll the track when the finger reaches either edge
+            if (event.x > TIMELINE_WIDTH - EDGE_SCROLL_ZONE) {
+                scrollX.value = clamp(scrollX.value + EDGE_SCROLL_STEP, 0, maxScroll);
+            } else if (event.x < EDGE_SCROLL_ZONE) {
+                scrollX.value = clamp(scrollX.value - EDGE_SCROLL_STEP, 0, maxScroll);
+            }
+
+            const newTime = snapToTimes(
+                progressAtX(event.x, scrollX.value, zoom.value) * duration,
+                cueTimes,
+                (CUE_SNAP_DISTANCE / contentWidth) * duration
+            );
+            progress.value = newTime / duration;
             scheduleOnRN(updateDisplayTime, newTime);
+            scheduleOnRN(updateScrub, newTime);
         })
         .onEnd((event) => {
             'worklet';
-            const x = Math.max(0, Math.min(event.x, TIMELINE_WIDTH));
-            const newProgress = x / TIMELINE_WIDTH;
-            const newTime = newProgress * duration;
+            const newTime = snapToTimes(
+                progressAtX(event.x, scrollX.value, zoom.value) * duration,
+                cueTimes,
+                (CUE_SNAP_DISTANCE / (TIMELINE_WIDTH * zoom.value)) * duration
+            );
+            scheduleOnRN(endScrub);
             scheduleOnRN(seekTo, newTime);
+            scheduleOnRN(commitViewport, zoom.value, scrollX.value);
             isDragging.value = false;
             playheadScale.value = withSpring(1, { damping: 12, stiffness: 180 });
         });
 
-    const composedGesture = Gesture.Race(tapGesture, panGesture);
+    // Zooms around the focal point; moving the fingers together scrolls the track
+    const pinchGesture = Gesture.Pinch()
+        .onStart((event) => {
+            'worklet';
+            pinchStartZoom.value = zoom.value;
+            pinchAnchor.value = (event.focalX + scrollX.value) / (TIMELINE_WIDTH * zoom.value);
+        })
+        .onUpdate((event) => {
+            'worklet';
+            const nextZoom = clamp(pinchStartZoom.value * event.scale, MIN_ZOOM, maxZoom);
+            const contentWidth = TIMELINE_WIDTH * nextZoom;
+            zoom.value = nextZoom;
+            scrollX.value = clamp(
+                pinchAnchor.value * contentWidth - event.focalX,
+                0,
+                contentWidth - TIMELINE_WIDTH
+            );
+        })
+        .onEnd(() => {
+            'worklet';
+            scheduleOnRN(commitViewport, zoom.value, scrollX.value);
+        });
+
+    const loopPointGesture = Gesture.LongPress()
+        .minDuration(LOOP_POINT_PRESS_DURATION)
+        .onStart((event) => {
+            'worklet';
+            scheduleOnRN(pickLoopPoint, progressAtX(event.x, scrollX.value, zoom.value) * duration);
+        });
+
+    const composedGesture = Gesture.Race(tapGesture, panGesture, pinchGesture, loopPointGesture);
+    const timelineGestures = [tapGesture, panGesture, pinchGesture, loopPointGesture];
+
+    // Trim handles take priority over scrubbing when grabbed
+    const leftTrimGesture = Gesture.Pan()
+        .hitSlop({ horizontal: TRIM_HANDLE_HIT_SLOP })
+        .blocksExternalGesture(tapGesture, panGesture, pinchGesture)
+        .onStart(() => {
+            'worklet';
+            isTrimming.value = true;
+            trimDragOrigin.value = trimStart.value;
+        })
+        .onUpdate((event) => {
+            'worklet';
+            const delta = event.translationX / (TIMELINE_WIDTH * zoom.value);
+            const maxStart = trimEnd.value - minTrimProgress;
+            trimStart.value = clamp(trimDragOrigin.value + delta, 0, maxStart);
+            scheduleOnRN(reportTrim, trimStart.value, trimEnd.value, false);
+        })
+        .onEnd(() => {
+            'worklet';
+            isTrimming.value = false;
+            scheduleOnRN(reportTrim, trimStart.value, trimEnd.value, true);
+        });
+
+    const rightTrimGesture = Gesture.Pan()
+        .hitSlop({ horizontal: TRIM_HANDLE_HIT_SLOP })
+        .blocksExternalGesture(tapGesture, panGesture, pinchGesture)
+        .onStart(() => {
+            'worklet';
+            isTrimming.value = true;
+            trimDragOrigin.value = trimEnd.value;
+        })
+        .onUpdate((event) => {
+            'worklet';
+            const delta = event.translationX / (TIMELINE_WIDTH * zoom.value);
+            const minEnd = trimStart.value + minTrimProgress;
+            trimEnd.value = clamp(trimDragOrigin.value + delta, minEnd, 1);
+            scheduleOnRN(reportTrim, trimStart.value, trimEnd.value, false);
+        })
+        .onEnd(() => {
+            'worklet';
+            isTrimming.value = false;
+            scheduleOnRN(reportTrim, trimStart.value, trimEnd.value, true);
+        });
+
+    // Caption lane: tap picks a cue, a drag from near a cue edge moves that edge. It maps
+    // x to time exactly like scrubbing so cues line up with the strip above.
+    const cueEdges = laneCues.map(({ id, start, end }) => ({ id, start, end }));
+
+    const moveCueEdge = (x: number, isFinal: boolean) => {
+        'worklet';
+        if (!cueDragId.value) return;
+        const time = progressAtX(x, scrollX.value, zoom.value) * duration;
+        const anchor = cueDragAnchor.value;
+        if (cueDragIsStart.value) {
+            const start = clamp(time, 0, anchor - MIN_CUE_DURATION);
+            scheduleOnRN(reportCueTiming, cueDragId.value, start, anchor, isFinal);
+        } else {
+            const end = clamp(time, anchor + MIN_CUE_DURATION, duration);
+            scheduleOnRN(reportCueTiming, cueDragId.value, anchor, end, isFinal);
+        }
+    };
+
+    const cueEdgeGesture = Gesture.Pan()
+        .onBegin((event) => {
+            'worklet';
+            const time = progressAtX(event.x, scrollX.value, zoom.value) * duration;
+            let nearest = (CUE_EDGE_HIT_SLOP / (TIMELINE_WIDTH * zoom.value)) * duration;
+            cueDragId.value = '';
+            for (const cue of cueEdges) {
+                for (const isStart of [true, false]) {
+                    const distance = Math.abs((isStart ? cue.start : cue.end) - time);
+                    if (distance <= nearest) {
+                        nearest = distance;
+                        cueDragId.value = cue.id;
+                        cueDragIsStart.value = isStart;
+                        cueDragAnchor.value = isStart ? cue.end : cue.start;
+                    }
+                }
+            }
+        })
+        .onUpdate((event) => {
+            'worklet';
+            moveCueEdge(event.x, false);
+        })
+        .onEnd((event) => {
+            'worklet';
+            moveCueEdge(event.x, true);
+        })
+        .onFinalize(() => {
+            'worklet';
+            cueDragId.value = '';
+        });
+
+    const cueTapGesture = Gesture.Tap().onEnd((event) => {
+        'worklet';
+        scheduleOnRN(selectCueAt, progressAtX(event.x, scrollX.value, zoom.value) * duration);
+    });
+
+    const captionLaneGesture = Gesture.Race(cueEdgeGesture, cueTapGesture);
 
     // Animated styles
+    const trackStyle = useAnimatedStyle(() => ({
+        width: TIMELINE_WIDTH * zoom.value,
+        transform: [{ translateX: -scrollX.value }],
+    }));
+
     const playheadStyle = useAnimatedStyle(() => ({
         transform: [
-            { translateX: progress.value * (TIMELINE_WIDTH - PLAYHEAD_WIDTH) },
+            {
+                translateX:
+                    progress.value * (TIMELINE_WIDTH * zoom.value - PLAYHEAD_WIDTH) - scrollX.value,
+            },
             { scaleY: playheadScale.value },
         ],
     }));
@@ -408,35 +1294,203 @@ export const CapCutTimeline = memo(function CapCutTimeline({
         return {
             opacity,
             transform: [
-                { translateX: progress.value * (TIMELINE_WIDTH - PLAYHEAD_WIDTH) - 30 },
+                {
+                    translateX:
+                        progress.value * (TIMELINE_WIDTH * zoom.value - PLAYHEAD_WIDTH) -
+                        scrollX.value -
+                        43,
+                },
                 { translateY: interpolate(playheadScale.value, [1, 1.25], [8, 0]) },
             ],
         };
     });
 
+    const scrubPreviewStyle = useAnimatedStyle(() => {
+        const playheadX =
+            progress.value * (TIMELINE_WIDTH * zoom.value - PLAYHEAD_WIDTH) -
+            scrollX.value +
+            PLAYHEAD_WIDTH / 2;
+        return {
+            opacity: withTiming(isDragging.value ? 1 : 0, { duration: 120 }),
+            transform: [
+                {
+                    translateX: clamp(
+                        playheadX - SCRUB_PREVIEW_WIDTH / 2,
+                        0,
+                        TIMELINE_WIDTH - SCRUB_PREVIEW_WIDTH
+                    ),
+                },
+            ],
+        };
+    });
+
     const progressOverlayStyle = useAnimatedStyle(() => ({
-        width: progress.value * TIMELINE_WIDTH,
+        width: progress.value * TIMELINE_WIDTH * zoom.value,
+    }));
+
+    const leftDimStyle = useAnimatedStyle(() => ({
+        width: trimStart.value * TIMELINE_WIDTH * zoom.value,
+    }));
+
+    const rightDimStyle = useAnimatedStyle(() => ({
+        left: trimEnd.value * TIMELINE_WIDTH * zoom.value,
+        right: 0,
+    }));
+
+    const trimFrameStyle = useAnimatedStyle(() => ({
+        left: trimStart.value * TIMELINE_WIDTH * zoom.value,
+        width: (trimEnd.value - trimStart.value) * TIMELINE_WIDTH * zoom.value,
+    }));
+
+    const leftHandleStyle = useAnimatedStyle(() => ({
+        left: trimStart.value * TIMELINE_WIDTH * zoom.value,
     }));
 
-    // Memoized time markers
+    const rightHandleStyle = useAnimatedStyle(() => ({
+        left: trimEnd.value * TIMELINE_WIDTH * zoom.value - TRIM_HANDLE_WIDTH,
+    }));
+
+    const cycleTimecodeMode = useCallback(() => {
+        setTimecodeMode((mode) => {
+            const index = TIMECODE_MODES.indexOf(mode);
+            return TIMECODE_MODES[(index + 1) % TIMECODE_MODES.length];
+        });
+    }, []);
+
+    const submitTimecode = useCallback(() => {
+        const time = parseTimecode(timecodeInput ?? '', timecodeMode, frameRate);
+        if (time !== null) jumpTo(Math.min(time, duration));
+        setTimecodeInput(null);
+    }, [timecodeInput, timecodeMode, frameRate, duration, jumpTo]);
+
+    const formattedTime = formatTimecode(displayTime, timecodeMode, frameRate);
+
+    // A/B loop band, or the line at A while waiting for B
+    const loopStart = loopPoints?.loop?.start ?? loopPoints?.pending ?? null;
+    const loopEnd = loopPoints?.loop?.end ?? loopStart;
+    const loopBandStyle = useAnimatedStyle(() => {
+        if (loopStart === null || loopEnd === null || duration <= 0) return { width: 0 };
+        const contentWidth = TIMELINE_WIDTH * zoom.value;
+        return {
+            left: (loopStart / duration) * contentWidth,
+            width: Math.max(2, ((loopEnd - loopStart) / duration) * contentWidth),
+        };
+    });
+
+    // Memoized time markers for the visible range
     const timeMarkers = useMemo(() => {
-        return Array.from({ length: 5 }, (_, i) => formatTime((duration / 4) * i));
-    }, [duration]);
+        const span = visibleEnd - visibleStart;
+        return Array.from({ length: 5 }, (_, i) => formatTime(visibleStart + (span / 4) * i));
+    }, [visibleStart, visibleEnd]);
 
     return (
         <View style={styles.container}>
             {/* Time display */}
             <View style={styles.timeRow}>
-                <Text style={styles.currentTime}>{formatTimeMs(displayTime)}</Text>
-                <Text style={styles.duration}>{formatTime(duration)}</Text>
+                {timecodeInput !== null ? (
+                    <TextInput
+                        style={[styles.currentTime, styles.timecodeInput]}
+                        value={timecodeInput}
+                        onChangeText={setTimecodeInput}
+                        onSubmitEditing={submitTimecode}
+                        onBlur={() => setTimecodeInput(null)}
+                        keyboardType="numbers-and-punctuation"
+                        returnKeyType="go"
+                        selectTextOnFocus
+                        autoFocus
+                    />
+                ) : (
+                    // Tap cycles the display mode, long press types a timecode to seek to
+                    <TouchableOpacity
+                        onPress={cycleTimecodeMode}
+                        onLongPress={() => setTimecodeInput(formattedTime)}>
+                        <Text style={styles.currentTime}>{formattedTime}</Text>
+                    </TouchableOpacity>
+                )}
+                {playbackRate !== 1 && (
+                    <View style={styles.rateBadge}>
+                        <Text style={styles.rateText}>{formatRate(playbackRate)}</Text>
+                    </View>
+                )}
+                <Text style={styles.timecodeMode}>{TIMECODE_LABELS[timecodeMode]}</Text>
+                <Text style={styles.duration}>
+                    {formatTimecode(duration, timecodeMode, frameRate)}
+                </Text>
+            </View>
+
+            {/* Scrub preview */}
+            <View style={styles.scrubPreviewAnchor} pointerEvents="none">
+                <Animated.View style={[styles.scrubPreview, scrubPreviewStyle]}>
+                    {preview && <ThumbnailView image={preview} />}
+                </Animated.View>
             </View>
 
             {/* Timeline */}
             <GestureDetector gesture={composedGesture}>
                 <View style={styles.timelineContainer}>
-                    <ThumbnailStrip thumbnails={thumbnails} isLoading={isLoadingThumbnails} />
-
-                    <Animated.View style={[styles.progressOverlay, progressOverlayStyle]} />
+                    <Animated.View style={[styles.track, trackStyle]}>
+                        {project?.clips.map((clip) => (
+                            <ClipSegment
+                                key={clip.id}
+                                clip={clip}
+                                duration={duration}
+                                zoom={zoom}
+                                visibleStart={visibleStart}
+                                visibleEnd={visibleEnd}
+                                isZoomed={isZoomed}
+                                isActive={project.clips.length > 1 && clip.id === activeClipId}
+                                getPlayheadTime={playback.getCurrentTime}
+                                thumbnailProvider={getThumbnailProvider(clip.sourceUri)}
+                            />
+                        ))}
+
+                        <Animated.View style={[styles.progressOverlay, progressOverlayStyle]} />
+
+                        {duration > 0 && cueTimes.length > 0 && (
+                            <CueTicks times={cueTimes} duration={duration} />
+                        )}
+
+                        {loopStart !== null && (
+                            <Animated.View
+                                style={[styles.loopBand, loopBandStyle]}
+                                pointerEvents="none"
+                            />
+                        )}
+
+                        {/* Trim selection */}
+                        <Animated.View style={[styles.trimDim, leftDimStyle]} />
+                        <Animated.View style={[styles.trimDim, rightDimStyle]} />
+                        <Animated.View
+                            style={[styles.trimFrame, trimFrameStyle]}
+                            pointerEvents="none"
+                        />
+
+                        <GestureDetector gesture={leftTrimGesture}>
+                            <Animated.View
+                                style={[styles.trimHandle, styles.trimHandleLeft, leftHandleStyle]}>
+                                <View style={styles.trimHandleGrip} />
+                            </Animated.View>
+                        </GestureDetector>
+
+                        <GestureDetector gesture={rightTrimGesture}>
+                            <Animated.View
+                                style={[styles.trimHandle, styles.trimHandleRight, rightHandleStyle]}>
+                                <View style={styles.trimHandleGrip} />
+                            </Animated.View>
+                        </GestureDetector>
+
+                        {duration > 0 &&
+                            markers?.map((marker) => (
+                                <MarkerFlag
+                                    key={marker.id}
+                                    marker={marker}
+                                    duration={duration}
+                                    zoom={zoom}
+                                    blocks={timelineGestures}
+                                    onSelect={jumpTo}
+                                />
+                            ))}
+                    </Animated.View>
 
                     <Animated.View style={[styles.playhead, playheadStyle]}>
                         <View style={styles.playheadLine} />
@@ -445,11 +1499,30 @@ export const CapCutTimeline = memo(function CapCutTimeline({
                     </Animated.View>
 
                     <Animated.View style={[styles.floatingTimeIndicator, timeIndicatorStyle]}>
-                        <Text style={styles.floatingTimeText}>{formatTimeMs(displayTime)}</Text>
+                        <Text style={styles.floatingTimeText}>{formattedTime}</Text>
                     </Animated.View>
                 </View>
             </GestureDetector>
 
+            {/* Caption lane */}
+            {duration > 0 && laneCues.length > 0 && (
+                <GestureDetector gesture={captionLaneGesture}>
+                    <View style={styles.captionLane}>
+                        <Animated.View style={[styles.track, trackStyle]}>
+                            {laneCues.map((cue) => (
+                                <CaptionBlock
+                                    key={cue.id}
+                                    cue={cue}
+                                    duration={duration}
+                                    isSelected={cue.id === selectedCueId}
+                                    isOverlapping={overlappingCues.has(cue.id)}
+                                />
+                            ))}
+                        </Animated.View>
+                    </View>
+                </GestureDetector>
+            )}
+
             {/* Time markers */}
             <View style={styles.markersRow}>
                 {timeMarkers.map((time, i) => (
@@ -483,24 +1556,89 @@ const styles = StyleSheet.create({
         fontWeight: '600',
         fontVariant: ['tabular-nums'],
     },
+    timecodeInput: {
+        minWidth: 110,
+        paddingVertical: 0,
+        borderBottomWidth: 1,
+        borderColor: '#3b82f6',
+    },
+    rateBadge: {
+        marginLeft: 8,
+        paddingHorizontal: 6,
+        paddingVertical: 2,
+        borderRadius: 4,
+        backgroundColor: '#3b82f6',
+    },
+    rateText: {
+        color: '#fff',
+        fontSize: 11,
+        fontWeight: '700',
+        fontVariant: ['tabular-nums'],
+    },
+    timecodeMode: {
+        flex: 1,
+        marginLeft: 8,
+        color: '#555',
+        fontSize: 10,
+        fontWeight: '600',
+    },
     duration: {
         color: '#666',
         fontSize: 14,
         fontVariant: ['tabular-nums'],
     },
     timelineContainer: {
-        height: TIMELINE_HEIGHT,
+        height: TIMELINE_HEIGHT + WAVEFORM_HEIGHT,
         backgroundColor: '#1a1a1a',
         borderRadius: 8,
         overflow: 'hidden',
         position: 'relative',
     },
+    track: {
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        bottom: 0,
+    },
     thumbnailStrip: {
         flexDirection: 'row',
         height: THUMBNAIL_HEIGHT,
         marginTop: (TIMELINE_HEIGHT - THUMBNAIL_HEIGHT) / 2,
     },
+    clipSegment: {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        overflow: 'hidden',
+        borderLeftWidth: 1,
+        borderRightWidth: 1,
+        borderColor: '#000',
+    },
+    clipSegmentActive: {
+        borderColor: '#fff',
+    },
+    detailStrip: {
+        position: 'absolute',
+        top: 0,
+    },
+    waveformLane: {
+        position: 'absolute',
+        top: TIMELINE_HEIGHT,
+        height: WAVEFORM_HEIGHT,
+    },
+    waveformBars: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    waveformBar: {
+        flex: 1,
+        marginHorizontal: 0.5,
+        borderRadius: 1,
+        backgroundColor: 'rgba(52, 211, 153, 0.7)',
+    },
     thumbnailFrame: {
+        flex: 1,
         height: THUMBNAIL_HEIGHT,
         overflow: 'hidden',
     },
@@ -511,6 +1649,17 @@ const styles = StyleSheet.create({
     thumbnailGradient: {
         flex: 1,
     },
+    spriteFrame: {
+        width: '100%',
+        height: '100%',
+        overflow: 'hidden',
+    },
+    spriteSheet: {
+        position: 'absolute',
+    },
+    spriteHidden: {
+        opacity: 0,
+    },
     loadingOverlay: {
         ...StyleSheet.absoluteFillObject,
         backgroundColor: 'rgba(0,0,0,0.2)',
@@ -524,6 +1673,115 @@ const styles = StyleSheet.create({
         bottom: 0,
         backgroundColor: 'rgba(59, 130, 246, 0.2)',
     },
+    loopBand: {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(192, 132, 252, 0.25)',
+        borderLeftWidth: 2,
+        borderRightWidth: 2,
+        borderColor: '#c084fc',
+    },
+    trimDim: {
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0,0,0,0.6)',
+    },
+    trimFrame: {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        borderTopWidth: 2,
+        borderBottomWidth: 2,
+        borderColor: '#facc15',
+    },
+    trimHandle: {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        width: TRIM_HANDLE_WIDTH,
+        backgroundColor: '#facc15',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    trimHandleLeft: {
+        borderTopLeftRadius: 6,
+        borderBottomLeftRadius: 6,
+    },
+    trimHandleRight: {
+        borderTopRightRadius: 6,
+        borderBottomRightRadius: 6,
+    },
+    trimHandleGrip: {
+        width: 2,
+        height: 16,
+        borderRadius: 1,
+        backgroundColor: 'rgba(0,0,0,0.6)',
+    },
+    markerFlag: {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        width: MARKER_FLAG_SIZE,
+        marginLeft: -1,
+    },
+    markerFlagHead: {
+        width: MARKER_FLAG_SIZE,
+        height: MARKER_FLAG_SIZE,
+        borderTopRightRadius: 2,
+        borderBottomRightRadius: 2,
+    },
+    markerFlagLine: {
+        flex: 1,
+        width: 2,
+        opacity: 0.8,
+    },
+    cueTicks: {
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        bottom: 0,
+        height: CUE_TICK_HEIGHT,
+    },
+    cueTick: {
+        position: 'absolute',
+        bottom: 0,
+        width: 1,
+        height: CUE_TICK_HEIGHT,
+        backgroundColor: 'rgba(255,255,255,0.7)',
+    },
+    captionLane: {
+        height: CAPTION_LANE_HEIGHT,
+        marginTop: 4,
+        backgroundColor: '#141414',
+        borderRadius: 6,
+        overflow: 'hidden',
+    },
+    captionBlock: {
+        position: 'absolute',
+        top: 2,
+        bottom: 2,
+        justifyContent: 'center',
+        paddingHorizontal: 4,
+        borderRadius: 4,
+        borderWidth: 1,
+        borderColor: '#0ea5e9',
+        backgroundColor: 'rgba(14,165,233,0.3)',
+    },
+    captionBlockOverlap: {
+        borderColor: '#ef4444',
+        backgroundColor: 'rgba(239,68,68,0.35)',
+    },
+    captionBlockSelected: {
+        borderWidth: 2,
+        borderColor: '#facc15',
+    },
+    captionBlockText: {
+        color: '#fff',
+        fontSize: 10,
+    },
     playhead: {
         position: 'absolute',
         left: 0,
@@ -559,10 +1817,30 @@ const styles = StyleSheet.create({
         backgroundColor: '#fff',
         transform: [{ rotate: '45deg' }],
     },
+    scrubPreviewAnchor: {
+        height: 0,
+        zIndex: 10,
+    },
+    scrubPreview: {
+        position: 'absolute',
+        bottom: 44,
+        width: SCRUB_PREVIEW_WIDTH,
+        height: SCRUB_PREVIEW_HEIGHT,
+        borderRadius: 6,
+        borderWidth: 2,
+        borderColor: '#fff',
+        backgroundColor: '#111',
+        overflow: 'hidden',
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.4,
+        shadowRadius: 6,
+        elevation: 6,
+    },
     floatingTimeIndicator: {
         position: 'absolute',
         top: -35,
-        width: 70,
+        width: 90,
         height: 28,
         backgroundColor: '#3b82f6',
         borderRadius: 6,
@@ -0,0 +1,97 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { LoopPoints } from '../lib/ab-loop';
+import { formatPreciseTime } from '../lib/timecode';
+
+interface AbLoopBarProps {
+    points: LoopPoints;
+    repeats: number;
+    /** Pause before each repeat, in seconds. */
+    countIn: number;
+    onCycleCountIn: () => void;
+    onClear: () => void;
+}
+
+/** Status of the A/B loop: the picked range, repeat count and count-in. */
+export const AbLoopBar = memo(function AbLoopBar({
+    points,
+    repeats,
+    countIn,
+    onCycleCountIn,
+    onClear,
+}: AbLoopBarProps) {
+    const { pending, loop } = points;
+    if (pending === null && !loop) return null;
+
+    return (
+        <View style={styles.container}>
+            <Ionicons name="repeat" size={16} color="#c084fc" />
+
+            {loop ? (
+                <>
+                    <Text style={styles.range}>
+                        {formatPreciseTime(loop.start)} – {formatPreciseTime(loop.end)}
+                    </Text>
+                    <Text style={styles.repeats}>×{repeats}</Text>
+                    <TouchableOpacity style={styles.chip} onPress={onCycleCountIn}>
+                        <Text style={styles.chipText}>
+                            {countIn > 0 ? `Count-in ${countIn}s` : 'No count-in'}
+                        </Text>
+                    </TouchableOpacity>
+                </>
+            ) : (
+                <Text style={styles.hint}>
+                    A at {formatPreciseTime(pending ?? 0)} · long-press the strip to set B
+                </Text>
+            )}
+
+            <TouchableOpacity onPress={onClear} hitSlop={8}>
+                <Ionicons name="close" size={16} color="#888" />
+            </TouchableOpacity>
+        </View>
+    );
+});
+
+const styles = StyleSheet.create({
+    container: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        marginTop: 12,
+        marginHorizontal: 20,
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        borderRadius: 8,
+        backgroundColor: 'rgba(192, 132, 252, 0.12)',
+    },
+    range: {
+        color: '#fff',
+        fontSize: 13,
+        fontWeight: '600',
+        fontVariant: ['tabular-nums'],
+    },
+    repeats: {
+        flex: 1,
+        color: '#c084fc',
+        fontSize: 13,
+        fontWeight: '600',
+        fontVariant: ['tabular-nums'],
+    },
+    chip: {
+        paddingVertical: 3,
+        paddingHorizontal: 8,
+        borderRadius: 10,
+        backgroundColor: 'rgba(255,255,255,0.1)',
+    },
+    chipText: {
+        color: '#ccc',
+        fontSize: 11,
+    },
+    hint: {
+        flex: 1,
+        color: '#ccc',
+        fontSize: 12,
+    },
+});
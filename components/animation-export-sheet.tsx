@@ -0,0 +1,306 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import {
+    ANIMATION_FORMATS,
+    ANIMATION_FPS,
+    ANIMATION_WIDTHS,
+    AnimationFormat,
+    animationFrameCount,
+    AnimationResult,
+    AnimationSettings,
+    animationSize,
+    DEFAULT_ANIMATION_SETTINGS,
+    estimateAnimationBytes,
+    exportAnimation,
+    MAX_ANIMATION_FRAMES,
+} from '../lib/animation-export';
+import { exportRanges, rangesDuration } from '../lib/clip-export';
+import { formatBytes } from '../lib/download-manager';
+import type { FrameSize } from '../lib/frame-grab';
+import { saveToLibrary, shareFile } from '../lib/media-output';
+import { TaskAbortedError } from '../lib/task-scheduler';
+import { Project, TrimRange } from '../lib/timeline-project';
+import { formatPreciseTime } from '../lib/timecode';
+import { BottomSheet } from './bottom-sheet';
+import { OptionRow } from './option-row';
+
+const FORMAT_LABELS: Record<AnimationFormat, string> = { gif: 'GIF', webp: 'WebP' };
+
+type AnimationState =
+    | { phase: 'idle' }
+    | { phase: 'exporting'; progress: number }
+    | { phase: 'done'; result: AnimationResult }
+    | { phase: 'failed'; error: string };
+
+const IDLE: AnimationState = { phase: 'idle' };
+
+interface AnimationExportSheetProps {
+    visible: boolean;
+    project: Project | null;
+    /** Sequence range to export: the trim, or the whole edit. */
+    range: TrimRange | null;
+    title: string;
+    /** The video's own size, for the aspect ratio. */
+    sourceSize: FrameSize | null;
+    onClose: () => void;
+}
+
+/**
+ * Turns the trimmed range into an animated GIF or WebP: pick format, fps
+ * and width against a size estimate, preview the result, then save or share.
+ */
+export const AnimationExportSheet = memo(function AnimationExportSheet({
+    visible,
+    project,
+    range,
+    title,
+    sourceSize,
+    onClose,
+}: AnimationExportSheetProps) {
+    const [settings, setSettings] = useState<AnimationSettings>(DEFAULT_ANIMATION_SETTINGS);
+    const [state, setState] = useState<AnimationState>(IDLE);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const duration = project && range ? rangesDuration(exportRanges(project, range)) : 0;
+    const frameCount = animationFrameCount(duration, settings.fps);
+    const size = animationSize(settings.width, sourceSize);
+    const estimate = estimateAnimationBytes(settings.format, size, frameCount);
+    const isOverLimit = frameCount > MAX_ANIMATION_FRAMES;
+    const canExport = frameCount > 0 && !isOverLimit;
+
+    // Leaving the editor cancels a running export
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    // A finished preview no longer matches once the settings change
+    const updateSettings = useCallback((changes: Partial<AnimationSettings>) => {
+        controllerRef.current?.abort();
+        setSettings((current) => ({ ...current, ...changes }));
+        setState(IDLE);
+    }, []);
+
+    const start = useCallback(async () => {
+        if (!project || !range) return;
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setState({ phase: 'exporting', progress: 0 });
+        try {
+            const result = await exportAnimation(project, range, settings, {
+                title,
+                sourceSize,
+                signal: controller.signal,
+                onProgress: (progress) => setState({ phase: 'exporting', progress }),
+            });
+            setState({ phase: 'done', result });
+        } catch (error) {
+            if (error instanceof TaskAbortedError) {
+                setState(IDLE);
+            } else {
+                const message = error instanceof Error ? error.message : String(error);
+                setState({ phase: 'failed', error: message });
+            }
+        } finally {
+            if (controllerRef.current === controller) controllerRef.current = null;
+        }
+    }, [project, range, settings, title, sourceSize]);
+
+    const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+    const close = useCallback(() => {
+        controllerRef.current?.abort();
+        setState(IDLE);
+        onClose();
+    }, [onClose]);
+
+    const save = useCallback(async (result: AnimationResult) => {
+        try {
+            if (await saveToLibrary(result.uri)) {
+                Alert.alert('Saved', result.fileName);
+            } else {
+                Alert.alert('Save to library', 'Allow access to your library to save animations.');
+            }
+        } catch (error) {
+            Alert.alert('Could not save the animation', String(error));
+        }
+    }, []);
+
+    const share = useCallback(async (result: AnimationResult) => {
+        try {
+            await shareFile(result.uri, result.mimeType);
+        } catch (error) {
+            Alert.alert('Could not share the animation', String(error));
+        }
+    }, []);
+
+    return (
+        <BottomSheet visible={visible} title="GIF / WebP" onClose={close}>
+            <Text style={styles.info}>
+                {range
+                    ? `${formatPreciseTime(range.start)} → ${formatPreciseTime(range.end)}` +
+                      ` · ${frameCount} frames · ${size.width}×${size.height}` +
+                      ` · ~${formatBytes(estimate)}`
+                    : 'Nothing to export yet'}
+            </Text>
+            {isOverLimit && (
+                <Text style={styles.error}>
+                    Over the {MAX_ANIMATION_FRAMES}-frame limit: shorten the range or lower the
+                    frame rate.
+                </Text>
+            )}
+
+            <OptionRow
+                label="Format"
+                options={ANIMATION_FORMATS.map((_, i) => i)}
+                value={ANIMATION_FORMATS.indexOf(settings.format)}
+                format={(i) => FORMAT_LABELS[ANIMATION_FORMATS[i]]}
+                onSelect={(i) => updateSettings({ format: ANIMATION_FORMATS[i] })}
+            />
+            <OptionRow
+                label="Frame rate"
+                options={ANIMATION_FPS}
+                value={settings.fps}
+                format={(fps) => `${fps} fps`}
+                onSelect={(fps) => updateSettings({ fps })}
+            />
+            <OptionRow
+                label="Width"
+                options={ANIMATION_WIDTHS}
+                value={settings.width}
+                format={(width) => `${width}px`}
+                onSelect={(width) => updateSettings({ width })}
+            />
+
+            {state.phase === 'exporting' ? (
+                <View style={styles.progressRow}>
+                    <View style={styles.progressTrack}>
+                        <View
+                            style={[styles.progressFill, { width: `${state.progress * 100}%` }]}
+                        />
+                    </View>
+                    <Text style={styles.percent}>{Math.round(state.progress * 100)}%</Text>
+                    <TouchableOpacity style={styles.button} onPress={cancel}>
+                        <Text style={styles.buttonText}>Cancel</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : state.phase === 'done' ? (
+                <View>
+                    <Image
+                        source={{ uri: state.result.uri }}
+                        style={[
+                            styles.preview,
+                            { aspectRatio: state.result.width / state.result.height },
+                        ]}
+                        contentFit="contain"
+                    />
+                    <View style={styles.actions}>
+                        <Text style={styles.resultText}>
+                            {formatBytes(state.result.bytes)} · {state.result.frameCount} frames
+                        </Text>
+                        <TouchableOpacity style={styles.button} onPress={() => save(state.result)}>
+                            <Ionicons name="download-outline" size={16} color="white" />
+                            <Text style={styles.buttonText}>Save</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={styles.button} onPress={() => share(state.result)}>
+                            <Ionicons name="share-outline" size={16} color="white" />
+                            <Text style={styles.buttonText}>Share</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            ) : (
+                <View style={styles.actions}>
+                    {state.phase === 'failed' && <Text style={styles.error}>{state.error}</Text>}
+                    <TouchableOpacity
+                        style={[styles.button, styles.primary, !canExport && styles.disabled]}
+                        onPress={start}
+                        disabled={!canExport}>
+                        <Ionicons name="images-outline" size={16} color="white" />
+                        <Text style={styles.buttonText}>
+                            {state.phase === 'failed' ? 'Try again' : 'Create preview'}
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+        </BottomSheet>
+    );
+});
+
+const styles = StyleSheet.create({
+    info: {
+        color: '#ccc',
+        fontSize: 13,
+        fontVariant: ['tabular-nums'],
+        marginBottom: 14,
+    },
+    progressRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        marginBottom: 8,
+    },
+    progressTrack: {
+        flex: 1,
+        height: 4,
+        borderRadius: 2,
+        backgroundColor: 'rgba(255,255,255,0.15)',
+        overflow: 'hidden',
+    },
+    progressFill: {
+        height: '100%',
+        backgroundColor: '#3b82f6',
+    },
+    percent: {
+        width: 40,
+        color: '#fff',
+        fontSize: 12,
+        fontVariant: ['tabular-nums'],
+        textAlign: 'right',
+    },
+    preview: {
+        width: '100%',
+        maxHeight: 200,
+        borderRadius: 8,
+        backgroundColor: '#000',
+        marginBottom: 10,
+    },
+    actions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+    },
+    resultText: {
+        flex: 1,
+        color: '#ccc',
+        fontSize: 12,
+        fontVariant: ['tabular-nums'],
+    },
+    button: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 14,
+        backgroundColor: 'rgba(255,255,255,0.1)',
+    },
+    primary: {
+        backgroundColor: '#3b82f6',
+    },
+    disabled: {
+        opacity: 0.3,
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 12,
+        fontWeight: '600',
+    },
+    error: {
+        width: '100%',
+        color: '#f87171',
+        fontSize: 12,
+        marginBottom: 8,
+    },
+});
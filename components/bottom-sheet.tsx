@@ -0,0 +1,62 @@
+import React, { memo, ReactNode } from 'react';
+import { Modal, Pressable, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface BottomSheetProps {
+    visible: boolean;
+    title: string;
+    onClose: () => void;
+    children: ReactNode;
+}
+
+/** Modal sheet sliding up from the bottom; tapping outside closes it. */
+export const BottomSheet = memo(function BottomSheet({
+    visible,
+    title,
+    onClose,
+    children,
+}: BottomSheetProps) {
+    return (
+        <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+            <Pressable style={styles.backdrop} onPress={onClose} />
+            <View style={styles.sheet}>
+                <Text style={styles.title}>{title}</Text>
+
+                {children}
+
+                <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+                    <Text style={styles.doneText}>Done</Text>
+                </TouchableOpacity>
+            </View>
+        </Modal>
+    );
+});
+
+const styles = StyleSheet.create({
+    backdrop: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.5)',
+    },
+    sheet: {
+        padding: 20,
+        paddingBottom: 36,
+        borderTopLeftRadius: 16,
+        borderTopRightRadius: 16,
+        backgroundColor: '#1a1a1a',
+    },
+    title: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '600',
+        marginBottom: 12,
+    },
+    doneButton: {
+        alignSelf: 'flex-end',
+        paddingVertical: 8,
+        paddingHorizontal: 16,
+    },
+    doneText: {
+        color: '#3b82f6',
+        fontSize: 15,
+        fontWeight: '600',
+    },
+});
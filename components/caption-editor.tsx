@@ -0,0 +1,182 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback } from 'react';
+import { Alert, Share, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { CaptionFormat, Cue, formatCaptions } from '../lib/captions';
+import { formatPreciseTime } from '../lib/timecode';
+
+interface CaptionEditorProps {
+    cues: Cue[];
+    /** Cue picked on the caption lane, or null. */
+    selectedCue: Cue | null;
+    isOverlapping: boolean;
+    canMerge: boolean;
+    onAdd: () => void;
+    onSplit: () => void;
+    onMerge: () => void;
+    onDelete: () => void;
+    onChangeText: (id: string, text: string) => void;
+    onSeek: (time: number) => void;
+}
+
+/**
+ * Caption actions and the text of the cue picked on the timeline's caption
+ * lane, with SRT / WebVTT export (share sheet).
+ */
+export const CaptionEditor = memo(function CaptionEditor({
+    cues,
+    selectedCue,
+    isOverlapping,
+    canMerge,
+    onAdd,
+    onSplit,
+    onMerge,
+    onDelete,
+    onChangeText,
+    onSeek,
+}: CaptionEditorProps) {
+    const exportCaptions = useCallback(() => {
+        const share = (format: CaptionFormat) => {
+            Share.share({ message: formatCaptions(format, cues) }).catch(() => {
+                // Dismissed or unavailable - nothing to do
+            });
+        };
+        Alert.alert('Export captions', undefined, [
+            { text: 'SRT', onPress: () => share('srt') },
+            { text: 'WebVTT', onPress: () => share('webvtt') },
+            { text: 'Cancel', style: 'cancel' },
+        ]);
+    }, [cues]);
+
+    const cueDisabled = !selectedCue && styles.disabled;
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.header}>
+                <Text style={styles.heading}>Captions</Text>
+                <TouchableOpacity style={styles.headerButton} onPress={onAdd}>
+                    <Ionicons name="add" size={16} color="white" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.headerButton, cueDisabled]}
+                    onPress={onSplit}
+                    disabled={!selectedCue}>
+                    <Ionicons name="cut" size={16} color="white" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.headerButton, !canMerge && styles.disabled]}
+                    onPress={onMerge}
+                    disabled={!canMerge}>
+                    <Ionicons name="git-merge-outline" size={16} color="white" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.headerButton, cueDisabled]}
+                    onPress={onDelete}
+                    disabled={!selectedCue}>
+                    <Ionicons name="trash-outline" size={16} color="white" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.headerButton, cues.length === 0 && styles.disabled]}
+                    onPress={exportCaptions}
+                    disabled={cues.length === 0}>
+                    <Ionicons name="share-outline" size={16} color="white" />
+                </TouchableOpacity>
+            </View>
+
+            {selectedCue ? (
+                <View style={styles.cue}>
+                    <View style={styles.cueTiming}>
+                        <TouchableOpacity onPress={() => onSeek(selectedCue.start)}>
+                            <Text style={styles.time}>
+                                {formatPreciseTime(selectedCue.start)} →{' '}
+                                {formatPreciseTime(selectedCue.end)}
+                            </Text>
+                        </TouchableOpacity>
+                        {isOverlapping && (
+                            <View style={styles.overlap}>
+                                <Ionicons name="warning" size={12} color="#ef4444" />
+                                <Text style={styles.overlapText}>Overlaps another cue</Text>
+                            </View>
+                        )}
+                    </View>
+                    <TextInput
+                        style={styles.textInput}
+                        value={selectedCue.text}
+                        onChangeText={(text) => onChangeText(selectedCue.id, text)}
+                        placeholder="Caption text"
+                        placeholderTextColor="#555"
+                        multiline
+                    />
+                </View>
+            ) : (
+                <Text style={styles.empty}>
+                    Add a cue at the playhead, or tap one on the caption lane to edit it.
+                </Text>
+            )}
+        </View>
+    );
+});
+
+const styles = StyleSheet.create({
+    container: {
+        paddingHorizontal: 20,
+        marginTop: 20,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+    },
+    heading: {
+        flex: 1,
+        color: '#fff',
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    headerButton: {
+        padding: 6,
+        borderRadius: 6,
+        backgroundColor: 'rgba(255,255,255,0.1)',
+    },
+    disabled: {
+        opacity: 0.3,
+    },
+    cue: {
+        padding: 8,
+        borderRadius: 8,
+        backgroundColor: '#1a1a1a',
+    },
+    cueTiming: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: 4,
+    },
+    time: {
+        color: '#3b82f6',
+        fontSize: 13,
+        fontWeight: '600',
+        fontVariant: ['tabular-nums'],
+    },
+    overlap: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    overlapText: {
+        color: '#ef4444',
+        fontSize: 11,
+    },
+    textInput: {
+        minHeight: 36,
+        maxHeight: 80,
+        color: '#fff',
+        fontSize: 13,
+        textAlignVertical: 'top',
+    },
+    empty: {
+        color: '#555',
+        fontSize: 12,
+    },
+});
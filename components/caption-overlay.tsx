@@ -0,0 +1,116 @@
+import React, { memo, useEffect, useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import type { SequencePlayback } from '../hooks/use-sequence-playback';
+import { activeCues, CaptionStyle, Cue, cueSpans } from '../lib/captions';
+
+interface CaptionLineProps {
+    cue: Cue;
+    style: CaptionStyle;
+}
+
+const CaptionLine = memo(function CaptionLine({ cue, style }: CaptionLineProps) {
+    const hasBox = style.backgroundOpacity > 0;
+
+    return (
+        <Text
+            style={[
+                styles.cue,
+                { fontSize: style.fontSize, lineHeight: Math.round(style.fontSize * 1.3) },
+                hasBox
+                    ? { backgroundColor: `rgba(0,0,0,${style.backgroundOpacity})` }
+                    : styles.cueShadow,
+            ]}>
+            {cueSpans(cue.text).map((span, i) => (
+                <Text
+                    key={i}
+                    style={[
+                        span.bold && styles.bold,
+                        span.italic && styles.italic,
+                        span.underline && styles.underline,
+                    ]}>
+                    {span.text}
+                </Text>
+            ))}
+        </Text>
+    );
+});
+
+interface CaptionOverlayProps {
+    playback: SequencePlayback;
+    cues: Cue[];
+    style: CaptionStyle;
+}
+
+/** Cues under the playhead drawn over the video; overlapping cues stack. */
+export const CaptionOverlay = memo(function CaptionOverlay({
+    playback,
+    cues,
+    style,
+}: CaptionOverlayProps) {
+    const [visible, setVisible] = useState<Cue[]>([]);
+
+    // Follows the player's time updates; only re-renders when the set of cues changes
+    useEffect(() => {
+        const update = (time: number) => {
+            // A cue just added in the editor may not have text yet
+            const next = activeCues(cues, time).filter((cue) => cue.text.trim() !== '');
+            setVisible((current) =>
+                current.length === next.length && current.every((cue, i) => cue === next[i])
+                    ? current
+                    : next
+            );
+        };
+        update(playback.getCurrentTime());
+        return playback.addTimeListener(update);
+    }, [playback, cues]);
+
+    if (visible.length === 0) return null;
+
+    return (
+        <View
+            style={[styles.container, style.position === 'top' ? styles.top : styles.bottom]}
+            pointerEvents="none">
+            {visible.map((cue) => (
+                <CaptionLine key={cue.id} cue={cue} style={style} />
+            ))}
+        </View>
+    );
+});
+
+const styles = StyleSheet.create({
+    container: {
+        position: 'absolute',
+        left: 16,
+        right: 16,
+        alignItems: 'center',
+        gap: 4,
+    },
+    top: {
+        top: 12,
+    },
+    bottom: {
+        bottom: 12,
+    },
+    cue: {
+        color: '#fff',
+        textAlign: 'center',
+        paddingHorizontal: 6,
+        borderRadius: 4,
+        overflow: 'hidden',
+    },
+    cueShadow: {
+        textShadowColor: 'rgba(0,0,0,0.9)',
+        textShadowOffset: { width: 0, height: 1 },
+        textShadowRadius: 3,
+    },
+    bold: {
+        fontWeight: '700',
+    },
+    italic: {
+        fontStyle: 'italic',
+    },
+    underline: {
+        textDecorationLine: 'underline',
+    },
+});
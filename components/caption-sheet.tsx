@@ -0,0 +1,130 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import React, { memo, useCallback } from 'react';
+import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import {
+    CAPTION_BACKGROUND_OPACITIES,
+    CAPTION_FONT_SIZES,
+    CAPTION_POSITIONS,
+    CaptionPosition,
+    CaptionStyle,
+    Cue,
+    parseCaptions,
+} from '../lib/captions';
+import { BottomSheet } from './bottom-sheet';
+import { OptionRow } from './option-row';
+
+const POSITION_LABELS: Record<CaptionPosition, string> = { bottom: 'Bottom', top: 'Top' };
+
+const formatOpacity = (opacity: number) =>
+    opacity === 0 ? 'Shadow' : `${Math.round(opacity * 100)}%`;
+
+interface CaptionSheetProps {
+    visible: boolean;
+    cueCount: number;
+    style: CaptionStyle;
+    onStyleChange: (changes: Partial<CaptionStyle>) => void;
+    /** Replaces every cue; an empty list removes the captions. */
+    onImport: (cues: Cue[]) => void;
+    onClose: () => void;
+}
+
+/** Bottom sheet for loading an SRT / WebVTT file and styling the captions. */
+export const CaptionSheet = memo(function CaptionSheet({
+    visible,
+    cueCount,
+    style,
+    onStyleChange,
+    onImport,
+    onClose,
+}: CaptionSheetProps) {
+    const importFile = useCallback(async () => {
+        try {
+            // Caption files come with all sorts of MIME types, so don't filter
+            const result = await DocumentPicker.getDocumentAsync({
+                type: '*/*',
+                copyToCacheDirectory: true,
+            });
+            if (result.canceled) return;
+            const cues = parseCaptions(await new File(result.assets[0].uri).text());
+            if (cues.length === 0) {
+                Alert.alert('No captions found', 'Pick an SRT or WebVTT file.');
+                return;
+            }
+            onImport(cues);
+        } catch (error) {
+            Alert.alert('Could not read the file', String(error));
+        }
+    }, [onImport]);
+
+    return (
+        <BottomSheet visible={visible} title="Captions" onClose={onClose}>
+            <View style={styles.trackRow}>
+                <Text style={styles.trackText}>
+                    {cueCount > 0 ? `${cueCount} cues` : 'No captions loaded'}
+                </Text>
+                <TouchableOpacity style={styles.trackButton} onPress={importFile}>
+                    <Ionicons name="document-text-outline" size={16} color="white" />
+                    <Text style={styles.trackButtonText}>Import SRT/VTT</Text>
+                </TouchableOpacity>
+                {cueCount > 0 && (
+                    <TouchableOpacity style={styles.trackButton} onPress={() => onImport([])}>
+                        <Ionicons name="close" size={16} color="white" />
+                    </TouchableOpacity>
+                )}
+            </View>
+
+            <OptionRow
+                label="Size"
+                options={CAPTION_FONT_SIZES}
+                value={style.fontSize}
+                format={(size) => `${size}`}
+                onSelect={(fontSize) => onStyleChange({ fontSize })}
+            />
+            <OptionRow
+                label="Background"
+                options={CAPTION_BACKGROUND_OPACITIES}
+                value={style.backgroundOpacity}
+                format={formatOpacity}
+                onSelect={(backgroundOpacity) => onStyleChange({ backgroundOpacity })}
+            />
+            <OptionRow
+                label="Position"
+                options={CAPTION_POSITIONS.map((_, i) => i)}
+                value={CAPTION_POSITIONS.indexOf(style.position)}
+                format={(i) => POSITION_LABELS[CAPTION_POSITIONS[i]]}
+                onSelect={(i) => onStyleChange({ position: CAPTION_POSITIONS[i] })}
+            />
+        </BottomSheet>
+    );
+});
+
+const styles = StyleSheet.create({
+    trackRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 14,
+    },
+    trackText: {
+        flex: 1,
+        color: '#ccc',
+        fontSize: 13,
+    },
+    trackButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 14,
+        backgroundColor: 'rgba(255,255,255,0.1)',
+    },
+    trackButtonText: {
+        color: '#fff',
+        fontSize: 12,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,272 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+    Alert,
+    ScrollView,
+    Share,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+import type { SequencePlayback } from '../hooks/use-sequence-playback';
+import { Chapter, deriveChapters, formatChapters, Marker, parseChapters } from '../lib/markers';
+import { formatClockTime } from '../lib/timecode';
+
+// ============================================================================
+// CHAPTER ROW
+// ============================================================================
+
+interface ChapterRowProps {
+    chapter: Chapter;
+    isActive: boolean;
+    onSeek: (time: number) => void;
+    onRename: (id: string, title: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const ChapterRow = memo(function ChapterRow({
+    chapter,
+    isActive,
+    onSeek,
+    onRename,
+    onDelete,
+}: ChapterRowProps) {
+    const { marker, start } = chapter;
+
+    return (
+        <View style={[styles.row, isActive && styles.rowActive]}>
+            <View style={[styles.colorDot, { backgroundColor: marker.color }]} />
+
+            <TouchableOpacity onPress={() => onSeek(start)}>
+                <Text style={styles.time}>{formatClockTime(start)}</Text>
+            </TouchableOpacity>
+
+            <TextInput
+                style={styles.title}
+                value={marker.title}
+                onChangeText={(title) => onRename(marker.id, title)}
+                placeholder="Untitled"
+                placeholderTextColor="#555"
+                returnKeyType="done"
+            />
+
+            <TouchableOpacity onPress={() => onDelete(marker.id)} hitSlop={8}>
+                <Ionicons name="close" size={16} color="#888" />
+            </TouchableOpacity>
+        </View>
+    );
+});
+
+// ============================================================================
+// CHAPTER LIST
+// ============================================================================
+
+interface ChapterListProps {
+    playback: SequencePlayback;
+    markers: Marker[];
+    duration: number;
+    onRename: (id: string, title: string) => void;
+    onDelete: (id: string) => void;
+    /** Replaces every marker with the imported chapters. */
+    onImport: (markers: Marker[]) => void;
+}
+
+/**
+ * Chapters derived from the timeline markers, with WebVTT / YouTube
+ * description import (pasted text) and export (share sheet).
+ */
+export const ChapterList = memo(function ChapterList({
+    playback,
+    markers,
+    duration,
+    onRename,
+    onDelete,
+    onImport,
+}: ChapterListProps) {
+    const [importText, setImportText] = useState<string | null>(null);
+    const [activeId, setActiveId] = useState<string>();
+
+    const chapters = useMemo(() => deriveChapters(markers, duration), [markers, duration]);
+
+    // Highlight the chapter under the playhead; only re-render when it changes
+    useEffect(() => {
+        const update = (time: number) => {
+            const active = chapters.find(({ start, end }) => time >= start && time < end);
+            setActiveId(active?.marker.id);
+        };
+        update(playback.getCurrentTime());
+        return playback.addTimeListener(update);
+    }, [playback, chapters]);
+
+    const exportChapters = useCallback(() => {
+        const share = (format: 'webvtt' | 'youtube') => {
+            Share.share({ message: formatChapters(format, markers, duration) }).catch(() => {
+                // Dismissed or unavailable - nothing to do
+            });
+        };
+        Alert.alert('Export chapters', undefined, [
+            { text: 'YouTube description', onPress: () => share('youtube') },
+            { text: 'WebVTT', onPress: () => share('webvtt') },
+            { text: 'Cancel', style: 'cancel' },
+        ]);
+    }, [markers, duration]);
+
+    const confirmImport = useCallback(() => {
+        const imported = parseChapters(importText ?? '');
+        if (imported.length === 0) {
+            Alert.alert('No chapters found', 'Paste a WebVTT file or "00:00 Title" lines.');
+            return;
+        }
+        onImport(imported);
+        setImportText(null);
+    }, [importText, onImport]);
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.header}>
+                <Text style={styles.heading}>Chapters</Text>
+                <TouchableOpacity style={styles.headerButton} onPress={() => setImportText('')}>
+                    <Ionicons name="download-outline" size={16} color="white" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.headerButton, chapters.length === 0 && styles.disabled]}
+                    onPress={exportChapters}
+                    disabled={chapters.length === 0}>
+                    <Ionicons name="share-outline" size={16} color="white" />
+                </TouchableOpacity>
+            </View>
+
+            {importText !== null && (
+                <View style={styles.importPanel}>
+                    <TextInput
+                        style={styles.importInput}
+                        value={importText}
+                        onChangeText={setImportText}
+                        placeholder={'WEBVTT file or\n00:00 Intro\n01:30 Chapter title'}
+                        placeholderTextColor="#555"
+                        multiline
+                        autoFocus
+                    />
+                    <View style={styles.importActions}>
+                        <TouchableOpacity onPress={() => setImportText(null)}>
+                            <Text style={styles.importCancel}>Cancel</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={confirmImport}>
+                            <Text style={styles.importConfirm}>Import</Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            )}
+
+            {chapters.length === 0 && importText === null ? (
+                <Text style={styles.empty}>Add markers to split the video into chapters.</Text>
+            ) : (
+                <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+                    {chapters.map((chapter) => (
+                        <ChapterRow
+                            key={chapter.marker.id}
+                            chapter={chapter}
+                            isActive={chapter.marker.id === activeId}
+                            onSeek={playback.seek}
+                            onRename={onRename}
+                            onDelete={onDelete}
+                        />
+                    ))}
+                </ScrollView>
+            )}
+        </View>
+    );
+});
+
+const styles = StyleSheet.create({
+    container: {
+        paddingHorizontal: 20,
+        marginTop: 20,
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+    },
+    heading: {
+        flex: 1,
+        color: '#fff',
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    headerButton: {
+        padding: 6,
+        borderRadius: 6,
+        backgroundColor: 'rgba(255,255,255,0.1)',
+    },
+    disabled: {
+        opacity: 0.3,
+    },
+    list: {
+        maxHeight: 140,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        paddingVertical: 6,
+        paddingHorizontal: 8,
+        borderRadius: 6,
+    },
+    rowActive: {
+        backgroundColor: 'rgba(255,255,255,0.08)',
+    },
+    colorDot: {
+        width: 8,
+        height: 8,
+        borderRadius: 4,
+    },
+    time: {
+        color: '#3b82f6',
+        fontSize: 13,
+        fontWeight: '600',
+        fontVariant: ['tabular-nums'],
+    },
+    title: {
+        flex: 1,
+        color: '#fff',
+        fontSize: 13,
+        paddingVertical: 0,
+    },
+    empty: {
+        color: '#555',
+        fontSize: 12,
+    },
+    importPanel: {
+        marginBottom: 8,
+        padding: 8,
+        borderRadius: 8,
+        backgroundColor: '#1a1a1a',
+    },
+    importInput: {
+        minHeight: 80,
+        maxHeight: 120,
+        color: '#fff',
+        fontSize: 12,
+        textAlignVertical: 'top',
+    },
+    importActions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: 16,
+        marginTop: 8,
+    },
+    importCancel: {
+        color: '#888',
+        fontSize: 13,
+    },
+    importConfirm: {
+        color: '#3b82f6',
+        fontSize: 13,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,224 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import {
+    ClipEncoder,
+    exportClip,
+    ExportResult,
+    exportRanges,
+    rangesDuration,
+} from '../lib/clip-export';
+import { saveToLibrary, shareFile } from '../lib/media-output';
+import { TaskAbortedError } from '../lib/task-scheduler';
+import { Project, TrimRange } from '../lib/timeline-project';
+import { formatPreciseTime } from '../lib/timecode';
+import { BottomSheet } from './bottom-sheet';
+
+type ExportState =
+    | { phase: 'idle' }
+    | { phase: 'exporting'; progress: number }
+    | { phase: 'done'; result: ExportResult }
+    | { phase: 'failed'; error: string };
+
+const IDLE: ExportState = { phase: 'idle' };
+
+interface ExportSheetProps {
+    visible: boolean;
+    project: Project | null;
+    /** Sequence range to export: the trim, or the whole edit. */
+    range: TrimRange | null;
+    title: string;
+    encoder: ClipEncoder;
+    onClose: () => void;
+}
+
+/**
+ * Exports the trimmed range to a new file with progress and cancel, then
+ * saves it to the library or hands it to the share sheet.
+ */
+export const ExportSheet = memo(function ExportSheet({
+    visible,
+    project,
+    range,
+    title,
+    encoder,
+    onClose,
+}: ExportSheetProps) {
+    const [state, setState] = useState<ExportState>(IDLE);
+    const controllerRef = useRef<AbortController | null>(null);
+    const duration = project && range ? rangesDuration(exportRanges(project, range)) : 0;
+
+    // Leaving the editor cancels a running export
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    const start = useCallback(async () => {
+        if (!project || !range) return;
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setState({ phase: 'exporting', progress: 0 });
+        try {
+            const result = await exportClip(project, range, {
+                encoder,
+                title,
+                signal: controller.signal,
+                onProgress: (progress) => setState({ phase: 'exporting', progress }),
+            });
+            setState({ phase: 'done', result });
+        } catch (error) {
+            // Cancelling goes back to the start; anything else offers a retry
+            if (error instanceof TaskAbortedError) {
+                setState(IDLE);
+            } else {
+                const message = error instanceof Error ? error.message : String(error);
+                setState({ phase: 'failed', error: message });
+            }
+        } finally {
+            if (controllerRef.current === controller) controllerRef.current = null;
+        }
+    }, [project, range, encoder, title]);
+
+    const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+    const close = useCallback(() => {
+        controllerRef.current?.abort();
+        setState(IDLE);
+        onClose();
+    }, [onClose]);
+
+    const save = useCallback(async (result: ExportResult) => {
+        try {
+            if (await saveToLibrary(result.uri)) {
+                Alert.alert('Saved', 'The clip is in your library.');
+            } else {
+                Alert.alert('Save to library', 'Allow access to your library to save clips.');
+            }
+        } catch (error) {
+            Alert.alert('Could not save the clip', String(error));
+        }
+    }, []);
+
+    const share = useCallback(async (result: ExportResult) => {
+        try {
+            await shareFile(result.uri, result.mimeType);
+        } catch (error) {
+            Alert.alert('Could not share the clip', String(error));
+        }
+    }, []);
+
+    return (
+        <BottomSheet visible={visible} title="Export clip" onClose={close}>
+            <Text style={styles.range}>
+                {range
+                    ? `${formatPreciseTime(range.start)} → ${formatPreciseTime(range.end)}` +
+                      ` · ${formatPreciseTime(duration)}`
+                    : 'Nothing to export yet'}
+            </Text>
+
+            {state.phase === 'exporting' ? (
+                <View style={styles.progressRow}>
+                    <View style={styles.progressTrack}>
+                        <View
+                            style={[styles.progressFill, { width: `${state.progress * 100}%` }]}
+                        />
+                    </View>
+                    <Text style={styles.percent}>{Math.round(state.progress * 100)}%</Text>
+                    <TouchableOpacity style={styles.button} onPress={cancel}>
+                        <Text style={styles.buttonText}>Cancel</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : state.phase === 'done' ? (
+                <View style={styles.actions}>
+                    {state.result.mimeType.startsWith('video/') && (
+                        <TouchableOpacity style={styles.button} onPress={() => save(state.result)}>
+                            <Ionicons name="download-outline" size={16} color="white" />
+                            <Text style={styles.buttonText}>Save to library</Text>
+                        </TouchableOpacity>
+                    )}
+                    <TouchableOpacity style={styles.button} onPress={() => share(state.result)}>
+                        <Ionicons name="share-outline" size={16} color="white" />
+                        <Text style={styles.buttonText}>Share</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : (
+                <View style={styles.actions}>
+                    {state.phase === 'failed' && <Text style={styles.error}>{state.error}</Text>}
+                    <TouchableOpacity
+                        style={[styles.button, styles.primary, !range && styles.disabled]}
+                        onPress={start}
+                        disabled={!range}>
+                        <Ionicons name="film-outline" size={16} color="white" />
+                        <Text style={styles.buttonText}>
+                            {state.phase === 'failed' ? 'Try again' : 'Export'}
+                        </Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+        </BottomSheet>
+    );
+});
+
+const styles = StyleSheet.create({
+    range: {
+        color: '#ccc',
+        fontSize: 13,
+        fontVariant: ['tabular-nums'],
+        marginBottom: 14,
+    },
+    progressRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+        marginBottom: 8,
+    },
+    progressTrack: {
+        flex: 1,
+        height: 4,
+        borderRadius: 2,
+        backgroundColor: 'rgba(255,255,255,0.15)',
+        overflow: 'hidden',
+    },
+    progressFill: {
+        height: '100%',
+        backgroundColor: '#3b82f6',
+    },
+    percent: {
+        width: 40,
+        color: '#fff',
+        fontSize: 12,
+        fontVariant: ['tabular-nums'],
+        textAlign: 'right',
+    },
+    actions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+    },
+    button: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 14,
+        backgroundColor: 'rgba(255,255,255,0.1)',
+    },
+    primary: {
+        backgroundColor: '#3b82f6',
+    },
+    disabled: {
+        opacity: 0.3,
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 12,
+        fontWeight: '600',
+    },
+    error: {
+        width: '100%',
+        color: '#f87171',
+        fontSize: 12,
+    },
+});
@@ -0,0 +1,172 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo, useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import {
+    FRAME_FORMATS,
+    FrameFormat,
+    FrameGrab,
+    FrameGrabSettings,
+    FrameSize,
+    grabFrame,
+    JPEG_QUALITIES,
+} from '../lib/frame-grab';
+import { saveToLibrary, shareFile } from '../lib/media-output';
+import { formatPreciseTime } from '../lib/timecode';
+import { BottomSheet } from './bottom-sheet';
+import { OptionRow } from './option-row';
+
+const FORMAT_LABELS: Record<FrameFormat, string> = { png: 'PNG', jpeg: 'JPEG' };
+
+/** The frame to capture: a source and a time in it, in seconds. */
+export interface FrameTarget {
+    sourceUri: string;
+    time: number;
+}
+
+interface FrameGrabSheetProps {
+    target: FrameTarget | null;
+    title: string;
+    /** The video's own size, when the player reports it. */
+    size: FrameSize | null;
+    settings: FrameGrabSettings;
+    onSettingsChange: (changes: Partial<FrameGrabSettings>) => void;
+    onClose: () => void;
+}
+
+/** Saves or shares the frame under the playhead as a PNG or JPEG still. */
+export const FrameGrabSheet = memo(function FrameGrabSheet({
+    target,
+    title,
+    size,
+    settings,
+    onSettingsChange,
+    onClose,
+}: FrameGrabSheetProps) {
+    const [isBusy, setBusy] = useState(false);
+    // The last still, reused while the target and settings stay the same
+    const [last, setLast] = useState<{
+        target: FrameTarget;
+        settings: FrameGrabSettings;
+        grab: FrameGrab;
+    } | null>(null);
+
+    const capture = useCallback(async (): Promise<FrameGrab | null> => {
+        if (!target) return null;
+        if (last?.target === target && last.settings === settings) return last.grab;
+        setBusy(true);
+        try {
+            const grab = await grabFrame(target.sourceUri, target.time, title, settings, size);
+            setLast({ target, settings, grab });
+            return grab;
+        } catch (error) {
+            Alert.alert('Could not capture the frame', String(error));
+            return null;
+        } finally {
+            setBusy(false);
+        }
+    }, [target, title, settings, size, last]);
+
+    const save = useCallback(async () => {
+        const grab = await capture();
+        if (!grab) return;
+        try {
+            if (await saveToLibrary(grab.uri)) {
+                Alert.alert('Saved', grab.fileName);
+            } else {
+                Alert.alert('Save to library', 'Allow access to your library to save frames.');
+            }
+        } catch (error) {
+            Alert.alert('Could not save the frame', String(error));
+        }
+    }, [capture]);
+
+    const share = useCallback(async () => {
+        const grab = await capture();
+        if (!grab) return;
+        try {
+            await shareFile(grab.uri, grab.mimeType);
+        } catch (error) {
+            Alert.alert('Could not share the frame', String(error));
+        }
+    }, [capture]);
+
+    return (
+        <BottomSheet visible={target !== null} title="Capture frame" onClose={onClose}>
+            {target && (
+                <Text style={styles.info}>
+                    {formatPreciseTime(target.time)}
+                    {size ? ` · ${size.width}×${size.height}` : ''}
+                </Text>
+            )}
+
+            <OptionRow
+                label="Format"
+                options={FRAME_FORMATS.map((_, i) => i)}
+                value={FRAME_FORMATS.indexOf(settings.format)}
+                format={(i) => FORMAT_LABELS[FRAME_FORMATS[i]]}
+                onSelect={(i) => onSettingsChange({ format: FRAME_FORMATS[i] })}
+            />
+            {settings.format === 'jpeg' && (
+                <OptionRow
+                    label="JPEG quality"
+                    options={JPEG_QUALITIES}
+                    value={settings.quality}
+                    format={(quality) => `${Math.round(quality * 100)}%`}
+                    onSelect={(quality) => onSettingsChange({ quality })}
+                />
+            )}
+
+            <View style={styles.actions}>
+                {isBusy && <ActivityIndicator color="#fff" />}
+                <TouchableOpacity
+                    style={[styles.button, isBusy && styles.disabled]}
+                    onPress={save}
+                    disabled={isBusy}>
+                    <Ionicons name="download-outline" size={16} color="white" />
+                    <Text style={styles.buttonText}>Save to library</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.button, isBusy && styles.disabled]}
+                    onPress={share}
+                    disabled={isBusy}>
+                    <Ionicons name="share-outline" size={16} color="white" />
+                    <Text style={styles.buttonText}>Share</Text>
+                </TouchableOpacity>
+            </View>
+        </BottomSheet>
+    );
+});
+
+const styles = StyleSheet.create({
+    info: {
+        color: '#ccc',
+        fontSize: 13,
+        fontVariant: ['tabular-nums'],
+        marginBottom: 14,
+    },
+    actions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        alignItems: 'center',
+        gap: 8,
+        marginBottom: 8,
+    },
+    button: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 14,
+        backgroundColor: 'rgba(255,255,255,0.1)',
+    },
+    disabled: {
+        opacity: 0.3,
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 12,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,75 @@
+import React, { memo } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface OptionRowProps {
+    label: string;
+    options: number[];
+    value: number;
+    format: (option: number) => string;
+    onSelect: (option: number) => void;
+}
+
+/** A label over a row of selectable chips. */
+export const OptionRow = memo(function OptionRow({
+    label,
+    options,
+    value,
+    format,
+    onSelect,
+}: OptionRowProps) {
+    return (
+        <View style={styles.row}>
+            <Text style={styles.rowLabel}>{label}</Text>
+            <View style={styles.options}>
+                {options.map((option) => (
+                    <TouchableOpacity
+                        key={option}
+                        style={[styles.option, option === value && styles.optionSelected]}
+                        onPress={() => onSelect(option)}>
+                        <Text
+                            style={[
+                                styles.optionText,
+                                option === value && styles.optionTextSelected,
+                            ]}>
+                            {format(option)}
+                        </Text>
+                    </TouchableOpacity>
+                ))}
+            </View>
+        </View>
+    );
+});
+
+const styles = StyleSheet.create({
+    row: {
+        marginBottom: 14,
+    },
+    rowLabel: {
+        color: '#888',
+        fontSize: 12,
+        marginBottom: 6,
+    },
+    options: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+    },
+    option: {
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 14,
+        backgroundColor: 'rgba(255,255,255,0.1)',
+    },
+    optionSelected: {
+        backgroundColor: '#3b82f6',
+    },
+    optionText: {
+        color: '#ccc',
+        fontSize: 13,
+        fontVariant: ['tabular-nums'],
+    },
+    optionTextSelected: {
+        color: '#fff',
+        fontWeight: '600',
+    },
+});
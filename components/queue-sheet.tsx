@@ -0,0 +1,159 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import type { Playlist, RepeatMode } from '../lib/playlist';
+import { BottomSheet } from './bottom-sheet';
+
+const REPEAT_LABELS: Record<RepeatMode, string> = {
+    off: 'Repeat off',
+    all: 'Repeat all',
+    one: 'Repeat one',
+};
+
+interface QueueSheetProps {
+    visible: boolean;
+    playlist: Playlist;
+    onSelect: (index: number) => void;
+    onMove: (from: number, to: number) => void;
+    onRemove: (index: number) => void;
+    onToggleShuffle: () => void;
+    onToggleRepeat: () => void;
+    onClose: () => void;
+}
+
+/** Bottom sheet listing the play queue; items move up and down with the arrows. */
+export const QueueSheet = memo(function QueueSheet({
+    visible,
+    playlist,
+    onSelect,
+    onMove,
+    onRemove,
+    onToggleShuffle,
+    onToggleRepeat,
+    onClose,
+}: QueueSheetProps) {
+    const { items, index: currentIndex, shuffle, repeat } = playlist;
+
+    return (
+        <BottomSheet visible={visible} title={`Queue (${items.length})`} onClose={onClose}>
+            <View style={styles.modes}>
+                <TouchableOpacity
+                    style={[styles.modeButton, shuffle && styles.modeButtonActive]}
+                    onPress={onToggleShuffle}>
+                    <Ionicons name="shuffle" size={16} color="white" />
+                    <Text style={styles.modeText}>{shuffle ? 'Shuffle on' : 'Shuffle off'}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                    style={[styles.modeButton, repeat !== 'off' && styles.modeButtonActive]}
+                    onPress={onToggleRepeat}>
+                    <Ionicons name="repeat" size={16} color="white" />
+                    <Text style={styles.modeText}>{REPEAT_LABELS[repeat]}</Text>
+                </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.list}>
+                {items.map((item, i) => {
+                    const isCurrent = i === currentIndex;
+                    return (
+                        <View key={item.uri} style={styles.row}>
+                            <TouchableOpacity style={styles.rowMain} onPress={() => onSelect(i)}>
+                                <Ionicons
+                                    name={isCurrent ? 'volume-high' : 'film-outline'}
+                                    size={16}
+                                    color={isCurrent ? '#3b82f6' : '#666'}
+                                />
+                                <Text
+                                    style={[styles.rowTitle, isCurrent && styles.rowTitleCurrent]}
+                                    numberOfLines={1}>
+                                    {item.title}
+                                </Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[styles.rowButton, i === 0 && styles.rowButtonDisabled]}
+                                onPress={() => onMove(i, i - 1)}
+                                disabled={i === 0}>
+                                <Ionicons name="arrow-up" size={16} color="white" />
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[
+                                    styles.rowButton,
+                                    i === items.length - 1 && styles.rowButtonDisabled,
+                                ]}
+                                onPress={() => onMove(i, i + 1)}
+                                disabled={i === items.length - 1}>
+                                <Ionicons name="arrow-down" size={16} color="white" />
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={[
+                                    styles.rowButton,
+                                    items.length <= 1 && styles.rowButtonDisabled,
+                                ]}
+                                onPress={() => onRemove(i)}
+                                disabled={items.length <= 1}>
+                                <Ionicons name="close" size={16} color="white" />
+                            </TouchableOpacity>
+                        </View>
+                    );
+                })}
+            </ScrollView>
+        </BottomSheet>
+    );
+});
+
+const styles = StyleSheet.create({
+    modes: {
+        flexDirection: 'row',
+        gap: 8,
+        marginBottom: 12,
+    },
+    modeButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 14,
+        backgroundColor: '#2a2a2a',
+    },
+    modeButtonActive: {
+        backgroundColor: '#3b82f6',
+    },
+    modeText: {
+        color: '#fff',
+        fontSize: 12,
+        fontWeight: '600',
+    },
+    list: {
+        maxHeight: 320,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingVertical: 6,
+    },
+    rowMain: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 10,
+    },
+    rowTitle: {
+        flex: 1,
+        color: '#ccc',
+        fontSize: 14,
+    },
+    rowTitleCurrent: {
+        color: '#fff',
+        fontWeight: '600',
+    },
+    rowButton: {
+        padding: 6,
+        borderRadius: 6,
+        backgroundColor: '#2a2a2a',
+    },
+    rowButtonDisabled: {
+        opacity: 0.3,
+    },
+});
@@ -0,0 +1,60 @@
+import React, { memo, useEffect } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import { formatClockTime } from '../lib/timecode';
+
+// How long the prompt stays up
+const RESUME_PROMPT_DURATION = 6000;
+
+interface ResumePromptProps {
+    /** Position playback resumed from, in seconds. */
+    position: number;
+    onStartOver: () => void;
+    onDismiss: () => void;
+}
+
+/** "Resumed at 12:34 · Start over" over the video; hides itself after a few seconds. */
+export const ResumePrompt = memo(function ResumePrompt({
+    position,
+    onStartOver,
+    onDismiss,
+}: ResumePromptProps) {
+    useEffect(() => {
+        const timeout = setTimeout(onDismiss, RESUME_PROMPT_DURATION);
+        return () => clearTimeout(timeout);
+    }, [onDismiss]);
+
+    return (
+        <View style={styles.container}>
+            <Text style={styles.text}>Resumed at {formatClockTime(position)}</Text>
+            <TouchableOpacity onPress={onStartOver} hitSlop={8}>
+                <Text style={styles.action}>Start over</Text>
+            </TouchableOpacity>
+        </View>
+    );
+});
+
+const styles = StyleSheet.create({
+    container: {
+        position: 'absolute',
+        top: 12,
+        left: 12,
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 14,
+        backgroundColor: 'rgba(0,0,0,0.75)',
+    },
+    text: {
+        color: '#fff',
+        fontSize: 12,
+        fontVariant: ['tabular-nums'],
+    },
+    action: {
+        color: '#3b82f6',
+        fontSize: 12,
+        fontWeight: '700',
+    },
+});
@@ -0,0 +1,56 @@
+import React, { memo } from 'react';
+
+import { FAST_SCRUB_RATES, SEEK_STEP_OPTIONS, SeekSettings } from '../lib/seek-policy';
+import { formatRate } from '../lib/shuttle';
+import { BottomSheet } from './bottom-sheet';
+import { OptionRow } from './option-row';
+
+const formatSeconds = (seconds: number) => `${seconds}s`;
+
+interface SeekSettingsSheetProps {
+    visible: boolean;
+    settings: SeekSettings;
+    onChange: (changes: Partial<SeekSettings>) => void;
+    onClose: () => void;
+}
+
+/** Bottom sheet for the skip steps and fast scrub speed. */
+export const SeekSettingsSheet = memo(function SeekSettingsSheet({
+    visible,
+    settings,
+    onChange,
+    onClose,
+}: SeekSettingsSheetProps) {
+    return (
+        <BottomSheet visible={visible} title="Seeking" onClose={onClose}>
+            <OptionRow
+                label="Skip back"
+                options={SEEK_STEP_OPTIONS}
+                value={settings.backwardStep}
+                format={formatSeconds}
+                onSelect={(backwardStep) => onChange({ backwardStep })}
+            />
+            <OptionRow
+                label="Skip forward"
+                options={SEEK_STEP_OPTIONS}
+                value={settings.forwardStep}
+                format={formatSeconds}
+                onSelect={(forwardStep) => onChange({ forwardStep })}
+            />
+            <OptionRow
+                label="Double-tap"
+                options={SEEK_STEP_OPTIONS}
+                value={settings.doubleTapStep}
+                format={formatSeconds}
+                onSelect={(doubleTapStep) => onChange({ doubleTapStep })}
+            />
+            <OptionRow
+                label="Hold to scrub"
+                options={FAST_SCRUB_RATES}
+                value={settings.fastScrubRate}
+                format={formatRate}
+                onSelect={(fastScrubRate) => onChange({ fastScrubRate })}
+            />
+        </BottomSheet>
+    );
+});
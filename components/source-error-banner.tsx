@@ -0,0 +1,52 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { memo } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface SourceErrorBannerProps {
+    message: string;
+    onRetry: () => void;
+}
+
+/** "Could not load this clip · Retry" over the video when a clip's source fails to load. */
+export const SourceErrorBanner = memo(function SourceErrorBanner({
+    message,
+    onRetry,
+}: SourceErrorBannerProps) {
+    return (
+        <View style={styles.container}>
+            <Ionicons name="alert-circle-outline" size={16} color="#f87171" />
+            <Text style={styles.text} numberOfLines={2}>
+                Could not load this clip: {message}
+            </Text>
+            <TouchableOpacity onPress={onRetry} hitSlop={8}>
+                <Text style={styles.action}>Retry</Text>
+            </TouchableOpacity>
+        </View>
+    );
+});
+
+const styles = StyleSheet.create({
+    container: {
+        position: 'absolute',
+        top: 12,
+        left: 12,
+        right: 12,
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingVertical: 6,
+        paddingHorizontal: 12,
+        borderRadius: 14,
+        backgroundColor: 'rgba(0,0,0,0.75)',
+    },
+    text: {
+        flex: 1,
+        color: '#fff',
+        fontSize: 12,
+    },
+    action: {
+        color: '#3b82f6',
+        fontSize: 12,
+        fontWeight: '700',
+    },
+});
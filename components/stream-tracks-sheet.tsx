@@ -0,0 +1,94 @@
+import type { AudioTrack, SubtitleTrack } from 'expo-video';
+import React, { memo } from 'react';
+import { StyleSheet, Text } from 'react-native';
+
+import type { StreamTracks } from '../hooks/use-stream-tracks';
+import { formatRendition, Rendition } from '../lib/stream-manifest';
+import { BottomSheet } from './bottom-sheet';
+import { OptionRow } from './option-row';
+
+// OptionRow works on numbers, so choices are list indices and -1 means Auto/Off
+const AUTO = -1;
+
+const indices = (length: number) => Array.from({ length }, (_, i) => i);
+
+const sameTrack = (a: AudioTrack | SubtitleTrack, b: AudioTrack | SubtitleTrack | null) =>
+    !!b && a.id === b.id && a.label === b.label && a.language === b.language;
+
+const trackLabel = (track: AudioTrack | SubtitleTrack) =>
+    track.label || track.language || 'Unknown';
+
+interface StreamTracksSheetProps {
+    visible: boolean;
+    renditions: Rendition[];
+    /** Pinned rendition, or null for adaptive (Auto). */
+    renditionId: string | null;
+    tracks: StreamTracks;
+    onSelectRendition: (id: string | null) => void;
+    onSelectAudio: (track: AudioTrack) => void;
+    onSelectSubtitles: (track: SubtitleTrack | null) => void;
+    onClose: () => void;
+}
+
+/** Bottom sheet for the quality, audio and subtitle choices of a stream. */
+export const StreamTracksSheet = memo(function StreamTracksSheet({
+    visible,
+    renditions,
+    renditionId,
+    tracks,
+    onSelectRendition,
+    onSelectAudio,
+    onSelectSubtitles,
+    onClose,
+}: StreamTracksSheetProps) {
+    const { audioTracks, audioTrack, subtitleTracks, subtitleTrack } = tracks;
+    const renditionIndex = renditions.findIndex((rendition) => rendition.id === renditionId);
+
+    return (
+        <BottomSheet visible={visible} title="Stream" onClose={onClose}>
+            {renditions.length > 0 ? (
+                <OptionRow
+                    label="Quality"
+                    options={[AUTO, ...indices(renditions.length)]}
+                    value={renditionIndex}
+                    format={(i) =>
+                        i === AUTO
+                            ? 'Auto'
+                            : formatRendition(renditions[i].height, renditions[i].bandwidth)
+                    }
+                    onSelect={(i) => onSelectRendition(i === AUTO ? null : renditions[i].id)}
+                />
+            ) : (
+                <Text style={styles.note}>This stream has a single quality.</Text>
+            )}
+
+            {audioTracks.length > 1 && (
+                <OptionRow
+                    label="Audio"
+                    options={indices(audioTracks.length)}
+                    value={audioTracks.findIndex((track) => sameTrack(track, audioTrack))}
+                    format={(i) => trackLabel(audioTracks[i])}
+                    onSelect={(i) => onSelectAudio(audioTracks[i])}
+                />
+            )}
+
+            {subtitleTracks.length > 0 && (
+                <OptionRow
+                    label="Subtitles"
+                    options={[AUTO, ...indices(subtitleTracks.length)]}
+                    value={subtitleTracks.findIndex((track) => sameTrack(track, subtitleTrack))}
+                    format={(i) => (i === AUTO ? 'Off' : trackLabel(subtitleTracks[i]))}
+                    onSelect={(i) => onSelectSubtitles(i === AUTO ? null : subtitleTracks[i])}
+                />
+            )}
+        </BottomSheet>
+    );
+});
+
+const styles = StyleSheet.create({
+    note: {
+        color: '#888',
+        fontSize: 12,
+        marginBottom: 14,
+    },
+});
@@ -0,0 +1,190 @@
+import { act, renderHook } from '@testing-library/react-native';
+
+import { Clip, Project, TrimRange } from '../../lib/timeline-project';
+import { SequenceEndAction, useSequencePlayback } from '../use-sequence-playback';
+
+type Listener = (payload?: { currentTime: number }) => void;
+
+// Just enough of expo-video's player: it stops at the end of a file like the real one
+// does with loop off
+function createPlayer(sourceUri: string) {
+    const listeners = new Map<string, Set<Listener>>();
+    const player = {
+        source: sourceUri,
+        currentTime: 0,
+        playing: true,
+        play: jest.fn(() => {
+            player.playing = true;
+        }),
+        pause: jest.fn(() => {
+            player.playing = false;
+        }),
+        replaceAsync: jest.fn(async (source: string) => {
+            player.source = source;
+        }),
+        addListener: (event: string, listener: Listener) => {
+            if (!listeners.has(event)) listeners.set(event, new Set());
+            listeners.get(event)!.add(listener);
+            return { remove: () => listeners.get(event)!.delete(listener) };
+        },
+        emit(event: string, payload?: { currentTime: number }) {
+            listeners.get(event)?.forEach((listener) => listener(payload));
+        },
+        timeUpdate(currentTime: number) {
+            player.currentTime = currentTime;
+            player.emit('timeUpdate', { currentTime });
+        },
+        playToEnd() {
+            player.playing = false;
+            player.emit('playToEnd');
+        },
+    };
+    return player;
+}
+
+type FakePlayer = ReturnType<typeof createPlayer>;
+
+const clip = (id: string, sourceUri: string, sourceIn: number, sourceOut: number, start: number) =>
+    ({ id, sourceUri, sourceIn, sourceOut, start }) as Clip;
+
+function renderPlayback(
+    player: FakePlayer,
+    project: Project,
+    loopRange: TrimRange | null = null,
+    onEnd?: () => SequenceEndAction
+) {
+    player.currentTime = project.clips[0].sourceIn;
+    const { result } = renderHook(() =>
+        useSequencePlayback(
+            player as unknown as Parameters<typeof useSequencePlayback>[0],
+            project,
+            loopRange,
+            { onEnd }
+        )
+    );
+    return result;
+}
+
+// Lets a source swap settle
+const flush = () => act(async () => {});
+
+describe('useSequencePlayback at the end of a file', () => {
+    it('replays a single video from the start', () => {
+        const player = createPlayer('a.mp4');
+        const playback = renderPlayback(player, { clips: [clip('a', 'a.mp4', 0, 10, 0)] });
+
+        act(() => player.timeUpdate(9.8));
+        act(() => player.playToEnd());
+
+        expect(player.currentTime).toBe(0);
+        expect(player.playing).toBe(true);
+        expect(playback.current.getCurrentTime()).toBe(0);
+    });
+
+    it('stays paused at the start when the end action is stop', () => {
+        const player = createPlayer('a.mp4');
+        renderPlayback(player, { clips: [clip('a', 'a.mp4', 0, 10, 0)] }, null, () => 'stop');
+
+        act(() => player.playToEnd());
+
+        expect(player.currentTime).toBe(0);
+        expect(player.playing).toBe(false);
+        expect(player.play).not.toHaveBeenCalled();
+    });
+
+    it('leaves the player alone when the caller handles the end', () => {
+        const player = createPlayer('a.mp4');
+        const onEnd = jest.fn((): SequenceEndAction => 'handled');
+        renderPlayback(player, { clips: [clip('a', 'a.mp4', 0, 10, 0)] }, null, onEnd);
+
+        act(() => player.playToEnd());
+
+        expect(onEnd).toHaveBeenCalledTimes(1);
+        expect(player.play).not.toHaveBeenCalled();
+    });
+
+    it('goes back to a loop range that ends with the file', () => {
+        const player = createPlayer('a.mp4');
+        renderPlayback(player, { clips: [clip('a', 'a.mp4', 0, 10, 0)] }, { start: 6, end: 10 });
+
+        act(() => player.playToEnd());
+
+        expect(player.currentTime).toBe(6);
+        expect(player.playing).toBe(true);
+    });
+
+    it('swaps to the next clip from another file and plays it', async () => {
+        const player = createPlayer('a.mp4');
+        const playback = renderPlayback(player, {
+            clips: [clip('a', 'a.mp4', 0, 10, 0), clip('b', 'b.mp4', 3, 8, 10)],
+        });
+
+        act(() => player.playToEnd());
+        await flush();
+
+        expect(player.replaceAsync).toHaveBeenCalledWith('b.mp4');
+        expect(player.currentTime).toBe(3);
+        expect(player.playing).toBe(true);
+        expect(playback.current.getCurrentTime()).toBe(10);
+    });
+});
+
+describe('useSequencePlayback with timeUpdate and playToEnd both reporting the end', () => {
+    // a ends with the file; b and c come from the start of the same file
+    const project = (): Project => ({
+        clips: [
+            clip('a', 'a.mp4', 5, 10, 0),
+            clip('b', 'a.mp4', 0, 2, 5),
+            clip('c', 'a.mp4', 2, 4, 7),
+        ],
+    });
+
+    it('advances once when timeUpdate got there first', () => {
+        const player = createPlayer('a.mp4');
+        const playback = renderPlayback(player, project());
+
+        act(() => player.timeUpdate(9.97));
+        // The file ended just before the seek and play went out; the event arrives late
+        act(() => player.emit('playToEnd'));
+
+        // Still at the start of b, not skipped on to c
+        expect(player.currentTime).toBe(0);
+        expect(playback.current.getCurrentTime()).toBe(5);
+        expect(player.play).toHaveBeenCalledTimes(1);
+    });
+
+    it('advances on a later playToEnd once playback moved on', () => {
+        const player = createPlayer('a.mp4');
+        const playback = renderPlayback(player, {
+            clips: [clip('a', 'a.mp4', 5, 10, 0), clip('b', 'a.mp4', 8, 10, 5)],
+        });
+
+        act(() => player.timeUpdate(9.97));
+        act(() => player.timeUpdate(9.5));
+        act(() => player.playToEnd());
+
+        // b ended with the file too, so the sequence wraps
+        expect(player.currentTime).toBe(5);
+        expect(playback.current.getCurrentTime()).toBe(0);
+        expect(player.playing).toBe(true);
+    });
+
+    it('ignores the end of the old file while swapping', async () => {
+        const player = createPlayer('a.mp4');
+        renderPlayback(player, {
+            clips: [
+                clip('a', 'a.mp4', 0, 10, 0),
+                clip('b', 'b.mp4', 0, 4, 10),
+                clip('c', 'b.mp4', 4, 8, 14),
+            ],
+        });
+
+        act(() => player.timeUpdate(9.97));
+        act(() => player.emit('playToEnd'));
+        await flush();
+
+        expect(player.replaceAsync).toHaveBeenCalledTimes(1);
+        expect(player.currentTime).toBe(0);
+        expect(player.playing).toBe(true);
+    });
+});
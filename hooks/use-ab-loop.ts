@@ -0,0 +1,57 @@
+import { useVideoPlayer } from 'expo-video';
+import { useEffect, useState } from 'react';
+
+import { hasPassedLoopEnd } from '../lib/ab-loop';
+import type { TrimRange } from '../lib/timeline-project';
+import type { SequencePlayback } from './use-sequence-playback';
+
+/**
+ * Sends playback back to A whenever it passes B, optionally pausing for a
+ * count-in first. Returns how many times the loop has repeated.
+ */
+export function useAbLoop(
+    player: ReturnType<typeof useVideoPlayer>,
+    playback: SequencePlayback,
+    loop: TrimRange | null,
+    countIn: number
+): number {
+    const [repeats, setRepeats] = useState(0);
+
+    // A new region starts counting from zero
+    useEffect(() => {
+        setRepeats(0);
+    }, [loop]);
+
+    useEffect(() => {
+        if (!loop) return;
+
+        let previous = playback.getCurrentTime();
+        let countInTimer: ReturnType<typeof setTimeout> | null = null;
+
+        const unsubscribe = playback.addTimeListener((time) => {
+            const passed = hasPassedLoopEnd(loop, previous, time);
+            previous = time;
+            if (!passed || countInTimer) return;
+
+            setRepeats((count) => count + 1);
+            if (countIn <= 0) {
+                playback.seek(loop.start);
+                return;
+            }
+
+            player.pause();
+            countInTimer = setTimeout(() => {
+                countInTimer = null;
+                playback.seek(loop.start);
+                player.play();
+            }, countIn * 1000);
+        });
+
+        return () => {
+            unsubscribe();
+            if (countInTimer) clearTimeout(countInTimer);
+        };
+    }, [player, playback, loop, countIn]);
+
+    return repeats;
+}
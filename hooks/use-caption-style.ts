@@ -0,0 +1,18 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { CaptionStyle, loadCaptionStyle, saveCaptionStyle } from '../lib/captions';
+
+/** Caption style loaded from storage; every change is saved back. */
+export function useCaptionStyle() {
+    const [style, setStyle] = useState(loadCaptionStyle);
+
+    useEffect(() => {
+        saveCaptionStyle(style);
+    }, [style]);
+
+    const updateStyle = useCallback((changes: Partial<CaptionStyle>) => {
+        setStyle((current) => ({ ...current, ...changes }));
+    }, []);
+
+    return { style, updateStyle };
+}
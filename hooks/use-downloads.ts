@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+
+import { Download, DownloadManager } from '../lib/download-manager';
+
+/** Every offline download, re-rendering as they progress. */
+export function useDownloads(): Download[] {
+    const manager = DownloadManager.getInstance();
+    return useSyncExternalStore(manager.subscribe, manager.getSnapshot);
+}
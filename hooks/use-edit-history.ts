@@ -0,0 +1,27 @@
+import { useCallback, useState, useSyncExternalStore } from 'react';
+
+import { Command, EditHistory, EditHistoryOptions } from '../lib/edit-history';
+
+/**
+ * Binds an EditHistory to React. `execute` builds its command from the latest
+ * state, so callers never act on a stale render.
+ */
+export function useEditHistory<S>(initialState: S, options?: EditHistoryOptions) {
+    const [history] = useState(() => new EditHistory(initialState, options));
+    const snapshot = useSyncExternalStore(history.subscribe, history.getSnapshot);
+
+    const execute = useCallback(
+        (build: (state: S) => Command<S> | null) => {
+            const command = build(history.state);
+            if (command) history.execute(command);
+        },
+        [history]
+    );
+
+    const undo = useCallback(() => history.undo(), [history]);
+    const redo = useCallback(() => history.redo(), [history]);
+    const seal = useCallback(() => history.seal(), [history]);
+    const reset = useCallback((state: S) => history.reset(state), [history]);
+
+    return { ...snapshot, execute, undo, redo, seal, reset };
+}
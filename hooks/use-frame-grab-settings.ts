@@ -0,0 +1,18 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { FrameGrabSettings, loadFrameGrabSettings, saveFrameGrabSettings } from '../lib/frame-grab';
+
+/** Frame grab format and quality loaded from storage; every change is saved back. */
+export function useFrameGrabSettings() {
+    const [settings, setSettings] = useState(loadFrameGrabSettings);
+
+    useEffect(() => {
+        saveFrameGrabSettings(settings);
+    }, [settings]);
+
+    const updateSettings = useCallback((changes: Partial<FrameGrabSettings>) => {
+        setSettings((current) => ({ ...current, ...changes }));
+    }, []);
+
+    return { settings, updateSettings };
+}
@@ -0,0 +1,33 @@
+import { useVideoPlayer } from 'expo-video';
+import { useEffect, useState } from 'react';
+
+import { DEFAULT_FRAME_RATE } from '../lib/timecode';
+
+/**
+ * Frame rate of the playing video track, falling back to DEFAULT_FRAME_RATE
+ * until (or unless) the platform reports one.
+ */
+export function useFrameRate(player: ReturnType<typeof useVideoPlayer>): number {
+    const [frameRate, setFrameRate] = useState(
+        () => player.videoTrack?.frameRate || DEFAULT_FRAME_RATE
+    );
+
+    useEffect(() => {
+        const update = (rate: number | null | undefined) => {
+            if (rate && rate > 0) setFrameRate(rate);
+        };
+
+        update(player.videoTrack?.frameRate);
+        const subscriptions = [
+            player.addListener('videoTrackChange', ({ videoTrack }) =>
+                update(videoTrack?.frameRate)
+            ),
+            player.addListener('sourceLoad', ({ availableVideoTracks }) =>
+                update(availableVideoTracks[0]?.frameRate)
+            ),
+        ];
+        return () => subscriptions.forEach((subscription) => subscription.remove());
+    }, [player]);
+
+    return frameRate;
+}
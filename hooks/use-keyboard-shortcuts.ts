@@ -0,0 +1,35 @@
+import { KeyEvent, useKeyEventListener } from 'expo-key-event';
+import { useCallback } from 'react';
+import { TextInput } from 'react-native';
+
+// expo-key-event reports physical key codes ("KeyJ", "Digit1", "Space"); the
+// handlers expect the key's value like the web version gets ("j", "1", " ")
+function keyValue({ key, character }: KeyEvent): string {
+    if (character && character.length === 1) return character;
+    const letter = key.match(/^Key([A-Z])$/);
+    if (letter) return letter[1].toLowerCase();
+    const digit = key.match(/^Digit(\d)$/);
+    if (digit) return digit[1];
+    return key === 'Space' ? ' ' : key;
+}
+
+/**
+ * Calls `onKey` for hardware keyboard presses (e.g. a Bluetooth keyboard),
+ * except while typing in a text field or with a modifier held. Key events
+ * come from the expo-key-event native module, so this needs a development
+ * build rather than Expo Go.
+ */
+export function useKeyboardShortcuts(onKey: (key: string) => boolean) {
+    const handleKey = useCallback(
+        (event: KeyEvent) => {
+            if (event.eventType !== 'press') return;
+            if (event.metaKey || event.ctrlKey || event.altKey) return;
+            if (TextInput.State.currentlyFocusedInput()) return;
+            onKey(keyValue(event));
+        },
+        [onKey]
+    );
+
+    // Keep "r" from reloading the app in development; it's a key like any other here
+    useKeyEventListener(handleKey, { preventReload: true, captureModifiers: true });
+}
@@ -0,0 +1,23 @@
+import { useEffect } from 'react';
+
+/**
+ * Calls `onKey` for key presses anywhere on the page except while typing in
+ * a text field. Returning true from `onKey` marks the key as handled.
+ */
+export function useKeyboardShortcuts(onKey: (key: string) => boolean) {
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement | null;
+            const isTyping =
+                target?.isContentEditable ||
+                target?.tagName === 'INPUT' ||
+                target?.tagName === 'TEXTAREA';
+            if (isTyping || event.metaKey || event.ctrlKey || event.altKey) return;
+
+            if (onKey(event.key)) event.preventDefault();
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onKey]);
+}
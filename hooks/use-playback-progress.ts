@@ -0,0 +1,49 @@
+import { useVideoPlayer } from 'expo-video';
+import { useEffect, useRef } from 'react';
+
+import { PROGRESS_SAVE_INTERVAL, saveProgress } from '../lib/playback-progress';
+import { throttle } from '../lib/throttle';
+import { Project, projectDuration } from '../lib/timeline-project';
+import type { SequencePlayback } from './use-sequence-playback';
+
+/**
+ * Saves the playback position of a source: throttled while playing, and right
+ * away on pause and unmount. Position and duration are both on the sequence
+ * timeline, so they stay comparable after the clips are edited.
+ */
+export function usePlaybackProgress(
+    player: ReturnType<typeof useVideoPlayer>,
+    playback: SequencePlayback,
+    project: Project | null,
+    uri: string
+) {
+    const projectRef = useRef(project);
+
+    useEffect(() => {
+        projectRef.current = project;
+    }, [project]);
+
+    useEffect(() => {
+        const save = (position: number) => {
+            const current = projectRef.current;
+            saveProgress(uri, position, current ? projectDuration(current) : 0);
+        };
+        const saveWhilePlaying = throttle(save, PROGRESS_SAVE_INTERVAL);
+
+        const removeTimeListener = playback.addTimeListener((time) => {
+            if (player.playing) saveWhilePlaying(time);
+        });
+        const subscription = player.addListener('playingChange', ({ isPlaying }) => {
+            if (isPlaying) return;
+            saveWhilePlaying.cancel();
+            save(playback.getCurrentTime());
+        });
+
+        return () => {
+            removeTimeListener();
+            subscription.remove();
+            saveWhilePlaying.cancel();
+            save(playback.getCurrentTime());
+        };
+    }, [player, playback, uri]);
+}
@@ -0,0 +1,62 @@
+import { useVideoPlayer } from 'expo-video';
+import { useCallback, useEffect, useState } from 'react';
+
+import { shuttle, ShuttleKey } from '../lib/shuttle';
+import type { SequencePlayback } from './use-sequence-playback';
+
+// Seek cadence while simulating reverse playback
+const REVERSE_TICK = 1000 / 15;
+
+/**
+ * Signed playback rate for the player. Forward rates go straight to the
+ * player (with pitch correction where the platform supports it); reverse
+ * pauses it and steps the sequence backwards on a timer.
+ */
+export function usePlaybackRate(
+    player: ReturnType<typeof useVideoPlayer>,
+    playback: SequencePlayback
+) {
+    const [rate, setRate] = useState(1);
+
+    useEffect(() => {
+        if (rate > 0) {
+            player.preservesPitch = true;
+            player.playbackRate = rate;
+            return;
+        }
+
+        player.pause();
+        const timer = setInterval(() => {
+            const time = playback.getCurrentTime() + (rate * REVERSE_TICK) / 1000;
+            playback.seek(Math.max(0, time));
+            // Nothing left to rewind - stop like K would
+            if (time <= 0) setRate(1);
+        }, REVERSE_TICK);
+        return () => clearInterval(timer);
+    }, [rate, player, playback]);
+
+    // Pressing play while reversing switches back to forward playback
+    useEffect(() => {
+        const subscription = player.addListener('playingChange', ({ isPlaying }) => {
+            if (isPlaying) setRate((current) => (current < 0 ? 1 : current));
+        });
+        return () => subscription.remove();
+    }, [player]);
+
+    const setSpeed = useCallback((speed: number) => setRate(speed), []);
+
+    const shuttleKey = useCallback(
+        (key: ShuttleKey) => {
+            const next = shuttle({ rate, playing: rate < 0 || player.playing }, key);
+            setRate(next.rate);
+            if (next.playing && next.rate > 0) {
+                player.play();
+            } else {
+                player.pause();
+            }
+        },
+        [rate, player]
+    );
+
+    return { rate, setSpeed, shuttle: shuttleKey };
+}
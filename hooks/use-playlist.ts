@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+    createPlaylist,
+    cycleRepeat,
+    goTo,
+    indexOfUri,
+    loadPlaylist,
+    moveItem,
+    nextIndex,
+    Playlist,
+    previousIndex,
+    removeItem,
+    savePlaylist,
+    setShuffle,
+} from '../lib/playlist';
+import type { VideoSourceInfo } from '../lib/video-source';
+
+// The saved queue when it holds the requested source, otherwise a queue of just that source
+function initialPlaylist(source: VideoSourceInfo): Playlist {
+    const saved = loadPlaylist();
+    const index = saved ? indexOfUri(saved, source.uri) : -1;
+    return saved && index >= 0 ? goTo(saved, index) : createPlaylist([source]);
+}
+
+/** The play queue, loaded from storage and saved back on every change. */
+export function usePlaylist(source: VideoSourceInfo) {
+    const [playlist, setPlaylist] = useState(() => initialPlaylist(source));
+
+    useEffect(() => {
+        savePlaylist(playlist);
+    }, [playlist]);
+
+    /** Moves to the next item; `auto` marks the current one as having ended. */
+    const next = useCallback((auto = false) => {
+        setPlaylist((current) => {
+            const index = nextIndex(current, auto);
+            return index === null ? current : goTo(current, index);
+        });
+    }, []);
+
+    const previous = useCallback(() => {
+        setPlaylist((current) => {
+            const index = previousIndex(current);
+            return index === null ? current : goTo(current, index);
+        });
+    }, []);
+
+    const select = useCallback((index: number) => {
+        setPlaylist((current) => goTo(current, index));
+    }, []);
+
+    const move = useCallback((from: number, to: number) => {
+        setPlaylist((current) => moveItem(current, from, to));
+    }, []);
+
+    const remove = useCallback((index: number) => {
+        setPlaylist((current) => removeItem(current, index));
+    }, []);
+
+    const toggleShuffle = useCallback(() => {
+        setPlaylist((current) => setShuffle(current, !current.shuffle));
+    }, []);
+
+    const toggleRepeat = useCallback(() => {
+        setPlaylist(cycleRepeat);
+    }, []);
+
+    return { playlist, next, previous, select, move, remove, toggleShuffle, toggleRepeat };
+}
@@ -0,0 +1,18 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { loadSeekSettings, saveSeekSettings, SeekSettings } from '../lib/seek-policy';
+
+/** Seek settings loaded from storage; every change is saved back. */
+export function useSeekSettings() {
+    const [settings, setSettings] = useState(loadSeekSettings);
+
+    useEffect(() => {
+        saveSeekSettings(settings);
+    }, [settings]);
+
+    const updateSettings = useCallback((changes: Partial<SeekSettings>) => {
+        setSettings((current) => ({ ...current, ...changes }));
+    }, []);
+
+    return { settings, updateSettings };
+}
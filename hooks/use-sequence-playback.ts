@@ -0,0 +1,259 @@
+import { useVideoPlayer, VideoSource } from 'expo-video';
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+
+import {
+    clipAtTime,
+    Project,
+    projectDuration,
+    sequenceTime,
+    TrimRange,
+} from '../lib/timeline-project';
+
+// Treat a clip as finished slightly early so the next one starts on time
+const CLIP_END_EPSILON = 0.05;
+
+// Slack before the loop start so small seek inaccuracies don't cause a jump
+const LOOP_TOLERANCE = 0.25;
+
+// Re-seek after an edit only when the player drifted this far from the sequence
+const RESYNC_TOLERANCE = 0.2;
+
+export interface SequencePlayback {
+    /** Current position on the sequence timeline, in seconds. */
+    getCurrentTime(): number;
+    /** Seeks to a sequence time, swapping the player source when needed. */
+    seek(time: number): void;
+    /** Subscribes to sequence time updates. Returns the unsubscribe function. */
+    addTimeListener(listener: (time: number) => void): () => void;
+    /** Loads the current clip's source again (e.g. at another quality), keeping the position. */
+    reload(): void;
+}
+
+/**
+ * What happens at the end of the sequence: wrap to the start and keep playing,
+ * wrap and pause, or nothing because the caller took over (e.g. the next video).
+ */
+export type SequenceEndAction = 'wrap' | 'stop' | 'handled';
+
+export interface SequencePlaybackOptions {
+    /** Asked at the end of the sequence; playback wraps and keeps playing without it. */
+    onEnd?: () => SequenceEndAction;
+    /** Player source for a clip's source URI; defaults to the URI itself. */
+    resolveSource?: (sourceUri: string) => VideoSource;
+    /** Called with the error when a clip's source fails to load, and with null once one loads. */
+    onSourceError?: (error: Error | null) => void;
+}
+
+/**
+ * Drives a single player across the clips of a project. Sequence time is
+ * derived from the player's source time, and playback moves to the next clip
+ * (swapping sources when it comes from another file) at each clip boundary.
+ */
+export function useSequencePlayback(
+    player: ReturnType<typeof useVideoPlayer>,
+    project: Project | null,
+    loopRange: TrimRange | null,
+    { onEnd, resolveSource, onSourceError }: SequencePlaybackOptions = {}
+): SequencePlayback {
+    const projectRef = useRef(project);
+    const loopRangeRef = useRef(loopRange);
+    const clipIndexRef = useRef(0);
+    const currentTimeRef = useRef(0);
+    const loadedUriRef = useRef<string | null>(null);
+    const swapTokenRef = useRef(0);
+    const isSwappingRef = useRef(false);
+    // timeUpdate already moved past the clip's end; a playToEnd for it is stale
+    const endHandledRef = useRef(false);
+    const listenersRef = useRef(new Set<(time: number) => void>());
+    const onEndRef = useRef(onEnd);
+    const resolveSourceRef = useRef(resolveSource);
+    const onSourceErrorRef = useRef(onSourceError);
+
+    useEffect(() => {
+        loopRangeRef.current = loopRange;
+    }, [loopRange]);
+
+    useEffect(() => {
+        onEndRef.current = onEnd;
+        resolveSourceRef.current = resolveSource;
+        onSourceErrorRef.current = onSourceError;
+    }, [onEnd, resolveSource, onSourceError]);
+
+    const emit = useCallback((time: number) => {
+        currentTimeRef.current = time;
+        listenersRef.current.forEach((listener) => listener(time));
+    }, []);
+
+    const activateClip = useCallback(
+        async (index: number, sourceTime: number, resume = false) => {
+            const clip = projectRef.current?.clips[index];
+            if (!clip) return;
+
+            clipIndexRef.current = index;
+            emit(sequenceTime(clip, sourceTime));
+
+            // The player stops at the end of a file; `resume` starts it again
+            if (loadedUriRef.current === clip.sourceUri) {
+                player.currentTime = sourceTime;
+                if (resume) player.play();
+                return;
+            }
+
+            // Swap sources, ignoring the result if another swap started meanwhile
+            const token = ++swapTokenRef.current;
+            const shouldPlay = resume || player.playing;
+            loadedUriRef.current = clip.sourceUri;
+            isSwappingRef.current = true;
+            try {
+                await player.replaceAsync(
+                    resolveSourceRef.current?.(clip.sourceUri) ?? clip.sourceUri
+                );
+            } catch (error) {
+                if (token === swapTokenRef.current) {
+                    // Forget the failed source so the next seek or reload tries it again
+                    loadedUriRef.current = null;
+                    onSourceErrorRef.current?.(
+                        error instanceof Error ? error : new Error(String(error))
+                    );
+                }
+                return;
+            } finally {
+                if (token === swapTokenRef.current) {
+                    isSwappingRef.current = false;
+                }
+            }
+            if (token !== swapTokenRef.current) return;
+
+            onSourceErrorRef.current?.(null);
+            player.currentTime = sourceTime;
+            if (shouldPlay) player.play();
+        },
+        [player, emit]
+    );
+
+    const seekTo = useCallback(
+        (time: number, resume: boolean) => {
+            const current = projectRef.current;
+            if (!current || current.clips.length === 0) return;
+
+            const end = projectDuration(current);
+            const location = clipAtTime(current, Math.max(0, Math.min(time, end - CLIP_END_EPSILON)));
+            if (location) {
+                void activateClip(location.index, location.sourceTime, resume);
+            }
+        },
+        [activateClip]
+    );
+
+    const seek = useCallback((time: number) => seekTo(time, false), [seekTo]);
+
+    const advance = useCallback(
+        (resume: boolean) => {
+            const current = projectRef.current;
+            if (!current) return;
+
+            const next = clipIndexRef.current + 1;
+            if (next < current.clips.length) {
+                void activateClip(next, current.clips[next].sourceIn, resume);
+                return;
+            }
+            if (loopRangeRef.current) {
+                seekTo(loopRangeRef.current.start, resume);
+                return;
+            }
+
+            // Wrap around so the sequence keeps looping like the single file did
+            const action = onEndRef.current?.() ?? 'wrap';
+            if (action === 'handled') return;
+            if (action === 'stop') player.pause();
+            seekTo(0, resume && action === 'wrap');
+        },
+        [player, activateClip, seekTo]
+    );
+
+    // Re-resolve the playing clip after every edit
+    useEffect(() => {
+        projectRef.current = project;
+        if (!project || project.clips.length === 0) return;
+
+        if (loadedUriRef.current === null) {
+            loadedUriRef.current = project.clips[0].sourceUri;
+        }
+
+        const location = clipAtTime(project, currentTimeRef.current);
+        if (!location) {
+            void activateClip(0, project.clips[0].sourceIn);
+            return;
+        }
+
+        clipIndexRef.current = location.index;
+        if (
+            loadedUriRef.current !== location.clip.sourceUri ||
+            Math.abs(player.currentTime - location.sourceTime) > RESYNC_TOLERANCE
+        ) {
+            void activateClip(location.index, location.sourceTime);
+        }
+    }, [project, player, activateClip]);
+
+    // Map source time to sequence time and hop clips at their out points
+    useEffect(() => {
+        const timeSubscription = player.addListener('timeUpdate', ({ currentTime }) => {
+            const clip = projectRef.current?.clips[clipIndexRef.current];
+            if (!clip || isSwappingRef.current) return;
+
+            if (currentTime >= clip.sourceOut - CLIP_END_EPSILON) {
+                endHandledRef.current = true;
+                // The file may end before the seek lands; playing again covers that
+                advance(player.playing);
+                return;
+            }
+            endHandledRef.current = false;
+
+            const time = sequenceTime(clip, Math.max(currentTime, clip.sourceIn));
+            emit(time);
+
+            const loop = loopRangeRef.current;
+            if (loop && (time >= loop.end || time < loop.start - LOOP_TOLERANCE)) {
+                seek(loop.start);
+            }
+        });
+        const endSubscription = player.addListener('playToEnd', () => {
+            if (isSwappingRef.current) return;
+            if (endHandledRef.current) {
+                endHandledRef.current = false;
+                return;
+            }
+            advance(true);
+        });
+
+        return () => {
+            timeSubscription.remove();
+            endSubscription.remove();
+        };
+    }, [player, emit, advance, seek]);
+
+    const addTimeListener = useCallback((listener: (time: number) => void) => {
+        const listeners = listenersRef.current;
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }, []);
+
+    const getCurrentTime = useCallback(() => currentTimeRef.current, []);
+
+    const reload = useCallback(() => {
+        const index = clipIndexRef.current;
+        const clip = projectRef.current?.clips[index];
+        if (!clip) return;
+
+        // Forget the loaded source so activating the clip swaps it in again
+        loadedUriRef.current = null;
+        void activateClip(index, Math.max(player.currentTime, clip.sourceIn));
+    }, [player, activateClip]);
+
+    return useMemo(
+        () => ({ getCurrentTime, seek, addTimeListener, reload }),
+        [getCurrentTime, seek, addTimeListener, reload]
+    );
+}
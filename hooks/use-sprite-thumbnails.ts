@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+
+import type { SpriteTile } from '../lib/sprite-tiles';
+import { loadWebVTTThumbnails } from '../lib/thumbnail-provider';
+
+/** Tiles of a WebVTT thumbnails track; null without a track or until it has loaded. */
+export function useSpriteThumbnails(uri: string | undefined): SpriteTile[] | null {
+    const [tiles, setTiles] = useState<SpriteTile[] | null>(null);
+
+    useEffect(() => {
+        setTiles(null);
+        if (!uri) return;
+
+        let isCurrent = true;
+        loadWebVTTThumbnails(uri)
+            .then((loaded) => {
+                if (isCurrent) setTiles(loaded);
+            })
+            .catch(() => {
+                // Fall back to decoding frames on the device
+            });
+        return () => {
+            isCurrent = false;
+        };
+    }, [uri]);
+
+    return tiles;
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+
+import { loadStreamManifest, StreamManifest } from '../lib/stream-manifest';
+
+/** Parsed HLS/DASH manifest of a source; null for progressive files or while loading. */
+export function useStreamManifest(uri: string): StreamManifest | null {
+    const [manifest, setManifest] = useState<StreamManifest | null>(null);
+
+    useEffect(() => {
+        const controller = new AbortController();
+        setManifest(null);
+        loadStreamManifest(uri, controller.signal)
+            .then((loaded) => {
+                if (!controller.signal.aborted) setManifest(loaded);
+            })
+            .catch(() => {
+                // The player reports load errors itself; without a manifest there's just no menu
+            });
+        return () => controller.abort();
+    }, [uri]);
+
+    return manifest;
+}
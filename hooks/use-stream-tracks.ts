@@ -0,0 +1,57 @@
+import { AudioTrack, SubtitleTrack, useVideoPlayer, VideoTrack } from 'expo-video';
+import { useCallback, useEffect, useState } from 'react';
+
+export interface StreamTracks {
+    videoTrack: VideoTrack | null;
+    audioTracks: AudioTrack[];
+    audioTrack: AudioTrack | null;
+    subtitleTracks: SubtitleTrack[];
+    subtitleTrack: SubtitleTrack | null;
+}
+
+// Track lists are Android/iOS only; web players report undefined
+const readTracks = (player: ReturnType<typeof useVideoPlayer>): StreamTracks => ({
+    videoTrack: player.videoTrack ?? null,
+    audioTracks: player.availableAudioTracks ?? [],
+    audioTrack: player.audioTrack ?? null,
+    subtitleTracks: player.availableSubtitleTracks ?? [],
+    subtitleTrack: player.subtitleTrack ?? null,
+});
+
+/**
+ * The playing video rendition plus the audio and subtitle tracks the source
+ * offers, kept in sync with the player.
+ */
+export function useStreamTracks(player: ReturnType<typeof useVideoPlayer>) {
+    const [tracks, setTracks] = useState(() => readTracks(player));
+
+    useEffect(() => {
+        const update = () => setTracks(readTracks(player));
+        update();
+        const subscriptions = [
+            player.addListener('sourceLoad', update),
+            player.addListener('videoTrackChange', update),
+            player.addListener('audioTrackChange', update),
+            player.addListener('availableAudioTracksChange', update),
+            player.addListener('subtitleTrackChange', update),
+            player.addListener('availableSubtitleTracksChange', update),
+        ];
+        return () => subscriptions.forEach((subscription) => subscription.remove());
+    }, [player]);
+
+    const selectAudioTrack = useCallback(
+        (track: AudioTrack) => {
+            player.audioTrack = track;
+        },
+        [player]
+    );
+
+    const selectSubtitleTrack = useCallback(
+        (track: SubtitleTrack | null) => {
+            player.subtitleTrack = track;
+        },
+        [player]
+    );
+
+    return { tracks, selectAudioTrack, selectSubtitleTrack };
+}
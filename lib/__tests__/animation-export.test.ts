@@ -0,0 +1,144 @@
+import { muxAnimatedWebp, readWebpFrame, sampleFrames } from '../animation-export';
+
+// jest-expo mocks the legacy API; swap in the in-memory File/Directory stand-in
+jest.mock('expo-file-system', () => jest.requireActual('../../__mocks__/expo-file-system'));
+jest.mock('expo-video-thumbnails', () => ({ getThumbnailAsync: jest.fn() }));
+
+const fourCC = (bytes: Uint8Array, offset: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const uint24 = (bytes: Uint8Array, offset: number) =>
+    bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const uint32 = (bytes: Uint8Array, offset: number) =>
+    new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, true);
+
+function riffChunk(type: string, payload: number[]): number[] {
+    const size = payload.length;
+    return [
+        ...Array.from(type, (char) => char.charCodeAt(0)),
+        ...[size, size >> 8, size >> 16, size >> 24].map((byte) => byte & 0xff),
+        ...payload,
+        ...(size & 1 ? [0] : []),
+    ];
+}
+
+// A still WebP as the image manipulator writes one: RIFF, then the image chunks
+function stillWebp(...chunks: number[][]): Uint8Array {
+    const body = [...Array.from('WEBP', (char) => char.charCodeAt(0)), ...chunks.flat()];
+    return Uint8Array.from(riffChunk('RIFF', body));
+}
+
+describe('sampleFrames', () => {
+    it('walks one range at the frame rate', () => {
+        const samples = sampleFrames([{ sourceUri: 'a', start: 2, end: 3 }], 4);
+
+        expect(samples).toEqual([2, 2.25, 2.5, 2.75].map((time) => ({ sourceUri: 'a', time })));
+    });
+
+    it('carries the sequence offset across ranges', () => {
+        const samples = sampleFrames(
+            [
+                { sourceUri: 'a', start: 0, end: 1 },
+                { sourceUri: 'b', start: 10, end: 10.5 },
+            ],
+            4
+        );
+
+        expect(samples).toEqual([
+            { sourceUri: 'a', time: 0 },
+            { sourceUri: 'a', time: 0.25 },
+            { sourceUri: 'a', time: 0.5 },
+            { sourceUri: 'a', time: 0.75 },
+            { sourceUri: 'b', time: 10 },
+            { sourceUri: 'b', time: 10.25 },
+        ]);
+    });
+
+    it('skips past ranges shorter than a frame', () => {
+        const samples = sampleFrames(
+            [
+                { sourceUri: 'a', start: 0, end: 0.5 },
+                { sourceUri: 'b', start: 3, end: 3.1 },
+                { sourceUri: 'c', start: 7, end: 8 },
+            ],
+            4
+        );
+
+        expect(samples.map((sample) => sample.sourceUri)).toEqual(['a', 'a', 'b', 'c', 'c', 'c']);
+        const times = samples.map((sample) => sample.time);
+        [0, 0.25, 3, 7.15, 7.4, 7.65].forEach((time, i) => expect(times[i]).toBeCloseTo(time));
+    });
+
+    it('returns no frames for an empty edit', () => {
+        expect(sampleFrames([], 10)).toEqual([]);
+        expect(sampleFrames([{ sourceUri: 'a', start: 4, end: 4 }], 10)).toEqual([]);
+    });
+});
+
+describe('readWebpFrame', () => {
+    it('keeps the image chunks and drops the rest', () => {
+        const frame = readWebpFrame(
+            stillWebp(riffChunk('EXIF', [1, 2]), riffChunk('VP8 ', [9, 8, 7]))
+        );
+
+        expect(Array.from(frame.chunks)).toEqual(riffChunk('VP8 ', [9, 8, 7]));
+        expect(frame.hasAlpha).toBe(false);
+    });
+
+    it('notices alpha in an ALPH chunk or a lossless header', () => {
+        const lossy = stillWebp(riffChunk('ALPH', [0]), riffChunk('VP8 ', [1, 2]));
+        const lossless = stillWebp(riffChunk('VP8L', [0x2f, 0, 0, 0, 0x10]));
+
+        expect(readWebpFrame(lossy).hasAlpha).toBe(true);
+        expect(readWebpFrame(lossless).hasAlpha).toBe(true);
+    });
+
+    it('rejects other formats', () => {
+        expect(() => readWebpFrame(new Uint8Array(16))).toThrow('not a WebP image');
+    });
+});
+
+describe('muxAnimatedWebp', () => {
+    const frames = [
+        readWebpFrame(stillWebp(riffChunk('VP8 ', [1, 2, 3]))),
+        readWebpFrame(stillWebp(riffChunk('ALPH', [4]), riffChunk('VP8 ', [5, 6]))),
+    ];
+    const webp = muxAnimatedWebp(frames, { width: 320, height: 180 }, 100);
+
+    it('writes the RIFF header with the size of everything after it', () => {
+        expect(fourCC(webp, 0)).toBe('RIFF');
+        expect(uint32(webp, 4)).toBe(webp.length - 8);
+        expect(fourCC(webp, 8)).toBe('WEBP');
+    });
+
+    it('starts with VP8X, then ANIM', () => {
+        expect(fourCC(webp, 12)).toBe('VP8X');
+        expect(uint32(webp, 16)).toBe(10);
+        expect(webp[20]).toBe(0x02 | 0x10); // animation, alpha from the second frame
+        expect(uint24(webp, 24)).toBe(319);
+        expect(uint24(webp, 27)).toBe(179);
+
+        expect(fourCC(webp, 30)).toBe('ANIM');
+        expect(uint32(webp, 34)).toBe(6);
+        expect(Array.from(webp.subarray(38, 44))).toEqual([0, 0, 0, 0, 0, 0]); // loop forever
+    });
+
+    it('nests each frame in an ANMF chunk', () => {
+        let offset = 44;
+        for (const frame of frames) {
+            expect(fourCC(webp, offset)).toBe('ANMF');
+            const size = uint32(webp, offset + 4);
+            expect(size).toBe(16 + frame.chunks.length);
+            expect(uint24(webp, offset + 8)).toBe(0); // x / 2
+            expect(uint24(webp, offset + 11)).toBe(0); // y / 2
+            expect(uint24(webp, offset + 14)).toBe(319);
+            expect(uint24(webp, offset + 17)).toBe(179);
+            expect(uint24(webp, offset + 20)).toBe(100);
+            expect(webp[offset + 23]).toBe(0x02);
+            expect(webp.subarray(offset + 24, offset + 8 + size)).toEqual(frame.chunks);
+            offset += 8 + size + (size & 1);
+        }
+        expect(offset).toBe(webp.length);
+    });
+});
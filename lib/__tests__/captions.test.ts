@@ -0,0 +1,109 @@
+import { Cue, parseCaptions, toSrt, toWebVTT } from '../captions';
+
+const summary = (cues: Cue[]) => cues.map(({ start, end, text }) => [start, end, text]);
+
+const SRT = [
+    '1',
+    '00:00:01,000 --> 00:00:02,500',
+    'Hello there',
+    '',
+    '2',
+    '00:00:03,000 --> 00:00:04,000',
+    'Two lines',
+    'of text',
+    '',
+].join('\n');
+
+describe('parseCaptions', () => {
+    it('reads well-formed SRT', () => {
+        expect(summary(parseCaptions(SRT))).toEqual([
+            [1, 2.5, 'Hello there'],
+            [3, 4, 'Two lines\nof text'],
+        ]);
+    });
+
+    it('keeps the last text line of SRT cues glued to the next cue', () => {
+        const text = [
+            '1',
+            '00:00:01,000 --> 00:00:02,000',
+            'First cue',
+            '2',
+            '00:00:02,000 --> 00:00:03,000',
+            'Second cue',
+            'second line',
+            '00:00:03,000 --> 00:00:04,000',
+            'No number before this one',
+        ].join('\n');
+
+        expect(summary(parseCaptions(text))).toEqual([
+            [1, 2, 'First cue'],
+            [2, 3, 'Second cue\nsecond line'],
+            [3, 4, 'No number before this one'],
+        ]);
+    });
+
+    it('keeps the last text line of VTT cues glued to the next cue, dropping cue ids', () => {
+        const text = [
+            'WEBVTT',
+            '',
+            'intro-1',
+            '00:01.000 --> 00:02.000',
+            'Yes',
+            'cue_2',
+            '00:02.000 --> 00:03.000',
+            'Only line',
+            '00:03.000 --> 00:04.000 align:start',
+            'Last',
+        ].join('\n');
+
+        expect(summary(parseCaptions(text))).toEqual([
+            [1, 2, 'Yes'],
+            [2, 3, 'Only line'],
+            [3, 4, 'Last'],
+        ]);
+    });
+
+    it('reads CRLF line endings and a byte order mark', () => {
+        const vtt = [
+            '\uFEFFWEBVTT',
+            '',
+            '00:00:01.000 --> 00:00:02.000',
+            'Hi',
+            '00:00:02.000 --> 00:00:03.000',
+            'There',
+            '',
+        ].join('\r\n');
+        expect(summary(parseCaptions(vtt))).toEqual([
+            [1, 2, 'Hi'],
+            [2, 3, 'There'],
+        ]);
+
+        const srt = `\uFEFF${SRT.replace(/\n/g, '\r\n')}`;
+        expect(summary(parseCaptions(srt))).toEqual(summary(parseCaptions(SRT)));
+    });
+
+    it('skips NOTE blocks, bad timings and cues without text', () => {
+        const text = [
+            'WEBVTT',
+            '',
+            'NOTE a comment',
+            'that spans lines',
+            '',
+            '00:05.000 --> 00:04.000',
+            'Ends before it starts',
+            '',
+            '00:06.000 --> 00:07.000',
+            '',
+            '00:08.000 --> 00:09.000',
+            'Kept',
+        ].join('\n');
+
+        expect(summary(parseCaptions(text))).toEqual([[8, 9, 'Kept']]);
+    });
+
+    it('reads back what it writes', () => {
+        const cues = parseCaptions(SRT);
+        expect(summary(parseCaptions(toSrt(cues)))).toEqual(summary(cues));
+        expect(summary(parseCaptions(toWebVTT(cues)))).toEqual(summary(cues));
+    });
+});
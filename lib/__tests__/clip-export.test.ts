@@ -0,0 +1,262 @@
+import { Directory, File, Paths } from 'expo-file-system';
+
+import {
+    ClipEncoder,
+    EncodeContext,
+    exportClip,
+    ExportRange,
+    exportRanges,
+    getClipEncoder,
+    NativeClipEncoder,
+    rangesDuration,
+    setClipEncoder,
+} from '../clip-export';
+import { TaskAbortedError } from '../task-scheduler';
+import { Clip, Project } from '../timeline-project';
+
+// jest-expo mocks the legacy API; swap in the in-memory File/Directory stand-in
+jest.mock('expo-file-system', () => jest.requireActual('../../__mocks__/expo-file-system'));
+jest.mock('expo', () => ({ requireOptionalNativeModule: jest.fn(() => null) }));
+
+const clip = (id: string, sourceIn: number, sourceOut: number, start: number): Clip => ({
+    id,
+    sourceUri: `file:///${id}.mp4`,
+    sourceIn,
+    sourceOut,
+    start,
+});
+
+// a: 0-4, b: 4-6, c: 6-9 on the sequence
+const project: Project = {
+    clips: [clip('a', 0, 4, 0), clip('b', 10, 12, 4), clip('c', 2, 5, 6)],
+};
+
+/**
+ * Writes the job as JSON instead of encoding media, reporting progress once
+ * per range. `stepDelay` makes it slow enough to cancel.
+ */
+class ManifestEncoder implements ClipEncoder {
+    readonly extension = 'json';
+    readonly mimeType = 'application/json';
+
+    constructor(private readonly stepDelay = 0) {}
+
+    async encode(ranges: ExportRange[], outputUri: string, context: EncodeContext) {
+        const total = rangesDuration(ranges);
+        let done = 0;
+        for (const range of ranges) {
+            await new Promise((resolve) => setTimeout(resolve, this.stepDelay));
+            if (context.signal.aborted) throw new TaskAbortedError();
+            done += range.end - range.start;
+            context.onProgress(total > 0 ? done / total : 1);
+        }
+        new File(outputUri).write(
+            JSON.stringify({ format: 'mp4', duration: total, ranges }, null, 2)
+        );
+    }
+}
+
+let directoryCount = 0;
+const exportDirectory = () => new Directory(Paths.cache, `exports-${++directoryCount}`);
+
+describe('exportRanges', () => {
+    it('maps a sequence range onto the source ranges it covers', () => {
+        expect(exportRanges(project, { start: 3, end: 7 })).toEqual([
+            { sourceUri: 'file:///a.mp4', start: 3, end: 4 },
+            { sourceUri: 'file:///b.mp4', start: 10, end: 12 },
+            { sourceUri: 'file:///c.mp4', start: 2, end: 3 },
+        ]);
+    });
+
+    it('stays inside one clip for a range within it', () => {
+        expect(exportRanges(project, { start: 4.5, end: 5 })).toEqual([
+            { sourceUri: 'file:///b.mp4', start: 10.5, end: 11 },
+        ]);
+    });
+
+    it('skips clips the range only touches', () => {
+        expect(exportRanges(project, { start: 4, end: 6 })).toEqual([
+            { sourceUri: 'file:///b.mp4', start: 10, end: 12 },
+        ]);
+    });
+});
+
+describe('exportClip', () => {
+    it('writes the job through the encoder and reports progress up to 1', async () => {
+        const directory = exportDirectory();
+        const progress: number[] = [];
+
+        const result = await exportClip(project, { start: 1, end: 8 }, {
+            encoder: new ManifestEncoder(),
+            title: 'Big Buck Bunny!',
+            directory,
+            onProgress: (fraction) => progress.push(fraction),
+        });
+
+        expect(result).toEqual({
+            uri: `${directory.uri}/Big-Buck-Bunny_00-00-01_000-00-00-08_000.json`,
+            mimeType: 'application/json',
+            duration: 7,
+        });
+        expect(JSON.parse(new File(result.uri).textSync())).toEqual({
+            format: 'mp4',
+            duration: 7,
+            ranges: exportRanges(project, { start: 1, end: 8 }),
+        });
+        expect(progress).toEqual([3 / 7, 5 / 7, 1, 1]);
+    });
+
+    it('replaces an earlier export of the same range', async () => {
+        const directory = exportDirectory();
+        const options = { encoder: new ManifestEncoder(), title: 'clip', directory };
+
+        const first = await exportClip(project, { start: 0, end: 2 }, options);
+        const second = await exportClip(project, { start: 0, end: 2 }, options);
+
+        expect(second.uri).toBe(first.uri);
+        expect(directory.list()).toHaveLength(1);
+    });
+
+    it('rejects a range with nothing in it', async () => {
+        await expect(
+            exportClip(project, { start: 20, end: 30 }, {
+                encoder: new ManifestEncoder(),
+                title: 'clip',
+                directory: exportDirectory(),
+            })
+        ).rejects.toThrow('The range to export is empty');
+    });
+
+    it('stops when cancelled and leaves no file behind', async () => {
+        const directory = exportDirectory();
+        const controller = new AbortController();
+
+        const exporting = exportClip(project, { start: 0, end: 9 }, {
+            encoder: new ManifestEncoder(10),
+            title: 'clip',
+            directory,
+            signal: controller.signal,
+            onProgress: () => controller.abort(),
+        });
+
+        await expect(exporting).rejects.toBeInstanceOf(TaskAbortedError);
+        expect(directory.list()).toEqual([]);
+    });
+
+    it('does not start once already cancelled', async () => {
+        const encoder: ClipEncoder = {
+            extension: 'mp4',
+            mimeType: 'video/mp4',
+            encode: jest.fn(),
+        };
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(
+            exportClip(project, { start: 0, end: 9 }, {
+                encoder,
+                title: 'clip',
+                directory: exportDirectory(),
+                signal: controller.signal,
+            })
+        ).rejects.toBeInstanceOf(TaskAbortedError);
+        expect(encoder.encode).not.toHaveBeenCalled();
+    });
+
+    it('deletes a half-written file when the encoder fails', async () => {
+        const directory = exportDirectory();
+        const encoder: ClipEncoder = {
+            extension: 'mp4',
+            mimeType: 'video/mp4',
+            encode: async (_ranges, outputUri) => {
+                new File(outputUri).write('partial');
+                throw new Error('Encoder crashed');
+            },
+        };
+
+        await expect(
+            exportClip(project, { start: 0, end: 9 }, { encoder, title: 'clip', directory })
+        ).rejects.toThrow('Encoder crashed');
+        expect(directory.list()).toEqual([]);
+    });
+});
+
+describe('NativeClipEncoder', () => {
+    const createModule = () => {
+        let emitProgress: (event: { fraction: number }) => void = () => {};
+        let finish: () => void = () => {};
+        const subscription = { remove: jest.fn() };
+        const module = {
+            exportAsync: jest.fn(() => new Promise<void>((resolve) => (finish = resolve))),
+            cancelAsync: jest.fn(async () => finish()),
+            addListener: jest.fn((_event: 'progress', listener: typeof emitProgress) => {
+                emitProgress = listener;
+                return subscription;
+            }),
+        };
+        return {
+            module,
+            subscription,
+            emit: (fraction: number) => emitProgress({ fraction }),
+            finish: () => finish(),
+        };
+    };
+
+    it('forwards progress events and stops listening when done', async () => {
+        const { module, subscription, emit, finish } = createModule();
+        const progress: number[] = [];
+        const ranges = [{ sourceUri: 'file:///a.mp4', start: 1, end: 2 }];
+
+        const encoding = new NativeClipEncoder(module).encode(ranges, 'file:///out.mp4', {
+            onProgress: (fraction) => progress.push(fraction),
+            signal: new AbortController().signal,
+        });
+        emit(0.25);
+        emit(0.75);
+        finish();
+        await encoding;
+
+        expect(module.exportAsync).toHaveBeenCalledWith(ranges, 'file:///out.mp4');
+        expect(progress).toEqual([0.25, 0.75]);
+        expect(subscription.remove).toHaveBeenCalled();
+        expect(module.cancelAsync).not.toHaveBeenCalled();
+    });
+
+    it('cancels the native export on abort', async () => {
+        const { module } = createModule();
+        const controller = new AbortController();
+
+        const encoding = new NativeClipEncoder(module).encode([], 'file:///out.mp4', {
+            onProgress: () => {},
+            signal: controller.signal,
+        });
+        controller.abort();
+        await encoding;
+
+        expect(module.cancelAsync).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('getClipEncoder', () => {
+    it('is null without the native module, until an encoder is set', () => {
+        expect(getClipEncoder()).toBeNull();
+
+        const encoder = new ManifestEncoder();
+        setClipEncoder(encoder);
+        expect(getClipEncoder()).toBe(encoder);
+
+        setClipEncoder(null);
+        expect(getClipEncoder()).toBeNull();
+    });
+
+    it('wraps the native module when the build includes it', () => {
+        jest.isolateModules(() => {
+            const expo = require('expo');
+            expo.requireOptionalNativeModule.mockReturnValueOnce({});
+            const clipExport: typeof import('../clip-export') = require('../clip-export');
+
+            expect(clipExport.getClipEncoder()).toBeInstanceOf(clipExport.NativeClipEncoder);
+            expect(expo.requireOptionalNativeModule).toHaveBeenCalledWith('ClipEncoder');
+        });
+    });
+});
@@ -0,0 +1,212 @@
+import { createHash } from 'crypto';
+
+import { Directory, File, Paths } from 'expo-file-system';
+
+import {
+    Download,
+    DownloadFetch,
+    DownloadManager,
+    DownloadManagerOptions,
+    DownloadResponse,
+    DownloadStatus,
+} from '../download-manager';
+
+// jest-expo mocks the legacy API; swap in the in-memory File/Directory stand-in
+jest.mock('expo-file-system', () => jest.requireActual('../../__mocks__/expo-file-system'));
+jest.mock('expo/fetch', () => ({ fetch: jest.fn() }));
+
+const URL = 'https://videos.example.com/clip.mp4';
+const CHUNK_SIZE = 1000;
+
+const bytesOf = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 7 + 3) & 0xff);
+
+const base64Md5 = (bytes: Uint8Array) => createHash('md5').update(bytes).digest('base64');
+
+interface ServerOptions {
+    etag?: string;
+    headers?: Record<string, string>;
+    /** Stop sending the first response after this many bytes, until it's aborted. */
+    stallAfter?: number;
+}
+
+/**
+ * Stand-in for an HTTP server holding one file. Honours Range and If-Range,
+ * sends the body in chunks and can stall mid-body like a slow connection.
+ */
+function createServer(content: Uint8Array, options: ServerOptions = {}) {
+    const requests: Record<string, string>[] = [];
+    let onStall = () => {};
+    const stalled = new Promise<void>((resolve) => (onStall = resolve));
+
+    const fetch: DownloadFetch = async (_url, { headers, signal }) => {
+        requests.push(headers);
+        const range = headers.Range?.match(/^bytes=(\d+)-$/);
+        const isCurrent = !headers['If-Range'] || headers['If-Range'] === options.etag;
+        const start = range && isCurrent ? Number(range[1]) : 0;
+        const stallAfter = options.stallAfter;
+        options.stallAfter = undefined;
+
+        if (start >= content.length && range) {
+            return response(416, {}, null);
+        }
+
+        const body = content.subarray(start);
+        let sent = 0;
+        const stream = new ReadableStream<Uint8Array>({
+            async pull(controller) {
+                if (stallAfter !== undefined && sent >= stallAfter) {
+                    onStall();
+                    await new Promise((resolve) => signal.addEventListener('abort', resolve));
+                }
+                if (signal.aborted) {
+                    controller.error(new Error('Aborted'));
+                    return;
+                }
+                const chunk = body.subarray(sent, sent + CHUNK_SIZE);
+                sent += chunk.length;
+                if (chunk.length > 0) controller.enqueue(chunk);
+                if (sent >= body.length) controller.close();
+            },
+        });
+
+        const common = { ...options.headers, ...(options.etag ? { ETag: options.etag } : {}) };
+        return start > 0
+            ? response(206, {
+                  ...common,
+                  'Content-Range': `bytes ${start}-${content.length - 1}/${content.length}`,
+              }, stream)
+            : response(200, { ...common, 'Content-Length': String(content.length) }, stream);
+    };
+
+    return { fetch, requests, stalled };
+}
+
+function response(
+    status: number,
+    headers: Record<string, string>,
+    body: ReadableStream<Uint8Array> | null
+): DownloadResponse {
+    const lower = Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v]));
+    return {
+        status,
+        ok: status >= 200 && status < 300,
+        headers: { get: (name) => lower[name.toLowerCase()] ?? null },
+        body,
+    };
+}
+
+let managerCount = 0;
+
+function createManager(options: DownloadManagerOptions) {
+    return new DownloadManager({
+        directory: new Directory(Paths.document, `downloads-${++managerCount}`),
+        storageName: `downloads-test-${managerCount}`,
+        availableSpace: () => 1024 * 1024 * 1024,
+        ...options,
+    });
+}
+
+/** Resolves with the download once it reaches one of `statuses`. */
+function waitFor(
+    manager: DownloadManager,
+    uri: string,
+    statuses: DownloadStatus[]
+): Promise<Download> {
+    return new Promise((resolve) => {
+        const check = () => {
+            const download = manager.get(uri);
+            if (download && statuses.includes(download.status)) {
+                unsubscribe();
+                resolve(download);
+            }
+        };
+        const unsubscribe = manager.subscribe(check);
+        check();
+    });
+}
+
+const fileBytes = (download: Download) => new File(download.fileUri).bytesSync();
+
+describe('DownloadManager', () => {
+    it('downloads a file and checks it against Content-MD5', async () => {
+        const content = bytesOf(10_500);
+        const server = createServer(content, { headers: { 'Content-MD5': base64Md5(content) } });
+        const manager = createManager({ fetch: server.fetch });
+
+        manager.enqueue(URL);
+        const download = await waitFor(manager, URL, ['completed', 'failed']);
+
+        expect(download.status).toBe('completed');
+        expect(download.md5).toBe(createHash('md5').update(content).digest('hex'));
+        expect(fileBytes(download)).toEqual(content);
+        expect(manager.localUri(URL)).toBe(download.fileUri);
+    });
+
+    it('resumes from the partial file with a range request', async () => {
+        const content = bytesOf(10_500);
+        const server = createServer(content, {
+            etag: '"v1"',
+            stallAfter: 4000,
+            headers: { 'x-goog-hash': `crc32c=AAAAAA==,md5=${base64Md5(content)}` },
+        });
+        const manager = createManager({ fetch: server.fetch });
+
+        manager.enqueue(URL);
+        await server.stalled;
+        manager.pause(URL);
+        const paused = await waitFor(manager, URL, ['paused']);
+        // Let the aborted transfer record what it wrote
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(manager.get(URL)!.bytesWritten).toBe(4000);
+        expect(fileBytes(paused)).toEqual(content.subarray(0, 4000));
+
+        manager.resume(URL);
+        const download = await waitFor(manager, URL, ['completed', 'failed']);
+
+        expect(server.requests[1]).toEqual({ Range: 'bytes=4000-', 'If-Range': '"v1"' });
+        expect(download.status).toBe('completed');
+        expect(download.bytesWritten).toBe(content.length);
+        expect(fileBytes(download)).toEqual(content);
+    });
+
+    it('fails before writing when the file would exceed the quota', async () => {
+        const content = bytesOf(5000);
+        const server = createServer(content);
+        const manager = createManager({ fetch: server.fetch, quotaBytes: 4000 });
+
+        manager.enqueue(URL);
+        const download = await waitFor(manager, URL, ['completed', 'failed']);
+
+        expect(download.status).toBe('failed');
+        expect(download.error).toMatch(/^Not enough storage: needs 4.9 KB, 3.9 KB available$/);
+        expect(new File(download.fileUri).size).toBe(0);
+    });
+
+    it('fails when the device is short on space', async () => {
+        const server = createServer(bytesOf(5000));
+        const manager = createManager({ fetch: server.fetch, availableSpace: () => 0 });
+
+        manager.enqueue(URL);
+        const download = await waitFor(manager, URL, ['completed', 'failed']);
+
+        expect(download.status).toBe('failed');
+        expect(download.error).toMatch(/^Not enough storage/);
+    });
+
+    it('deletes a file that does not match its checksum so a retry starts over', async () => {
+        const content = bytesOf(3000);
+        const server = createServer(content, {
+            headers: { 'Content-MD5': base64Md5(bytesOf(2999)) },
+        });
+        const manager = createManager({ fetch: server.fetch });
+
+        manager.enqueue(URL);
+        const download = await waitFor(manager, URL, ['completed', 'failed']);
+
+        expect(download.status).toBe('failed');
+        expect(download.error).toBe('The downloaded file does not match its checksum');
+        expect(download.bytesWritten).toBe(0);
+        expect(new File(download.fileUri).exists).toBe(false);
+        expect(manager.localUri(URL)).toBeNull();
+    });
+});
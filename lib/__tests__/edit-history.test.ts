@@ -0,0 +1,151 @@
+import { Command, EditHistory } from '../edit-history';
+import { editProject, EMPTY_TIMELINE_STATE, setTrim, TimelineState } from '../timeline-commands';
+import { createProject, splitAt } from '../timeline-project';
+
+const add = (amount: number, coalesceKey?: string): Command<number> => ({
+    label: `Add ${amount}`,
+    coalesceKey,
+    apply: (state) => state + amount,
+    revert: (state) => state - amount,
+});
+
+// A clock the tests move by hand
+function manualClock() {
+    let time = 0;
+    return {
+        now: () => time,
+        advance: (ms: number) => {
+            time += ms;
+        },
+    };
+}
+
+describe('EditHistory', () => {
+    it('undoes and redoes commands in order', () => {
+        const history = new EditHistory(0);
+        history.execute(add(1));
+        history.execute(add(2));
+        expect(history.state).toBe(3);
+
+        expect(history.undo()).toBe(1);
+        expect(history.undo()).toBe(0);
+        expect(history.undo()).toBe(0);
+        expect(history.getSnapshot()).toMatchObject({ canUndo: false, redoLabel: 'Add 1' });
+
+        expect(history.redo()).toBe(1);
+        expect(history.redo()).toBe(3);
+        expect(history.redo()).toBe(3);
+        expect(history.getSnapshot()).toMatchObject({ canRedo: false, undoLabel: 'Add 2' });
+    });
+
+    it('clears the redo stack when a new command runs', () => {
+        const history = new EditHistory(0);
+        history.execute(add(1));
+        history.execute(add(2));
+        history.undo();
+        expect(history.getSnapshot().canRedo).toBe(true);
+
+        history.execute(add(10));
+        expect(history.getSnapshot().canRedo).toBe(false);
+        expect(history.redo()).toBe(11);
+        expect(history.undo()).toBe(1);
+    });
+
+    it('merges commands with the same key inside the coalesce window', () => {
+        const clock = manualClock();
+        const history = new EditHistory(0, { coalesceWindow: 1000, now: clock.now });
+        history.execute(add(1, 'drag'));
+        clock.advance(600);
+        history.execute(add(2, 'drag'));
+        // Each update extends the window from the latest one
+        clock.advance(600);
+        history.execute(add(3, 'drag'));
+        expect(history.state).toBe(6);
+
+        expect(history.undo()).toBe(0);
+        expect(history.getSnapshot().canUndo).toBe(false);
+        expect(history.redo()).toBe(6);
+    });
+
+    it('starts a new step after the window, on another key, or once sealed', () => {
+        const clock = manualClock();
+        const history = new EditHistory(0, { coalesceWindow: 1000, now: clock.now });
+        history.execute(add(1, 'drag'));
+        clock.advance(1001);
+        history.execute(add(2, 'drag'));
+        history.execute(add(4, 'pinch'));
+        history.seal();
+        history.execute(add(8, 'pinch'));
+        history.execute(add(16));
+        history.execute(add(32));
+
+        const steps = [31, 15, 7, 3, 1, 0];
+        steps.forEach((expected) => expect(history.undo()).toBe(expected));
+    });
+
+    it('drops the oldest steps past the limit', () => {
+        const history = new EditHistory(0, { limit: 3 });
+        [1, 2, 4, 8, 16].forEach((amount) => history.execute(add(amount)));
+
+        expect(history.undo()).toBe(15);
+        expect(history.undo()).toBe(7);
+        expect(history.undo()).toBe(3);
+        expect(history.getSnapshot().canUndo).toBe(false);
+        expect(history.undo()).toBe(3);
+    });
+
+    it('notifies subscribers with a fresh snapshot', () => {
+        const history = new EditHistory(0);
+        const listener = jest.fn();
+        const unsubscribe = history.subscribe(listener);
+        const before = history.getSnapshot();
+
+        history.execute(add(1));
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(history.getSnapshot()).not.toBe(before);
+
+        unsubscribe();
+        history.undo();
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('timeline commands', () => {
+    const initial = (): TimelineState => ({
+        ...EMPTY_TIMELINE_STATE,
+        project: createProject('file:///a.mp4', 10),
+    });
+
+    it('coalesces one trim drag into a single undo step', () => {
+        const clock = manualClock();
+        const history = new EditHistory(initial(), { now: clock.now });
+        history.execute(setTrim(history.state, { start: 1, end: 9 }));
+        clock.advance(100);
+        history.execute(setTrim(history.state, { start: 2, end: 8 }));
+        expect(history.state.trim).toEqual({ start: 2, end: 8 });
+
+        expect(history.undo().trim).toBeNull();
+    });
+
+    it('restores the project and refits the trim on undo', () => {
+        const history = new EditHistory(initial());
+        history.execute(setTrim(history.state, { start: 2, end: 8 }));
+        history.seal();
+        const before = history.state.project;
+
+        const command = editProject('Split', history.state, splitAt(before!, 5));
+        expect(command).not.toBeNull();
+        history.execute(command!);
+        expect(history.state.project?.clips).toHaveLength(2);
+        expect(history.state.trim).toEqual({ start: 2, end: 8 });
+
+        const undone = history.undo();
+        expect(undone.project).toBe(before);
+        expect(undone.trim).toEqual({ start: 2, end: 8 });
+    });
+
+    it('skips edits that leave the project unchanged', () => {
+        const state = initial();
+        expect(editProject('Split', state, splitAt(state.project!, 0.01))).toBeNull();
+    });
+});
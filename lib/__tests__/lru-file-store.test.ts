@@ -0,0 +1,159 @@
+import type { File as FileType } from 'expo-file-system';
+
+import type { LruFileStore as LruFileStoreType } from '../lru-file-store';
+
+// jest-expo mocks the legacy API; swap in the in-memory File/Directory stand-in
+jest.mock('expo-file-system', () => jest.requireActual('../../__mocks__/expo-file-system'));
+
+interface Entry {
+    files: (string | null)[];
+    bytes: number;
+}
+
+describe('LruFileStore', () => {
+    // A fresh module registry per test gives an empty disk
+    let LruFileStore: typeof LruFileStoreType;
+    let File: typeof FileType;
+    let onRemove: jest.Mock;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        onRemove = jest.fn();
+        jest.isolateModules(() => {
+            LruFileStore = require('../lru-file-store').LruFileStore;
+            File = require('expo-file-system').File;
+        });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    const open = (maxBytes = 1000, format = 'test-1') =>
+        new LruFileStore<Entry>({
+            directoryName: 'store',
+            format,
+            maxBytes,
+            filesOf: (entry) => entry.files,
+            onRemove,
+        });
+
+    // Writes one file per byte count and adds them as the entry for `key`
+    const add = (store: LruFileStoreType<Entry>, key: string, ...sizes: (number | null)[]) => {
+        const id = store.createId();
+        const files = sizes.map((size, i) => {
+            if (size === null) return null;
+            const name = `${id}_${i}`;
+            new File(store.directory!, name).write(new Uint8Array(size));
+            return name;
+        });
+        store.set(key, { files, bytes: sizes.reduce<number>((sum, size) => sum + (size ?? 0), 0) });
+    };
+
+    // Starts over from what's on disk, like the next app launch
+    const reopen = (maxBytes?: number, format?: string) => {
+        jest.runOnlyPendingTimers();
+        return open(maxBytes, format);
+    };
+
+    const fileNames = (store: LruFileStoreType<Entry>) =>
+        store
+            .directory!.list()
+            .map((item) => item.name)
+            .sort();
+
+    it('evicts the least recently used entries and their files over the budget', () => {
+        const store = open(250);
+        add(store, 'a', 100);
+        add(store, 'b', 50, 50);
+        // Reading a makes b the oldest
+        store.get('a');
+        add(store, 'c', 100);
+
+        expect(store.size).toBe(200);
+        expect(store.get('b')).toBeUndefined();
+        expect(fileNames(store)).toEqual(['1_0', '3_0']);
+        expect(onRemove).toHaveBeenCalledWith('b');
+
+        store.setMaxBytes(100);
+        expect(store.get('a')).toBeUndefined();
+        expect(store.get('c')).toBeDefined();
+        expect(store.size).toBe(100);
+    });
+
+    it('replaces and deletes entries along with their files', () => {
+        const store = open();
+        add(store, 'a', 10);
+        add(store, 'a', 20);
+        expect(store.size).toBe(20);
+        expect(fileNames(store)).toEqual(['2_0']);
+
+        store.delete('a');
+        expect(store.size).toBe(0);
+        expect(fileNames(store)).toEqual([]);
+        expect(onRemove).toHaveBeenCalledTimes(2);
+    });
+
+    it('batches index writes and keeps the order across launches', () => {
+        const store = open();
+        add(store, 'a', 100);
+        add(store, 'b', 100);
+        store.get('a');
+        expect(fileNames(store)).not.toContain('index.json');
+
+        // b is the oldest after the reload too
+        const reopened = reopen(150);
+        expect(reopened.size).toBe(100);
+        expect(reopened.get('b')).toBeUndefined();
+        expect(reopened.get('a')).toEqual({ files: ['1_0'], bytes: 100 });
+        // Ids keep counting so new files don't overwrite old ones
+        expect(reopened.createId()).toBe(3);
+    });
+
+    it('sweeps files the index does not know and entries whose files vanished', () => {
+        const store = open();
+        add(store, 'a', 10, 10);
+        add(store, 'b', 10, null);
+        jest.runOnlyPendingTimers();
+
+        new File(store.directory!, '1_1').delete();
+        new File(store.directory!, 'stray').write('left over');
+
+        const reopened = reopen();
+        expect(reopened.get('a')).toBeUndefined();
+        expect(reopened.get('b')).toEqual({ files: ['2_0', null], bytes: 10 });
+        expect(reopened.size).toBe(10);
+        expect(fileNames(reopened)).toEqual(['2_0', 'index.json']);
+    });
+
+    it('starts empty after a corrupt index or a format change', () => {
+        const store = open();
+        add(store, 'a', 10);
+        jest.runOnlyPendingTimers();
+
+        const changed = reopen(1000, 'test-2');
+        expect(changed.size).toBe(0);
+        expect(changed.get('a')).toBeUndefined();
+        expect(fileNames(changed)).toEqual(['index.json']);
+
+        add(changed, 'b', 10);
+        jest.runOnlyPendingTimers();
+        new File(changed.directory!, 'index.json').write('{not json');
+
+        const corrupt = reopen(1000, 'test-2');
+        expect(corrupt.size).toBe(0);
+        expect(fileNames(corrupt)).toEqual(['index.json']);
+        expect(corrupt.createId()).toBe(1);
+    });
+
+    it('clears every entry and writes the empty index at once', () => {
+        const store = open();
+        add(store, 'a', 10);
+        add(store, 'b', 10);
+        store.clear();
+
+        expect(store.size).toBe(0);
+        expect(fileNames(store)).toEqual(['index.json']);
+        expect(open().size).toBe(0);
+    });
+});
@@ -0,0 +1,159 @@
+import {
+    createMarker,
+    deriveChapters,
+    detectChapterFormat,
+    formatChapters,
+    Marker,
+    parseChapters,
+    parseWebVTTChapters,
+    parseYouTubeChapters,
+    toWebVTTChapters,
+    toYouTubeChapters,
+} from '../markers';
+
+const outline = (markers: Marker[]) => markers.map(({ time, title }) => [time, title]);
+
+const markers = () => [
+    createMarker(95.5, 'Second'),
+    createMarker(0, 'Opening'),
+    createMarker(3725, 'Credits'),
+];
+
+describe('deriveChapters', () => {
+    it('runs each chapter to the next marker and the last one to the end', () => {
+        const chapters = deriveChapters(markers(), 4000);
+
+        expect(chapters.map(({ marker, start, end }) => [marker.title, start, end])).toEqual([
+            ['Opening', 0, 95.5],
+            ['Second', 95.5, 3725],
+            ['Credits', 3725, 4000],
+        ]);
+    });
+
+    it('drops markers at or past the end', () => {
+        expect(deriveChapters(markers(), 3725)).toHaveLength(2);
+    });
+});
+
+describe('WebVTT chapters', () => {
+    it('writes numbered cues', () => {
+        expect(toWebVTTChapters(markers(), 4000)).toBe(
+            'WEBVTT\n\n' +
+                '1\n00:00:00.000 --> 00:01:35.500\nOpening\n\n' +
+                '2\n00:01:35.500 --> 01:02:05.000\nSecond\n\n' +
+                '3\n01:02:05.000 --> 01:06:40.000\nCredits\n'
+        );
+    });
+
+    it('round-trips times and titles', () => {
+        const text = toWebVTTChapters(markers(), 4000);
+
+        expect(outline(parseWebVTTChapters(text))).toEqual([
+            [0, 'Opening'],
+            [95.5, 'Second'],
+            [3725, 'Credits'],
+        ]);
+    });
+
+    it('reads CRLF files, cue ids, multi-line titles and unsorted cues', () => {
+        const text =
+            'WEBVTT\r\n\r\n' +
+            'intro\r\n00:01:00.000 --> 00:02:00.000\r\nPart\r\nTwo\r\n\r\n' +
+            '00:00.000 --> 01:00.000\r\nPart One\r\n';
+
+        expect(outline(parseWebVTTChapters(text))).toEqual([
+            [0, 'Part One'],
+            [60, 'Part Two'],
+        ]);
+    });
+
+    it('skips notes and bad timings, and names untitled cues', () => {
+        const text =
+            'WEBVTT\n\n' +
+            'NOTE exported by hand\n\n' +
+            'nonsense --> 00:00:10.000\nBroken\n\n' +
+            '00:00:10.000 --> 00:00:20.000\n\n' +
+            '00:00:20.000 --> 00:00:30.000\nLast\n';
+
+        expect(outline(parseWebVTTChapters(text))).toEqual([
+            [10, 'Chapter 1'],
+            [20, 'Last'],
+        ]);
+    });
+
+    it('gives neighbouring markers different colors', () => {
+        const [first, second] = parseWebVTTChapters(toWebVTTChapters(markers(), 4000));
+
+        expect(first.color).not.toBe(second.color);
+        expect(first.id).not.toBe(second.id);
+    });
+});
+
+describe('YouTube chapters', () => {
+    it('writes one "time title" line per chapter', () => {
+        expect(toYouTubeChapters(markers(), 4000)).toBe(
+            '00:00 Opening\n01:35 Second\n1:02:05 Credits'
+        );
+    });
+
+    it('adds an intro when the first marker is after 00:00', () => {
+        const text = toYouTubeChapters([createMarker(30, 'Main')], 60);
+
+        expect(text).toBe('00:00 Intro\n00:30 Main');
+    });
+
+    it('round-trips whole seconds', () => {
+        const text = toYouTubeChapters(markers(), 4000);
+
+        expect(outline(parseYouTubeChapters(text))).toEqual([
+            [0, 'Opening'],
+            [95, 'Second'],
+            [3725, 'Credits'],
+        ]);
+    });
+
+    it('reads the usual description styles and ignores other lines', () => {
+        const text = [
+            'Thanks for watching!',
+            '',
+            '(0:00) Start',
+            '[1:05] - Setup',
+            '12:34 – Deep dive',
+            '1:02:03: Wrap up',
+            'Follow me at example.com',
+        ].join('\r\n');
+
+        expect(outline(parseYouTubeChapters(text))).toEqual([
+            [0, 'Start'],
+            [65, 'Setup'],
+            [754, 'Deep dive'],
+            [3723, 'Wrap up'],
+        ]);
+    });
+
+    it('skips impossible times and names untitled lines', () => {
+        const text = '00:00\n01:75 Too many seconds\n1:60:00 Too many minutes\n02:00 End';
+
+        expect(outline(parseYouTubeChapters(text))).toEqual([
+            [0, 'Chapter 1'],
+            [120, 'End'],
+        ]);
+    });
+
+    it('finds nothing in plain text', () => {
+        expect(parseYouTubeChapters('no chapters here\njust words')).toEqual([]);
+    });
+});
+
+describe('chapter format detection', () => {
+    it('tells the formats apart and reads either back', () => {
+        const whole = [createMarker(0, 'Opening'), createMarker(95, 'Second')];
+        const webvtt = formatChapters('webvtt', whole, 200);
+        const youtube = formatChapters('youtube', whole, 200);
+
+        expect(detectChapterFormat(`\n${webvtt}`)).toBe('webvtt');
+        expect(detectChapterFormat(youtube)).toBe('youtube');
+        expect(outline(parseChapters(webvtt))).toEqual(outline(whole));
+        expect(outline(parseChapters(youtube))).toEqual(outline(whole));
+    });
+});
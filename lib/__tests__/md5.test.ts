@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+
+import { base64ToHex, Md5 } from '../md5';
+
+const bytesOf = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+
+describe('Md5', () => {
+    it('matches the RFC 1321 test suite', () => {
+        const hash = (text: string) => new Md5().update(new TextEncoder().encode(text)).digest();
+        expect(hash('')).toBe('d41d8cd98f00b204e9800998ecf8427e');
+        expect(hash('abc')).toBe('900150983cd24fb0d6963f7d28e17f72');
+        expect(hash('message digest')).toBe('f96b697d7cb7938d525a2f31aaf161d0');
+        expect(hash('1234567890'.repeat(8))).toBe('57edf4a22be3c955ac49da2e2107b67a');
+    });
+
+    it('gives the same digest however the bytes are split', () => {
+        for (const length of [0, 55, 56, 63, 64, 65, 119, 120, 1000, 100_003]) {
+            const bytes = bytesOf(length);
+            const expected = createHash('md5').update(bytes).digest('hex');
+
+            const md5 = new Md5();
+            for (let i = 0, size = 1; i < length; i += size, size = (size * 3) % 97 + 1) {
+                md5.update(bytes.subarray(i, i + size));
+            }
+            expect(md5.digest()).toBe(expected);
+        }
+    });
+});
+
+describe('base64ToHex', () => {
+    it('decodes header digests', () => {
+        expect(base64ToHex('1B2M2Y8AsgTpgAmY7PhCfg==')).toBe('d41d8cd98f00b204e9800998ecf8427e');
+    });
+});
@@ -0,0 +1,218 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import {
+    parseDashManifest,
+    parseHlsImagePlaylist,
+    parseHlsMaster,
+    pinDashRendition,
+    pinHlsRendition,
+    resolveUri,
+} from '../stream-manifest';
+
+// jest-expo mocks the legacy API; swap in the in-memory File/Directory stand-in
+jest.mock('expo-file-system', () => jest.requireActual('../../__mocks__/expo-file-system'));
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+const HLS_URI = 'https://media.example.com/vod/movie/master.m3u8?session=1';
+const DASH_URI = 'https://media.example.com/dash/movie/manifest.mpd';
+
+const dashRendition = (text: string, id: string) =>
+    parseDashManifest(text, DASH_URI).renditions.find((rendition) => rendition.id === id)!;
+
+describe('resolveUri', () => {
+    it('keeps absolute references', () => {
+        expect(resolveUri(HLS_URI, 'https://cdn.example.com/a.ts')).toBe(
+            'https://cdn.example.com/a.ts'
+        );
+        expect(resolveUri(HLS_URI, 'data:text/plain,hi')).toBe('data:text/plain,hi');
+    });
+
+    it('resolves scheme- and root-relative references against the origin', () => {
+        expect(resolveUri(HLS_URI, '//cdn.example.com/a.ts')).toBe('https://cdn.example.com/a.ts');
+        expect(resolveUri(HLS_URI, '/other/a.ts?x=1')).toBe(
+            'https://media.example.com/other/a.ts?x=1'
+        );
+    });
+
+    it('resolves relative paths against the directory, dropping the base query', () => {
+        expect(resolveUri(HLS_URI, 'a.ts')).toBe('https://media.example.com/vod/movie/a.ts');
+        expect(resolveUri(HLS_URI, './720p/../480p/a.ts')).toBe(
+            'https://media.example.com/vod/movie/480p/a.ts'
+        );
+        expect(resolveUri(HLS_URI, '../../../../a.ts')).toBe('https://media.example.com/a.ts');
+        expect(resolveUri(DASH_URI, '')).toBe('https://media.example.com/dash/movie/');
+    });
+});
+
+describe('parseHlsMaster', () => {
+    it('lists variants from the highest bandwidth down with absolute URIs', () => {
+        const master = parseHlsMaster(fixture('master.m3u8'), HLS_URI);
+
+        expect(master.renditions).toEqual([
+            {
+                id: '1',
+                bandwidth: 4500000,
+                width: 1920,
+                height: 1080,
+                frameRate: 29.97,
+                uri: 'https://cdn.example.com/vod/1080p/index.m3u8?token=abc',
+            },
+            {
+                id: '2',
+                bandwidth: 2500000,
+                width: 1280,
+                height: 720,
+                frameRate: null,
+                uri: 'https://media.example.com/vod/720p/index.m3u8',
+            },
+            {
+                id: '0',
+                bandwidth: 1200000,
+                width: 854,
+                height: 480,
+                frameRate: 29.97,
+                uri: 'https://media.example.com/vod/movie/480p/index.m3u8',
+            },
+        ]);
+        expect(master.imagePlaylistUri).toBe('https://media.example.com/vod/images/thumbs.m3u8');
+    });
+
+    it('reads CRLF playlists and skips variants without a URI', () => {
+        const text = `${fixture('master.m3u8')}#EXT-X-STREAM-INF:BANDWIDTH=9000000\n`;
+        const master = parseHlsMaster(text.replace(/\n/g, '\r\n'), HLS_URI);
+
+        expect(master.renditions.map((rendition) => rendition.height)).toEqual([1080, 720, 480]);
+    });
+});
+
+describe('parseHlsImagePlaylist', () => {
+    const baseUri = 'https://media.example.com/vod/images/thumbs.m3u8';
+
+    it('splits every sprite into the tiles its segment covers', () => {
+        const tiles = parseHlsImagePlaylist(fixture('thumbs.m3u8'), baseUri);
+
+        // 25 tiles in the full first sheet, 5 in the 12 s tail
+        expect(tiles).toHaveLength(30);
+        expect(tiles[6].start).toBeCloseTo(14.4);
+        expect(tiles[6].image).toEqual({
+            uri: 'https://media.example.com/vod/images/sprite-1.jpg',
+            crop: { x: 320, y: 180, width: 320, height: 180 },
+        });
+        expect(tiles[25].start).toBeCloseTo(60);
+        expect(tiles[25].image.uri).toBe('https://img.example.com/sprite-2.jpg');
+        expect(tiles[29].end).toBeCloseTo(72);
+    });
+
+    it('skips segments before a tile layout', () => {
+        const text = '#EXTM3U\n#EXTINF:10,\nloose.jpg\n' + fixture('thumbs.m3u8');
+        const tiles = parseHlsImagePlaylist(text, baseUri);
+
+        expect(tiles).toHaveLength(30);
+        expect(tiles[0].start).toBe(10);
+    });
+});
+
+describe('pinHlsRendition', () => {
+    it('keeps one variant and makes every URI absolute', () => {
+        const text = fixture('master.m3u8');
+        const [, rendition720] = parseHlsMaster(text, HLS_URI).renditions;
+
+        expect(pinHlsRendition(text, HLS_URI, rendition720)).toBe(
+            [
+                '#EXTM3U',
+                '#EXT-X-VERSION:6',
+                '#EXT-X-INDEPENDENT-SEGMENTS',
+                '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="English",LANGUAGE="en",' +
+                    'DEFAULT=YES,URI="https://media.example.com/vod/movie/audio/en.m3u8"',
+                '#EXT-X-STREAM-INF:BANDWIDTH=2500000,RESOLUTION=1280x720,AUDIO="aac"',
+                'https://media.example.com/vod/720p/index.m3u8',
+                '',
+            ].join('\n')
+        );
+    });
+
+    it('gives a playlist that parses back to the pinned variant', () => {
+        const text = fixture('master.m3u8');
+        const [rendition1080] = parseHlsMaster(text, HLS_URI).renditions;
+        const pinned = pinHlsRendition(text, HLS_URI, rendition1080);
+
+        // The copy is written to disk, so its own location must not matter
+        const reparsed = parseHlsMaster(pinned, 'file:///cache/streams/pinned.m3u8');
+        expect(reparsed.renditions).toEqual([{ ...rendition1080, id: '0' }]);
+        expect(reparsed.imagePlaylistUri).toBeNull();
+    });
+});
+
+describe('parseDashManifest', () => {
+    it('lists video representations from the highest bandwidth down', () => {
+        const manifest = parseDashManifest(fixture('manifest.mpd'), DASH_URI);
+
+        expect(manifest.renditions).toEqual([
+            {
+                id: 'v1080',
+                bandwidth: 5000000,
+                width: 1920,
+                height: 1080,
+                frameRate: 30000 / 1001,
+            },
+            { id: 'v720', bandwidth: 2500000, width: 1280, height: 720, frameRate: 25 },
+            { id: 'v480', bandwidth: 1000000, width: 854, height: 480, frameRate: 25 },
+        ]);
+    });
+
+    it('splits the thumbnail track into tiles under the BaseURL', () => {
+        const { thumbnails } = parseDashManifest(fixture('manifest.mpd'), DASH_URI);
+
+        // 65 s at 2 s per tile: a full 5x5 sheet, then 8 tiles of the second one
+        expect(thumbnails).toHaveLength(33);
+        expect(thumbnails[7]).toEqual({
+            start: 14,
+            end: 16,
+            image: {
+                uri: 'https://media.example.com/dash/movie/media/thumbs/tile_001.jpg',
+                crop: { x: 640, y: 180, width: 320, height: 180 },
+            },
+        });
+        expect(thumbnails[25].image.uri).toBe(
+            'https://media.example.com/dash/movie/media/thumbs/tile_002.jpg'
+        );
+        expect(thumbnails[32].start).toBe(64);
+    });
+
+    it('reads an empty manifest as no renditions', () => {
+        expect(parseDashManifest('<MPD></MPD>', DASH_URI)).toEqual({
+            renditions: [],
+            thumbnails: [],
+        });
+    });
+});
+
+describe('pinDashRendition', () => {
+    it('drops the other video representations and makes the BaseURL absolute', () => {
+        const text = fixture('manifest.mpd');
+        const pinned = pinDashRendition(text, DASH_URI, dashRendition(text, 'v720'));
+
+        expect(pinned).toContain('<BaseURL>https://media.example.com/dash/movie/media/</BaseURL>');
+        expect(pinned).toContain('<Representation id="a1"');
+        expect(pinned).toContain('<Representation id="thumbs"');
+
+        const reparsed = parseDashManifest(pinned, 'file:///cache/streams/pinned.mpd');
+        expect(reparsed.renditions.map((rendition) => rendition.id)).toEqual(['v720']);
+        expect(reparsed.thumbnails[0].image.uri).toBe(
+            'https://media.example.com/dash/movie/media/thumbs/tile_001.jpg'
+        );
+    });
+
+    it('adds a BaseURL pointing next to the original when there is none', () => {
+        const text = fixture('manifest.mpd').replace('  <BaseURL>media/</BaseURL>\n', '');
+        const pinned = pinDashRendition(text, DASH_URI, dashRendition(text, 'v480'));
+
+        expect(pinned).toMatch(
+            /<MPD [^>]*>\n<BaseURL>https:\/\/media\.example\.com\/dash\/movie\/<\/BaseURL>/
+        );
+        expect(pinned).not.toContain('v1080');
+        expect(pinned).not.toContain('v720');
+    });
+});
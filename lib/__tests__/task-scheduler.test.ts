@@ -0,0 +1,173 @@
+import { TaskAbortedError, TaskScheduler, TaskTimeoutError } from '../task-scheduler';
+
+interface Deferred<T> {
+    promise: Promise<T>;
+    resolve: (value: T) => void;
+    reject: (reason: unknown) => void;
+}
+
+function deferred<T>(): Deferred<T> {
+    let resolve!: (value: T) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+}
+
+// Lets settled promises run their callbacks
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('TaskScheduler', () => {
+    it('starts queued tasks by priority, first come first served among equals', async () => {
+        const scheduler = new TaskScheduler(1);
+        const started: string[] = [];
+        const blocker = deferred<void>();
+        const task = (name: string) => () => {
+            started.push(name);
+            return Promise.resolve();
+        };
+
+        const first = scheduler.schedule(() => blocker.promise);
+        const rest = [
+            scheduler.schedule(task('low'), { priority: 0 }),
+            scheduler.schedule(task('high'), { priority: 2 }),
+            scheduler.schedule(task('mid-a'), { priority: 1 }),
+            scheduler.schedule(task('mid-b'), { priority: 1 }),
+        ];
+        expect(started).toEqual([]);
+
+        blocker.resolve();
+        await first;
+        await Promise.all(rest);
+        expect(started).toEqual(['high', 'mid-a', 'mid-b', 'low']);
+    });
+
+    it('never runs more tasks than the concurrency limit', async () => {
+        const scheduler = new TaskScheduler(2);
+        const tasks = [deferred<number>(), deferred<number>(), deferred<number>()];
+        const results = tasks.map((task) => scheduler.schedule(() => task.promise));
+
+        expect(scheduler.active).toBe(2);
+        expect(scheduler.pending).toBe(1);
+
+        tasks[0].resolve(0);
+        await results[0];
+        expect(scheduler.active).toBe(2);
+        expect(scheduler.pending).toBe(0);
+
+        tasks[1].resolve(1);
+        tasks[2].resolve(2);
+        await expect(Promise.all(results)).resolves.toEqual([0, 1, 2]);
+        expect(scheduler.active).toBe(0);
+    });
+
+    it('rejects a task whose signal is already aborted without running it', async () => {
+        const scheduler = new TaskScheduler(1);
+        const controller = new AbortController();
+        controller.abort();
+        const run = jest.fn(() => Promise.resolve());
+
+        await expect(scheduler.schedule(run, { signal: controller.signal })).rejects.toBeInstanceOf(
+            TaskAbortedError
+        );
+        expect(run).not.toHaveBeenCalled();
+    });
+
+    it('drops a queued task that is aborted before it starts', async () => {
+        const scheduler = new TaskScheduler(1);
+        const blocker = deferred<void>();
+        const controller = new AbortController();
+        const run = jest.fn(() => Promise.resolve());
+
+        scheduler.schedule(() => blocker.promise);
+        const queued = scheduler.schedule(run, { signal: controller.signal });
+        controller.abort();
+
+        await expect(queued).rejects.toBeInstanceOf(TaskAbortedError);
+        expect(scheduler.pending).toBe(0);
+        blocker.resolve();
+        await flush();
+        expect(run).not.toHaveBeenCalled();
+    });
+
+    it('aborts a running task and frees its slot right away', async () => {
+        const scheduler = new TaskScheduler(1);
+        const controller = new AbortController();
+        const running = deferred<void>();
+        let taskSignal: AbortSignal | undefined;
+
+        const aborted = scheduler.schedule(
+            (signal) => {
+                taskSignal = signal;
+                return running.promise;
+            },
+            { signal: controller.signal }
+        );
+        const next = deferred<string>();
+        const queued = scheduler.schedule(() => next.promise);
+
+        controller.abort();
+        await expect(aborted).rejects.toBeInstanceOf(TaskAbortedError);
+        expect(taskSignal?.aborted).toBe(true);
+        expect(scheduler.active).toBe(1);
+
+        next.resolve('next');
+        await expect(queued).resolves.toBe('next');
+        // Settling late changes nothing
+        running.resolve();
+        await flush();
+        expect(scheduler.active).toBe(0);
+    });
+
+    it('fails a task that runs past its timeout', async () => {
+        jest.useFakeTimers();
+        try {
+            const scheduler = new TaskScheduler(1);
+            const never = deferred<void>();
+            let taskSignal: AbortSignal | undefined;
+            const result = scheduler.schedule(
+                (signal) => {
+                    taskSignal = signal;
+                    return never.promise;
+                },
+                { timeout: 1000 }
+            );
+
+            jest.advanceTimersByTime(999);
+            expect(taskSignal?.aborted).toBe(false);
+            jest.advanceTimersByTime(1);
+            await expect(result).rejects.toBeInstanceOf(TaskTimeoutError);
+            expect(taskSignal?.aborted).toBe(true);
+            expect(scheduler.active).toBe(0);
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+
+    it('returns runAll results in task order, whichever finishes first', async () => {
+        const scheduler = new TaskScheduler(3);
+        const tasks = [deferred<string>(), deferred<string>(), deferred<string>()];
+        const settled: number[] = [];
+
+        const batch = scheduler.runAll(
+            tasks.map((task) => ({ run: () => task.promise })),
+            { onSettled: (index) => settled.push(index) }
+        );
+
+        tasks[2].resolve('c');
+        await flush();
+        tasks[0].reject(new Error('a'));
+        await flush();
+        tasks[1].resolve('b');
+
+        const results = await batch;
+        expect(settled).toEqual([2, 0, 1]);
+        expect(results).toEqual([
+            { status: 'rejected', reason: new Error('a') },
+            { status: 'fulfilled', value: 'b' },
+            { status: 'fulfilled', value: 'c' },
+        ]);
+    });
+});
@@ -0,0 +1,91 @@
+import type { Directory as DirectoryType, File as FileType } from 'expo-file-system';
+
+import type { ThumbnailCache as ThumbnailCacheType } from '../thumbnail-cache';
+
+// jest-expo mocks the legacy API; swap in the in-memory File/Directory stand-in
+jest.mock('expo-file-system', () => jest.requireActual('../../__mocks__/expo-file-system'));
+
+describe('ThumbnailCache', () => {
+    // A fresh module registry per test gives a fresh singleton and an empty disk
+    let ThumbnailCache: typeof ThumbnailCacheType;
+    let File: typeof FileType;
+    let cacheDirectory: DirectoryType;
+    let sourceDirectory: DirectoryType;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.isolateModules(() => {
+            ThumbnailCache = require('../thumbnail-cache').ThumbnailCache;
+            const fileSystem = require('expo-file-system');
+            File = fileSystem.File;
+            cacheDirectory = new fileSystem.Directory(fileSystem.Paths.cache, 'thumbnails');
+            sourceDirectory = new fileSystem.Directory(fileSystem.Paths.cache, 'generated');
+            sourceDirectory.create();
+        });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    // A generated frame of `bytes` bytes, like getThumbnailAsync leaves in the cache
+    let frameCount = 0;
+    const frame = (bytes: number) => {
+        const file = new File(sourceDirectory, `frame-${++frameCount}.jpg`);
+        file.write(new Uint8Array(bytes).fill(frameCount & 0xff));
+        return file.uri;
+    };
+
+    // Starts over from what's on disk, like the next app launch
+    const relaunch = (maxBytes?: number) => {
+        jest.runOnlyPendingTimers();
+        (ThumbnailCache as unknown as { instance?: ThumbnailCacheType }).instance = undefined;
+        return ThumbnailCache.getInstance({ maxBytes });
+    };
+
+    const fileNames = () =>
+        cacheDirectory
+            .list()
+            .map((item) => item.name)
+            .sort();
+
+    it('copies thumbnails in and keeps failed frames as null', () => {
+        const cache = ThumbnailCache.getInstance();
+        cache.set('strip', [frame(10), null, frame(20)]);
+
+        const uris = cache.get('strip')!;
+        expect(uris[1]).toBeNull();
+        expect(uris.map((uri) => uri && new File(uri).size)).toEqual([10, null, 20]);
+        expect(cache.size).toBe(30);
+        expect(cache.get('other')).toBeUndefined();
+    });
+
+    it('evicts the least recently used strips over the byte budget', () => {
+        const cache = ThumbnailCache.getInstance({ maxBytes: 250 });
+        cache.set('a', [frame(100)]);
+        cache.set('b', [frame(100)]);
+        // Reading a makes b the oldest
+        cache.get('a');
+        cache.set('c', [frame(100)]);
+
+        expect(cache.size).toBe(200);
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.get('a')).toBeDefined();
+        expect(cache.get('c')).toBeDefined();
+        expect(fileNames()).toEqual(['1_0.jpg', '3_0.jpg']);
+
+        cache.setMaxBytes(100);
+        expect(cache.get('a')).toBeUndefined();
+        expect(cache.size).toBe(100);
+        expect(fileNames()).toEqual(['3_0.jpg']);
+    });
+
+    it('keeps the strips across launches', () => {
+        const cache = ThumbnailCache.getInstance();
+        cache.set('strip', [frame(10), null]);
+
+        const uris = relaunch().get('strip')!;
+        expect(uris[1]).toBeNull();
+        expect(new File(uris[0]!).size).toBe(10);
+    });
+});
@@ -0,0 +1,37 @@
+import { coarseToFineOrder } from '../thumbnail-order';
+
+const sorted = (order: number[]) => [...order].sort((a, b) => a - b);
+
+describe('coarseToFineOrder', () => {
+    it('starts with the ends and the middle, then bisects each gap', () => {
+        expect(coarseToFineOrder(9)).toEqual([0, 4, 8, 2, 6, 1, 3, 5, 7]);
+    });
+
+    it('puts frames near the focus first within each level', () => {
+        const order = coarseToFineOrder(9, 8);
+
+        expect(order.slice(0, 3)).toEqual([8, 4, 0]);
+        expect(order.slice(3, 5)).toEqual([6, 2]);
+        expect(order.slice(5)).toEqual([7, 5, 3, 1]);
+    });
+
+    it('breaks ties toward the earlier frame', () => {
+        expect(coarseToFineOrder(9, 4).slice(0, 5)).toEqual([4, 0, 8, 2, 6]);
+    });
+
+    it('lists every index exactly once', () => {
+        for (const count of [1, 2, 3, 4, 5, 10, 17, 64, 100]) {
+            for (const focus of [0, Math.floor(count / 3), count - 1]) {
+                const order = coarseToFineOrder(count, focus);
+                expect(sorted(order)).toEqual(Array.from({ length: count }, (_, i) => i));
+            }
+        }
+    });
+
+    it('handles tiny and empty strips', () => {
+        expect(coarseToFineOrder(0)).toEqual([]);
+        expect(coarseToFineOrder(-3)).toEqual([]);
+        expect(coarseToFineOrder(1)).toEqual([0]);
+        expect(coarseToFineOrder(2, 1)).toEqual([1, 0]);
+    });
+});
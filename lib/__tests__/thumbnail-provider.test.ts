@@ -0,0 +1,143 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import { Directory, File, Paths } from 'expo-file-system';
+
+import { gridTiles, tileAt } from '../sprite-tiles';
+import {
+    loadWebVTTThumbnails,
+    parseWebVTTThumbnails,
+    SpriteSheetProvider,
+} from '../thumbnail-provider';
+
+// jest-expo mocks the legacy API; swap in the in-memory File/Directory stand-in
+jest.mock('expo-file-system', () => jest.requireActual('../../__mocks__/expo-file-system'));
+jest.mock('expo-video-thumbnails', () => ({ getThumbnailAsync: jest.fn() }));
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name));
+
+// Width and height from a PNG's IHDR chunk
+const pngSize = (bytes: Uint8Array) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+};
+
+describe('loadWebVTTThumbnails', () => {
+    const directory = new Directory(Paths.document, 'thumbs');
+
+    beforeAll(() => {
+        directory.create({ intermediates: true });
+        new File(directory, 'thumbnails.vtt').write(new Uint8Array(fixture('thumbnails.vtt')));
+        new File(directory, 'sprite.png').write(new Uint8Array(fixture('sprite.png')));
+    });
+
+    it('reads a local track and points every tile into the sprite next to it', async () => {
+        const tiles = await loadWebVTTThumbnails(new File(directory, 'thumbnails.vtt').uri);
+
+        expect(tiles.map(({ start, end }) => [start, end])).toEqual([
+            [0, 5],
+            [5, 10],
+            [10, 15],
+            [25, 30],
+        ]);
+        const sprite = new File(directory, 'sprite.png');
+        const { width, height } = pngSize(sprite.bytesSync());
+        for (const { image } of tiles) {
+            expect(image.uri).toBe(sprite.uri);
+            expect(image.crop).toBeDefined();
+            const crop = image.crop!;
+            expect(crop.x + crop.width).toBeLessThanOrEqual(width);
+            expect(crop.y + crop.height).toBeLessThanOrEqual(height);
+        }
+        expect(tiles.map(({ image }) => image.crop)).toEqual([
+            { x: 0, y: 0, width: 160, height: 90 },
+            { x: 160, y: 0, width: 160, height: 90 },
+            { x: 0, y: 90, width: 160, height: 90 },
+            { x: 160, y: 90, width: 160, height: 90 },
+        ]);
+    });
+});
+
+describe('parseWebVTTThumbnails', () => {
+    const track = (...cues: string[]) => `WEBVTT\n\n${cues.join('\n\n')}\n`;
+
+    it('resolves image references against the track URL', () => {
+        const tiles = parseWebVTTThumbnails(
+            track(
+                '00:00.000 --> 00:05.000\nsprites/a.jpg#xywh=0,0,10,10',
+                '00:05.000 --> 00:10.000\n../b.jpg',
+                '00:10.000 --> 00:15.000\n/c.jpg',
+                '00:15.000 --> 00:20.000\nhttps://img.example.com/d.jpg'
+            ),
+            'https://cdn.example.com/video/1/thumbs.vtt?token=x'
+        );
+
+        expect(tiles.map(({ image }) => image.uri)).toEqual([
+            'https://cdn.example.com/video/1/sprites/a.jpg',
+            'https://cdn.example.com/video/b.jpg',
+            'https://cdn.example.com/c.jpg',
+            'https://img.example.com/d.jpg',
+        ]);
+        // Whole images have no crop
+        expect(tiles[1].image).toEqual({ uri: 'https://cdn.example.com/video/b.jpg' });
+    });
+
+    it('skips cues without an image, with bad timings or an empty region', () => {
+        const tiles = parseWebVTTThumbnails(
+            track(
+                '00:00.000 --> 00:05.000',
+                'soon --> later\na.jpg',
+                '00:10.000 --> 00:05.000\na.jpg',
+                '00:15.000 --> 00:20.000\na.jpg#xywh=0,0,0,90'
+            ),
+            'https://cdn.example.com/thumbs.vtt'
+        );
+
+        expect(tiles).toEqual([
+            { start: 15, end: 20, image: { uri: 'https://cdn.example.com/a.jpg' } },
+        ]);
+    });
+
+    it('sorts cues by start time and accepts CRLF line endings', () => {
+        const text = track('00:05.000 --> 00:10.000\nb.jpg', '00:00.000 --> 00:05.000\na.jpg');
+        const tiles = parseWebVTTThumbnails(text.replace(/\n/g, '\r\n'), 'file:///t/x.vtt');
+        expect(tiles.map(({ image }) => image.uri)).toEqual(['file:///t/a.jpg', 'file:///t/b.jpg']);
+    });
+});
+
+describe('SpriteSheetProvider', () => {
+    const tiles = gridTiles({
+        uri: 'sprite.png',
+        start: 0,
+        tileDuration: 5,
+        columns: 2,
+        rows: 2,
+        tileWidth: 160,
+        tileHeight: 90,
+        count: 3,
+    });
+
+    it('cuts the used tiles of a grid row by row', () => {
+        expect(tiles.map(({ start, image }) => [start, image.crop?.x, image.crop?.y])).toEqual([
+            [0, 0, 0],
+            [5, 160, 0],
+            [10, 0, 90],
+        ]);
+    });
+
+    it('falls back to the nearest tile where tiles are missing', async () => {
+        const withGap = [tiles[0], { ...tiles[2], start: 20, end: 25 }];
+        const provider = new SpriteSheetProvider(withGap);
+
+        expect((await provider.getThumbnail(2)).crop?.x).toBe(0);
+        expect(tileAt(withGap, 9)).toBe(withGap[0]);
+        expect(tileAt(withGap, 16)).toBe(withGap[1]);
+        expect((await provider.getThumbnail(60)).crop?.y).toBe(90);
+    });
+
+    it('rejects when there are no tiles at all', async () => {
+        await expect(new SpriteSheetProvider([]).getThumbnail(0)).rejects.toThrow(
+            'No thumbnail tiles'
+        );
+    });
+});
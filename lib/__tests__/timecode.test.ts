@@ -0,0 +1,89 @@
+import {
+    formatTimecode,
+    frameToSmpte,
+    frameToTime,
+    parseClockTime,
+    parseTimecode,
+    smpteToFrame,
+    timeToFrame,
+} from '../timecode';
+
+const NTSC = 30000 / 1001;
+const NTSC_FILM = 24000 / 1001;
+
+describe('SMPTE timecode', () => {
+    it('labels frames at the nominal rate for whole rates', () => {
+        expect(frameToSmpte(0, 25)).toBe('00:00:00:00');
+        expect(frameToSmpte(24, 25)).toBe('00:00:00:24');
+        expect(frameToSmpte(25 * 3661 + 7, 25)).toBe('01:01:01:07');
+    });
+
+    it('counts frames at the real rate and labels them at the nominal one', () => {
+        // One real second at 23.976 fps is not quite 24 frames
+        expect(formatTimecode(1, 'smpte', NTSC_FILM)).toBe('00:00:00:23');
+        expect(formatTimecode(frameToTime(24, NTSC_FILM), 'smpte', NTSC_FILM)).toBe(
+            '00:00:01:00'
+        );
+    });
+
+    it('skips two labels each minute but every tenth at 29.97 fps', () => {
+        expect(frameToSmpte(1799, NTSC)).toBe('00:00:59;29');
+        expect(frameToSmpte(1800, NTSC)).toBe('00:01:00;02');
+        expect(frameToSmpte(3597, NTSC)).toBe('00:01:59;29');
+        expect(frameToSmpte(3598, NTSC)).toBe('00:02:00;02');
+        expect(frameToSmpte(17981, NTSC)).toBe('00:09:59;29');
+        expect(frameToSmpte(17982, NTSC)).toBe('00:10:00;00');
+        expect(frameToSmpte(17982 * 6, NTSC)).toBe('01:00:00;00');
+    });
+
+    it('keeps up with the clock over an hour at 29.97 fps', () => {
+        expect(formatTimecode(3600, 'smpte', NTSC)).toBe('01:00:00;00');
+    });
+
+    it('rejects the labels a drop-frame rate never uses', () => {
+        expect(smpteToFrame(0, 1, 0, 0, NTSC)).toBeNull();
+        expect(smpteToFrame(0, 1, 0, 1, NTSC)).toBeNull();
+        expect(smpteToFrame(0, 1, 0, 2, NTSC)).toBe(1800);
+        expect(smpteToFrame(0, 10, 0, 0, NTSC)).toBe(17982);
+        expect(parseTimecode('00:01:00;00', 'smpte', NTSC)).toBeNull();
+    });
+
+    it('rejects fields out of range', () => {
+        expect(parseTimecode('00:60:00:00', 'smpte', 25)).toBeNull();
+        expect(parseTimecode('00:00:60:00', 'smpte', 25)).toBeNull();
+        expect(parseTimecode('00:00:00:25', 'smpte', 25)).toBeNull();
+    });
+
+    it.each([
+        ['23.976', NTSC_FILM],
+        ['24', 24],
+        ['25', 25],
+        ['29.97', NTSC],
+        ['59.94', 60000 / 1001],
+    ])('round-trips parse, seek and format at %s fps', (_, frameRate) => {
+        for (let frame = 0; frame < 40000; frame += 37) {
+            const text = frameToSmpte(frame, frameRate);
+            const time = parseTimecode(text, 'smpte', frameRate);
+            expect(time).not.toBeNull();
+            expect(timeToFrame(time!, frameRate)).toBe(frame);
+            expect(formatTimecode(time!, 'smpte', frameRate)).toBe(text);
+        }
+    });
+});
+
+describe('parseTimecode', () => {
+    it('takes frame numbers in frames mode and clock times otherwise', () => {
+        expect(timeToFrame(parseTimecode('48', 'frames', 24)!, 24)).toBe(48);
+        expect(parseTimecode('1:30', 'clock', 24)).toBe(90);
+        expect(parseTimecode('nope', 'smpte', 24)).toBeNull();
+    });
+});
+
+describe('parseClockTime', () => {
+    it('reads minutes with one colon and hours with two', () => {
+        expect(parseClockTime('90')).toBe(90);
+        expect(parseClockTime('1:02.5')).toBe(62.5);
+        expect(parseClockTime('1:02:03,25')).toBe(3723.25);
+        expect(parseClockTime('1:75')).toBeNull();
+    });
+});
@@ -0,0 +1,108 @@
+import {
+    Clip,
+    clipAtTime,
+    createProject,
+    moveClip,
+    Project,
+    projectDuration,
+    rippleDelete,
+    splitAt,
+} from '../timeline-project';
+
+const clip = (id: string, sourceIn: number, sourceOut: number, start: number): Clip => ({
+    id,
+    sourceUri: `file:///${id}.mp4`,
+    sourceIn,
+    sourceOut,
+    start,
+});
+
+// a: 0-4, b: 4-6, c: 6-9 on the sequence
+const threeClips = (): Project => ({
+    clips: [clip('a', 0, 4, 0), clip('b', 10, 12, 4), clip('c', 2, 5, 6)],
+});
+
+const layout = (project: Project) =>
+    project.clips.map(({ id, sourceIn, sourceOut, start }) => [id, sourceIn, sourceOut, start]);
+
+describe('splitAt', () => {
+    it('cuts the clip under the time into two back-to-back clips', () => {
+        const project = splitAt(threeClips(), 5);
+
+        expect(project.clips).toHaveLength(4);
+        const [, head, tail] = project.clips;
+        expect([head.id, head.sourceIn, head.sourceOut, head.start]).toEqual(['b', 10, 11, 4]);
+        expect(tail.id).not.toBe('b');
+        expect([tail.sourceIn, tail.sourceOut, tail.start]).toEqual([11, 12, 5]);
+        expect(tail.sourceUri).toBe(head.sourceUri);
+        expect(projectDuration(project)).toBe(9);
+    });
+
+    it('leaves the project alone next to a clip edge', () => {
+        const project = threeClips();
+        expect(splitAt(project, 4.05)).toBe(project);
+        expect(splitAt(project, 5.95)).toBe(project);
+    });
+
+    it('leaves the project alone in a gap or past the end', () => {
+        const project: Project = { clips: [clip('a', 0, 2, 0), clip('b', 0, 2, 5)] };
+        expect(splitAt(project, 3)).toBe(project);
+        expect(splitAt(project, 10)).toBe(project);
+    });
+});
+
+describe('rippleDelete', () => {
+    it('removes the clip and pulls later clips left by its duration', () => {
+        expect(layout(rippleDelete(threeClips(), 'b'))).toEqual([
+            ['a', 0, 4, 0],
+            ['c', 2, 5, 4],
+        ]);
+    });
+
+    it('keeps gaps between the clips that stay', () => {
+        const project: Project = {
+            clips: [clip('a', 0, 2, 0), clip('b', 0, 1, 3), clip('c', 0, 2, 6)],
+        };
+        expect(layout(rippleDelete(project, 'a'))).toEqual([
+            ['b', 0, 1, 1],
+            ['c', 0, 2, 4],
+        ]);
+    });
+
+    it('returns the same project for an unknown clip', () => {
+        const project = threeClips();
+        expect(rippleDelete(project, 'missing')).toBe(project);
+    });
+});
+
+describe('moveClip', () => {
+    it('reorders the clips and packs them from zero', () => {
+        expect(layout(moveClip(threeClips(), 'c', 0))).toEqual([
+            ['c', 2, 5, 0],
+            ['a', 0, 4, 3],
+            ['b', 10, 12, 7],
+        ]);
+    });
+
+    it('clamps the target index to the sequence', () => {
+        expect(layout(moveClip(threeClips(), 'a', 10)).map(([id]) => id)).toEqual(['b', 'c', 'a']);
+    });
+
+    it('returns the same project when nothing moves', () => {
+        const project = threeClips();
+        expect(moveClip(project, 'b', 1)).toBe(project);
+        expect(moveClip(project, 'missing', 0)).toBe(project);
+    });
+});
+
+describe('clipAtTime', () => {
+    it('maps sequence time to the clip and its source time', () => {
+        const location = clipAtTime(threeClips(), 7.5);
+        expect(location?.clip.id).toBe('c');
+        expect(location?.sourceTime).toBe(3.5);
+    });
+
+    it('returns null past the end of a fresh project', () => {
+        expect(clipAtTime(createProject('file:///a.mp4', 5), 5)).toBeNull();
+    });
+});
@@ -0,0 +1,139 @@
+import { File, Paths } from 'expo-file-system';
+
+import { computePeaks, PcmAudio, PeakReducer, reducePeaks, resamplePeaks } from '../waveform';
+import type { WaveformCache as WaveformCacheType } from '../waveform-cache';
+
+// jest-expo mocks the legacy API; swap in the in-memory File/Directory stand-in
+jest.mock('expo-file-system', () => jest.requireActual('../../__mocks__/expo-file-system'));
+
+// 1000 Hz, so each of the 50 peaks per second covers 20 samples
+const SAMPLE_RATE = 1000;
+
+const ramp = (length: number, scale = 1): Float32Array =>
+    Float32Array.from({ length }, (_, i) => (((i % 20) + 1) / 20) * scale * (i % 2 ? -1 : 1));
+
+const pcm = (channels: Float32Array[]): PcmAudio => ({
+    numberOfChannels: channels.length,
+    sampleRate: SAMPLE_RATE,
+    length: channels[0].length,
+    getChannelData: (channel) => channels[channel],
+});
+
+describe('PeakReducer', () => {
+    it('takes the loudest sample across channels for each peak', () => {
+        const left = new Float32Array(40);
+        const right = new Float32Array(40);
+        left[3] = 0.5;
+        right[25] = -1;
+        left[30] = 0.25;
+
+        expect([...computePeaks([left, right], SAMPLE_RATE)]).toEqual([128, 255]);
+    });
+
+    it('gives the same peaks however the samples are chunked', () => {
+        const samples = ramp(1234);
+        const whole = computePeaks([samples], SAMPLE_RATE);
+
+        const reducer = new PeakReducer(SAMPLE_RATE);
+        let offset = 0;
+        for (const size of [1, 7, 19, 20, 21, 500, 666]) {
+            reducer.push([samples.subarray(offset, offset + size)]);
+            offset += size;
+        }
+
+        expect(whole).toHaveLength(62);
+        expect([...reducer.finish()]).toEqual([...whole]);
+    });
+
+    it('keeps a partial last peak and returns no peaks for no samples', () => {
+        expect(computePeaks([ramp(41)], SAMPLE_RATE)).toHaveLength(3);
+        expect(computePeaks([new Float32Array(0)], SAMPLE_RATE)).toHaveLength(0);
+    });
+});
+
+describe('reducePeaks', () => {
+    it('reduces decoded audio in chunks without blocking, matching one pass', async () => {
+        const channels = [ramp(200_000, 0.5), ramp(200_000, 0.8)];
+        let ticks = 0;
+        const timer = setInterval(() => ticks++, 0);
+        try {
+            const peaks = await reducePeaks(pcm(channels));
+            expect([...peaks]).toEqual([...computePeaks(channels, SAMPLE_RATE)]);
+        } finally {
+            clearInterval(timer);
+        }
+        // Other work got to run while the track was being reduced
+        expect(ticks).toBeGreaterThan(0);
+    });
+});
+
+describe('resamplePeaks', () => {
+    it('normalizes bars to the loudest peak of the track', () => {
+        const peaks = Uint8Array.from([50, 100, 200, 100]);
+        expect(resamplePeaks(peaks, 0, 0.08, 2)).toEqual([0.5, 1]);
+        expect(resamplePeaks(peaks, 0.02, 0.04, 1)).toEqual([0.5]);
+        expect(resamplePeaks(peaks, 0, 0, 4)).toEqual([]);
+    });
+});
+
+describe('WaveformCache', () => {
+    // A fresh module registry per test gives a fresh singleton and an empty disk
+    let WaveformCache: typeof WaveformCacheType;
+    let FileClass: typeof File;
+    let cacheDirectory: string;
+
+    beforeEach(() => {
+        jest.isolateModules(() => {
+            WaveformCache = require('../waveform-cache').WaveformCache;
+            const fileSystem: { File: typeof File; Paths: typeof Paths } =
+                require('expo-file-system');
+            FileClass = fileSystem.File;
+            cacheDirectory = `${fileSystem.Paths.cache.uri}/waveforms`;
+        });
+    });
+
+    const peaks = (bytes: number, value = 1) => new Uint8Array(bytes).fill(value);
+
+    it('stores peaks on disk and reads them back', () => {
+        const cache = WaveformCache.getInstance({ maxBytes: 1000 });
+        cache.set('a.mp4', peaks(100, 7));
+
+        expect(cache.size).toBe(100);
+        expect([...cache.get('a.mp4')!]).toEqual([...peaks(100, 7)]);
+        expect(cache.get('b.mp4')).toBeUndefined();
+    });
+
+    it('evicts the least recently used sources over the byte budget', () => {
+        const cache = WaveformCache.getInstance({ maxBytes: 250 });
+        cache.set('a.mp4', peaks(100));
+        cache.set('b.mp4', peaks(100));
+        // Reading a makes b the oldest
+        cache.get('a.mp4');
+        cache.set('c.mp4', peaks(100));
+
+        expect(cache.size).toBe(200);
+        // Gone from memory too, not just from disk
+        expect(cache.get('b.mp4')).toBeUndefined();
+        expect(cache.get('a.mp4')).toBeDefined();
+        expect(cache.get('c.mp4')).toBeDefined();
+
+        cache.setMaxBytes(100);
+        expect(cache.get('a.mp4')).toBeUndefined();
+        expect(cache.size).toBe(100);
+    });
+
+    it('gives every entry its own file and deletes replaced ones', () => {
+        const cache = WaveformCache.getInstance();
+        cache.set('a.mp4', peaks(10, 1));
+        cache.set('b.mp4', peaks(10, 2));
+        cache.set('a.mp4', peaks(10, 3));
+
+        expect(new FileClass(cacheDirectory, '1.peaks').exists).toBe(false);
+        expect([...new FileClass(cacheDirectory, '2.peaks').bytesSync()]).toEqual([
+            ...peaks(10, 2),
+        ]);
+        expect([...new FileClass(cacheDirectory, '3.peaks').bytesSync()]).toEqual([
+            ...peaks(10, 3),
+        ]);
+    });
+});
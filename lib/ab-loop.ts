@@ -0,0 +1,48 @@
+/**
+ * A/B loop regions set by picking two points on the timeline. Unlike the trim
+ * selection this is a playback aid, not an edit, so it isn't part of the
+ * undo history.
+ */
+
+import type { TrimRange } from './timeline-project';
+
+// Two picks closer than this cancel instead of making an unusable loop
+export const MIN_LOOP_DURATION = 0.2;
+
+/** Pause before jumping back to A, in seconds. */
+export const COUNT_IN_OPTIONS = [0, 1, 2, 3];
+
+// Landing slightly before A after a seek still counts as inside the loop
+const LOOP_START_TOLERANCE = 0.25;
+
+export interface LoopPoints {
+    /** A, picked and waiting for B. */
+    pending: number | null;
+    loop: TrimRange | null;
+}
+
+export const EMPTY_LOOP_POINTS: LoopPoints = { pending: null, loop: null };
+
+/** The first pick sets A (dropping any previous loop), the second sets B. */
+export function addLoopPoint(points: LoopPoints, time: number): LoopPoints {
+    if (points.pending === null) {
+        return { pending: time, loop: null };
+    }
+
+    const start = Math.min(points.pending, time);
+    const end = Math.max(points.pending, time);
+    if (end - start < MIN_LOOP_DURATION) return EMPTY_LOOP_POINTS;
+    return { pending: null, loop: { start, end } };
+}
+
+/**
+ * True when playback crossed B from inside the loop. Positions reached by
+ * seeking elsewhere don't trigger, so scrubbing outside the loop still works.
+ */
+export function hasPassedLoopEnd(loop: TrimRange, previous: number, time: number): boolean {
+    const wasInside = previous >= loop.start - LOOP_START_TOLERANCE && previous < loop.end;
+    return wasInside && time >= loop.end;
+}
+
+export const nextCountIn = (countIn: number): number =>
+    COUNT_IN_OPTIONS[(COUNT_IN_OPTIONS.indexOf(countIn) + 1) % COUNT_IN_OPTIONS.length];
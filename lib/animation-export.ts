@@ -0,0 +1,339 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { applyPalette, GIFEncoder, quantize } from 'gifenc';
+import { decode as decodeJpeg } from 'jpeg-js';
+
+import { ExportRange, exportRanges, rangesDuration } from './clip-export';
+import { IS_LOW_END_DEVICE } from './device';
+import type { FrameSize } from './frame-grab';
+import { TaskAbortedError } from './task-scheduler';
+import { VideoFrameProvider } from './thumbnail-provider';
+import { Project, TrimRange } from './timeline-project';
+import { formatFileTime } from './timecode';
+import { fileNameFromTitle } from './video-source';
+
+/**
+ * Animated GIF / WebP of a short timeline range.
+ *
+ * Frames are sampled at the chosen fps through the same on-device decoder
+ * as the timeline thumbnails, scaled to the output size and encoded one at a
+ * time, so only a single decoded frame is in memory at once. GIF frames go
+ * through JPEG -> RGBA -> a 256 colour palette; WebP frames are encoded as
+ * stills by the image manipulator and muxed into an animated WebP container.
+ * The frame count is capped, lower on low-end devices.
+ */
+
+export type AnimationFormat = 'gif' | 'webp';
+
+export interface AnimationSettings {
+    format: AnimationFormat;
+    fps: number;
+    /** Output width in pixels; the height follows the video's aspect ratio. */
+    width: number;
+}
+
+export interface AnimationResult extends FrameSize {
+    uri: string;
+    fileName: string;
+    mimeType: string;
+    bytes: number;
+    frameCount: number;
+}
+
+export interface AnimationExportOptions {
+    /** Source title, used for the file name. */
+    title: string;
+    /** The video's own size, for the aspect ratio; 16:9 when unknown. */
+    sourceSize?: FrameSize | null;
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+    directory?: Directory;
+}
+
+/** One frame to decode: a source and a time in it, in seconds. */
+export interface FrameSample {
+    sourceUri: string;
+    time: number;
+}
+
+export class AnimationFrameLimitError extends Error {
+    constructor(frameCount: number) {
+        super(
+            `${frameCount} frames is over the limit of ${MAX_ANIMATION_FRAMES}; ` +
+                'shorten the range or lower the frame rate'
+        );
+        this.name = 'AnimationFrameLimitError';
+    }
+}
+
+export const ANIMATION_FORMATS: AnimationFormat[] = ['gif', 'webp'];
+export const ANIMATION_FPS = [5, 10, 15];
+export const ANIMATION_WIDTHS = [240, 320, 480];
+
+export const DEFAULT_ANIMATION_SETTINGS: AnimationSettings = { format: 'gif', fps: 10, width: 320 };
+
+// Every frame is decoded and encoded in memory; keep long ranges off weak devices
+export const MAX_ANIMATION_FRAMES = IS_LOW_END_DEVICE ? 60 : 150;
+
+// Rough output bytes per pixel per frame, measured on typical footage
+const GIF_BYTES_PER_PIXEL = 0.5;
+const WEBP_BYTES_PER_PIXEL = 0.08;
+
+const WEBP_QUALITY = 0.8;
+// Intermediate JPEG for GIF frames; the palette loses far more than this
+const GIF_SOURCE_QUALITY = 0.9;
+
+const ANIMATION_DIRECTORY_NAME = 'animations';
+
+const MIME_TYPES: Record<AnimationFormat, string> = { gif: 'image/gif', webp: 'image/webp' };
+
+/** Output size for a width, keeping the source's aspect ratio (even dimensions). */
+export function animationSize(width: number, sourceSize?: FrameSize | null): FrameSize {
+    const aspect =
+        sourceSize && sourceSize.width > 0 && sourceSize.height > 0
+            ? sourceSize.height / sourceSize.width
+            : 9 / 16;
+    return { width, height: Math.max(2, Math.round((width * aspect) / 2) * 2) };
+}
+
+export const animationFrameCount = (duration: number, fps: number): number =>
+    duration > 0 ? Math.max(1, Math.floor(duration * fps)) : 0;
+
+/** Expected file size in bytes; a ballpark for the UI, not a promise. */
+export function estimateAnimationBytes(
+    format: AnimationFormat,
+    { width, height }: FrameSize,
+    frameCount: number
+): number {
+    const perPixel = format === 'gif' ? GIF_BYTES_PER_PIXEL : WEBP_BYTES_PER_PIXEL;
+    return Math.round(width * height * perPixel * frameCount);
+}
+
+/** Source times to decode at `fps` across the ranges, one per output frame. */
+export function sampleFrames(ranges: ExportRange[], fps: number): FrameSample[] {
+    const samples: FrameSample[] = [];
+    const count = animationFrameCount(rangesDuration(ranges), fps);
+    let rangeIndex = 0;
+    let rangeOffset = 0;
+    for (let i = 0; i < count; i++) {
+        const offset = i / fps;
+        while (
+            rangeIndex < ranges.length - 1 &&
+            offset >= rangeOffset + ranges[rangeIndex].end - ranges[rangeIndex].start
+        ) {
+            rangeOffset += ranges[rangeIndex].end - ranges[rangeIndex].start;
+            rangeIndex++;
+        }
+        const range = ranges[rangeIndex];
+        samples.push({
+            sourceUri: range.sourceUri,
+            time: Math.min(range.end, range.start + offset - rangeOffset),
+        });
+    }
+    return samples;
+}
+
+/** Encodes `range` of the sequence into an animated GIF or WebP in the cache. */
+export async function exportAnimation(
+    project: Project,
+    range: TrimRange,
+    settings: AnimationSettings,
+    options: AnimationExportOptions
+): Promise<AnimationResult> {
+    const { onProgress, signal } = options;
+    const samples = sampleFrames(exportRanges(project, range), settings.fps);
+    if (samples.length === 0) throw new Error('The range to export is empty');
+    if (samples.length > MAX_ANIMATION_FRAMES) {
+        throw new AnimationFrameLimitError(samples.length);
+    }
+
+    const size = animationSize(settings.width, options.sourceSize);
+    const delay = Math.round(1000 / settings.fps);
+    const providers = new Map<string, VideoFrameProvider>();
+    const gif = settings.format === 'gif' ? GIFEncoder() : null;
+    const webpFrames: WebpFrame[] = [];
+
+    for (let i = 0; i < samples.length; i++) {
+        if (signal?.aborted) throw new TaskAbortedError();
+        const { sourceUri, time } = samples[i];
+        let provider = providers.get(sourceUri);
+        if (!provider) {
+            provider = new VideoFrameProvider(sourceUri, 1);
+            providers.set(sourceUri, provider);
+        }
+
+        const bytes = await renderFrame(provider, time, size, settings.format);
+        if (gif) {
+            const frame = decodeJpeg(bytes, { useTArray: true, formatAsRGBA: true });
+            const palette = quantize(frame.data, 256);
+            gif.writeFrame(applyPalette(frame.data, palette), frame.width, frame.height, {
+                palette,
+                delay,
+            });
+        } else {
+            webpFrames.push(readWebpFrame(bytes));
+        }
+        onProgress?.((i + 1) / samples.length);
+        // Decoding and quantizing run on the JS thread; let the UI draw between frames
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    if (signal?.aborted) throw new TaskAbortedError();
+
+    let data: Uint8Array;
+    if (gif) {
+        gif.finish();
+        data = gif.bytes();
+    } else {
+        data = muxAnimatedWebp(webpFrames, size, delay);
+    }
+
+    const directory = options.directory ?? new Directory(Paths.cache, ANIMATION_DIRECTORY_NAME);
+    if (!directory.exists) directory.create({ intermediates: true });
+    const times = `${formatFileTime(range.start)}-${formatFileTime(range.end)}`;
+    const fileName = `${fileNameFromTitle(options.title)}_${times}.${settings.format}`;
+    const output = new File(directory, fileName);
+    if (output.exists) output.delete();
+    output.write(data);
+
+    return {
+        uri: output.uri,
+        fileName,
+        mimeType: MIME_TYPES[settings.format],
+        bytes: data.length,
+        frameCount: samples.length,
+        ...size,
+    };
+}
+
+// Decodes one frame, scales it to the output size and returns it encoded: JPEG for
+// GIF (decoded again to pixels), WebP for WebP (muxed as is)
+async function renderFrame(
+    provider: VideoFrameProvider,
+    time: number,
+    size: FrameSize,
+    format: AnimationFormat
+): Promise<Uint8Array> {
+    const thumbnail = await provider.getThumbnail(time);
+    const context = ImageManipulator.manipulate(thumbnail.uri).resize(size);
+    const image = await context.renderAsync();
+    try {
+        const result = await image.saveAsync(
+            format === 'gif'
+                ? { format: SaveFormat.JPEG, compress: GIF_SOURCE_QUALITY }
+                : { format: SaveFormat.WEBP, compress: WEBP_QUALITY }
+        );
+        const file = new File(result.uri);
+        const bytes = await file.bytes();
+        file.delete();
+        return bytes;
+    } finally {
+        // Native bitmaps add up quickly over a hundred frames
+        image.release();
+        context.release();
+        try {
+            new File(thumbnail.uri).delete();
+        } catch {
+            // Left for the OS to clear with the rest of the cache
+        }
+    }
+}
+
+// ============================================================================
+// Animated WebP
+// ============================================================================
+
+export interface WebpFrame {
+    /** The still's ALPH / VP8 / VP8L chunks, ready to nest in an ANMF chunk. */
+    chunks: Uint8Array;
+    hasAlpha: boolean;
+}
+
+const fourCC = (bytes: Uint8Array, offset: number): string =>
+    String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+    (bytes[offset] |
+        (bytes[offset + 1] << 8) |
+        (bytes[offset + 2] << 16) |
+        (bytes[offset + 3] << 24)) >>>
+    0;
+
+function writeUint24(bytes: Uint8Array, offset: number, value: number): void {
+    bytes[offset] = value & 0xff;
+    bytes[offset + 1] = (value >> 8) & 0xff;
+    bytes[offset + 2] = (value >> 16) & 0xff;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+// RIFF chunk: FourCC, little-endian payload size, payload, padded to an even length
+function chunk(type: string, payload: Uint8Array): Uint8Array {
+    const result = new Uint8Array(8 + payload.length + (payload.length & 1));
+    for (let i = 0; i < 4; i++) result[i] = type.charCodeAt(i);
+    const size = payload.length;
+    result.set([size & 0xff, (size >> 8) & 0xff, (size >> 16) & 0xff, (size >>> 24) & 0xff], 4);
+    result.set(payload, 8);
+    return result;
+}
+
+/** Pulls the image chunks out of a still WebP file. */
+export function readWebpFrame(webp: Uint8Array): WebpFrame {
+    if (fourCC(webp, 0) !== 'RIFF' || fourCC(webp, 8) !== 'WEBP') {
+        throw new Error('The frame is not a WebP image');
+    }
+    const chunks: Uint8Array[] = [];
+    let hasAlpha = false;
+    let offset = 12;
+    while (offset + 8 <= webp.length) {
+        const type = fourCC(webp, offset);
+        const size = readUint32(webp, offset + 4);
+        const payload = webp.subarray(offset + 8, offset + 8 + size);
+        if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') {
+            chunks.push(chunk(type, payload));
+        }
+        // Lossless bitstreams flag alpha in their header instead of an ALPH chunk
+        if (type === 'ALPH' || (type === 'VP8L' && (payload[4] & 0x10) !== 0)) {
+            hasAlpha = true;
+        }
+        offset += 8 + size + (size & 1);
+    }
+    if (chunks.length === 0) throw new Error('The WebP frame has no image data');
+    return { chunks: concat(chunks), hasAlpha };
+}
+
+/** Wraps still frames in an endlessly looping animated WebP. */
+export function muxAnimatedWebp(
+    frames: WebpFrame[],
+    { width, height }: FrameSize,
+    delay: number
+): Uint8Array {
+    const header = new Uint8Array(10);
+    header[0] = 0x02 | (frames.some((frame) => frame.hasAlpha) ? 0x10 : 0); // animation, alpha
+    writeUint24(header, 4, width - 1);
+    writeUint24(header, 7, height - 1);
+    // Background colour 0, loop count 0 (forever)
+    const animation = new Uint8Array(6);
+
+    const frameChunks = frames.map((frame) => {
+        const frameHeader = new Uint8Array(16); // x/2 and y/2 stay 0
+        writeUint24(frameHeader, 6, width - 1);
+        writeUint24(frameHeader, 9, height - 1);
+        writeUint24(frameHeader, 12, delay);
+        frameHeader[15] = 0x02; // don't blend with the previous frame
+        return chunk('ANMF', concat([frameHeader, frame.chunks]));
+    });
+
+    const riffType = new Uint8Array([0x57, 0x45, 0x42, 0x50]); // "WEBP"
+    return chunk(
+        'RIFF',
+        concat([riffType, chunk('VP8X', header), chunk('ANIM', animation), ...frameChunks])
+    );
+}
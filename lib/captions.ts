@@ -0,0 +1,314 @@
+/**
+ * Captions: SRT / WebVTT cues on the sequence timeline and how they're drawn.
+ *
+ * Caption files found in the wild are rarely clean, so the parser works line
+ * by line instead of trusting blank lines between cues, drops cues whose
+ * timings don't parse, and keeps overlapping cues (they're shown stacked).
+ */
+
+import { readJson, writeJson } from './json-storage';
+import { formatSrtTime, formatVttTime, parseClockTime } from './timecode';
+
+export interface Cue {
+    id: string;
+    /** Sequence time the cue shows at, in seconds. */
+    start: number;
+    end: number;
+    /** Lines separated by "\n"; only <b>, <i> and <u> styling tags are kept. */
+    text: string;
+}
+
+/** A run of cue text with one style, for rendering. */
+export interface CueSpan {
+    text: string;
+    bold: boolean;
+    italic: boolean;
+    underline: boolean;
+}
+
+export type CaptionFormat = 'srt' | 'webvtt';
+
+// Cue edges can't be dragged closer together than this
+export const MIN_CUE_DURATION = 0.2;
+// Length of a cue added at the playhead
+export const DEFAULT_CUE_DURATION = 2;
+
+let cueCounter = 0;
+
+export const createCueId = (): string => `cue-${Date.now().toString(36)}-${++cueCounter}`;
+
+export function createCue(start: number, end: number, text: string): Cue {
+    return { id: createCueId(), start: Math.max(0, start), end, text };
+}
+
+export const sortCues = (cues: Cue[]): Cue[] =>
+    [...cues].sort((a, b) => a.start - b.start || a.end - b.end);
+
+/** Cues showing at `time`, oldest first; overlapping cues all show. */
+export const activeCues = (cues: Cue[], time: number): Cue[] =>
+    cues.filter((cue) => time >= cue.start && time < cue.end);
+
+/** Cue starts and ends, sorted and without duplicates. */
+export function cueBoundaries(cues: Cue[]): number[] {
+    const times = new Set<number>();
+    cues.forEach((cue) => {
+        times.add(cue.start);
+        times.add(cue.end);
+    });
+    return [...times].sort((a, b) => a - b);
+}
+
+/** Ids of cues that overlap another cue; players show those stacked. */
+export function overlappingCueIds(cues: Cue[]): Set<string> {
+    const sorted = sortCues(cues);
+    const ids = new Set<string>();
+    sorted.forEach((cue, i) => {
+        for (let j = i + 1; j < sorted.length && sorted[j].start < cue.end; j++) {
+            ids.add(cue.id);
+            ids.add(sorted[j].id);
+        }
+    });
+    return ids;
+}
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+/**
+ * Splits a cue at `time`. Multi-line text is split between lines, otherwise
+ * between words in proportion to the time; a single word stays in both.
+ * Returns null when either part would be shorter than MIN_CUE_DURATION.
+ */
+export function splitCue(cue: Cue, time: number): [Cue, Cue] | null {
+    if (time - cue.start < MIN_CUE_DURATION || cue.end - time < MIN_CUE_DURATION) return null;
+
+    const fraction = (time - cue.start) / (cue.end - cue.start);
+    const lines = cue.text.split('\n');
+    const [units, separator] = lines.length > 1 ? [lines, '\n'] : [cue.text.split(/\s+/), ' '];
+    let firstText = cue.text;
+    let secondText = cue.text;
+    if (units.length > 1) {
+        const count = Math.min(units.length - 1, Math.max(1, Math.round(units.length * fraction)));
+        firstText = units.slice(0, count).join(separator);
+        secondText = units.slice(count).join(separator);
+    }
+
+    return [
+        { ...cue, end: time, text: firstText },
+        createCue(time, cue.end, secondText),
+    ];
+}
+
+/** One cue spanning both, with the text of `first` above the text of `second`. */
+export const mergeCues = (first: Cue, second: Cue): Cue => ({
+    ...first,
+    start: Math.min(first.start, second.start),
+    end: Math.max(first.end, second.end),
+    text: `${first.text}\n${second.text}`,
+});
+
+// ============================================================================
+// Export
+// ============================================================================
+
+// A blank line ends a cue in both formats, so typed text can't contain one
+const exportText = (text: string) => text.replace(/\n\s*\n/g, '\n').trim();
+
+export function toSrt(cues: Cue[]): string {
+    const blocks = sortCues(cues).map((cue, i) => {
+        const timing = `${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}`;
+        return `${i + 1}\n${timing}\n${exportText(cue.text)}`;
+    });
+    return blocks.join('\n\n') + '\n';
+}
+
+export function toWebVTT(cues: Cue[]): string {
+    const blocks = sortCues(cues).map(
+        (cue) =>
+            `${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}\n${exportText(cue.text)}`
+    );
+    return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+export const formatCaptions = (format: CaptionFormat, cues: Cue[]): string =>
+    format === 'srt' ? toSrt(cues) : toWebVTT(cues);
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+// "00:00:01,000 --> 00:00:02,500 align:start" - sloppy spacing and arrows are accepted
+const TIMING = /^\s*([\d:.,]+)\s*-{1,2}>\s*([\d:.,]+)/;
+
+// Blocks that hold no cues: NOTE comments, STYLE sheets and REGION definitions
+const VTT_SKIPPED_BLOCK = /^(NOTE|STYLE|REGION)(\s|$)/;
+
+// SRT cue numbers, and VTT cue ids that can't pass for text: one word holding a digit,
+// '-' or '_' ("12", "intro-1", "cue_7")
+const CUE_NUMBER = /^\s*\d+\s*$/;
+const VTT_CUE_ID = /^\s*(?=[\w.-]*[\d_-])[\w.-]+\s*$/;
+
+const ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    lrm: '',
+    rlm: '',
+};
+
+/**
+ * Timestamps as they appear in caption files: "HH:MM:SS,mmm", "MM:SS.mmm",
+ * and the occasional "HH:MM:SS:mmm" from broken exporters.
+ */
+export function parseCueTime(text: string): number | null {
+    const trimmed = text.trim().replace(/^(\d+:\d{1,2}:\d{1,2}):(\d{3})$/, '$1.$2');
+    return parseClockTime(trimmed);
+}
+
+/** Keeps <b>, <i> and <u>; drops other tags, ASS overrides and entities. */
+export function cleanCueText(text: string): string {
+    return text
+        // {\an8} and friends from files converted out of ASS/SSA
+        .replace(/\{\\[^}]*\}/g, '')
+        // <c.yellow>, <v Speaker>, <font color="...">, <00:00:01.000> karaoke timestamps
+        .replace(/<[^>]*>/g, (tag) => {
+            const style = tag.match(/^<\s*(\/?)\s*([biu])\b[^>]*>$/i);
+            return style ? `<${style[1]}${style[2].toLowerCase()}>` : '';
+        })
+        .replace(/&(#\d+|[a-z]+);/gi, (entity, name: string) =>
+            name.startsWith('#')
+                ? String.fromCharCode(Number(name.slice(1)))
+                : ENTITIES[name.toLowerCase()] ?? entity
+        )
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .join('\n');
+}
+
+/**
+ * Reads SRT or WebVTT. A cue starts at each timing line and runs until a blank
+ * line or the next timing line; a cue number (or VTT cue id) right before a
+ * timing line is dropped, any other line there is still text. Cues with
+ * unreadable timings, or that end before they start, are skipped.
+ */
+export function parseCaptions(text: string): Cue[] {
+    const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+    const isVtt = /^WEBVTT(\s|$)/.test(lines.find((line) => line.trim() !== '') ?? '');
+    const cues: Cue[] = [];
+    let current: { start: number; end: number; lines: string[] } | null = null;
+    // Inside a cue whose timing didn't parse, or a NOTE/STYLE/REGION block
+    let skipping = false;
+
+    const finish = () => {
+        if (current) {
+            const cueText = cleanCueText(current.lines.join('\n'));
+            if (cueText) cues.push(createCue(current.start, current.end, cueText));
+        }
+        current = null;
+        skipping = false;
+    };
+
+    lines.forEach((line, i) => {
+        const timing = line.match(TIMING);
+        if (timing) {
+            finish();
+            const start = parseCueTime(timing[1]);
+            const end = parseCueTime(timing[2]);
+            if (start !== null && end !== null && end > start) {
+                current = { start, end, lines: [] };
+            } else {
+                skipping = true;
+            }
+            return;
+        }
+
+        if (line.trim() === '') {
+            finish();
+            return;
+        }
+        if (skipping) return;
+        if (!current) {
+            if (VTT_SKIPPED_BLOCK.test(line)) skipping = true;
+            return;
+        }
+
+        // A cue number (or VTT cue id) glued to the next cue without a blank line
+        const isNextCueId =
+            TIMING.test(lines[i + 1] ?? '') &&
+            (CUE_NUMBER.test(line) || (isVtt && VTT_CUE_ID.test(line)));
+        if (!isNextCueId) current.lines.push(line);
+    });
+    finish();
+
+    return sortCues(cues);
+}
+
+/** Splits cue text into styled runs; unbalanced tags are tolerated. */
+export function cueSpans(text: string): CueSpan[] {
+    const spans: CueSpan[] = [];
+    const depth = { b: 0, i: 0, u: 0 };
+
+    text.split(/(<\/?[biu]>)/).forEach((part) => {
+        const tag = part.match(/^<(\/?)([biu])>$/);
+        if (tag) {
+            const key = tag[2] as keyof typeof depth;
+            depth[key] = Math.max(0, depth[key] + (tag[1] ? -1 : 1));
+        } else if (part) {
+            spans.push({
+                text: part,
+                bold: depth.b > 0,
+                italic: depth.i > 0,
+                underline: depth.u > 0,
+            });
+        }
+    });
+
+    return spans;
+}
+
+/** Cue text without styling tags. */
+export const plainCueText = (text: string): string =>
+    cueSpans(text)
+        .map((span) => span.text)
+        .join('');
+
+// ============================================================================
+// Style
+// ============================================================================
+
+export type CaptionPosition = 'bottom' | 'top';
+
+export interface CaptionStyle {
+    fontSize: number;
+    /** Opacity of the box behind the text; 0 draws a text shadow instead. */
+    backgroundOpacity: number;
+    position: CaptionPosition;
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+    fontSize: 16,
+    backgroundOpacity: 0.6,
+    position: 'bottom',
+};
+
+export const CAPTION_FONT_SIZES = [12, 14, 16, 20, 24];
+export const CAPTION_BACKGROUND_OPACITIES = [0, 0.3, 0.6, 0.9];
+export const CAPTION_POSITIONS: CaptionPosition[] = ['bottom', 'top'];
+
+const CAPTION_STYLE_STORAGE_NAME = 'caption-style';
+
+export function loadCaptionStyle(): CaptionStyle {
+    return {
+        ...DEFAULT_CAPTION_STYLE,
+        ...readJson<Partial<CaptionStyle>>(CAPTION_STYLE_STORAGE_NAME, {}),
+    };
+}
+
+export function saveCaptionStyle(style: CaptionStyle): void {
+    writeJson(CAPTION_STYLE_STORAGE_NAME, style);
+}
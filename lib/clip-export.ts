@@ -0,0 +1,176 @@
+import { requireOptionalNativeModule } from 'expo';
+import { Directory, File, Paths } from 'expo-file-system';
+
+import { TaskAbortedError } from './task-scheduler';
+import { clipEnd, MIN_CLIP_DURATION, Project, TrimRange } from './timeline-project';
+import { formatFileTime } from './timecode';
+import { fileNameFromTitle } from './video-source';
+
+/**
+ * Exporting part of the timeline to a new file.
+ *
+ * The sequence range is turned into source ranges (one per clip it covers)
+ * and handed to a ClipEncoder, which writes the output. Encoders are
+ * pluggable: the app uses the native MP4 encoder from modules/clip-encoder
+ * (AVFoundation on iOS, Media3 Transformer on Android) when the build
+ * includes it, and tests swap in one that writes a description of the job.
+ * Exports can be cancelled through an AbortSignal.
+ */
+
+/** A piece of one source, in source seconds. */
+export interface ExportRange {
+    sourceUri: string;
+    start: number;
+    end: number;
+}
+
+export interface EncodeContext {
+    /** Fraction done, 0-1. */
+    onProgress: (fraction: number) => void;
+    signal: AbortSignal;
+}
+
+export interface ClipEncoder {
+    /** Extension of the files it writes, without the dot. */
+    extension: string;
+    mimeType: string;
+    /** Writes `ranges`, played back to back, to `outputUri`. */
+    encode(ranges: ExportRange[], outputUri: string, context: EncodeContext): Promise<void>;
+}
+
+export interface ExportResult {
+    uri: string;
+    mimeType: string;
+    /** Seconds. */
+    duration: number;
+}
+
+export interface ExportOptions {
+    encoder: ClipEncoder;
+    /** Source title, used for the file name. */
+    title: string;
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+    directory?: Directory;
+}
+
+const EXPORT_DIRECTORY_NAME = 'exports';
+
+export const rangesDuration = (ranges: ExportRange[]): number =>
+    ranges.reduce((sum, range) => sum + (range.end - range.start), 0);
+
+/** The source ranges behind a sequence range, in playback order. */
+export function exportRanges(project: Project, range: TrimRange): ExportRange[] {
+    return project.clips.flatMap((clip) => {
+        const start = Math.max(range.start, clip.start);
+        const end = Math.min(range.end, clipEnd(clip));
+        if (end - start <= 0) return [];
+        return [
+            {
+                sourceUri: clip.sourceUri,
+                start: clip.sourceIn + (start - clip.start),
+                end: clip.sourceIn + (end - clip.start),
+            },
+        ];
+    });
+}
+
+/** Encodes `range` of the sequence into the exports directory. */
+export async function exportClip(
+    project: Project,
+    range: TrimRange,
+    options: ExportOptions
+): Promise<ExportResult> {
+    const { encoder, title, onProgress, signal } = options;
+    const ranges = exportRanges(project, range);
+    const duration = rangesDuration(ranges);
+    if (duration < MIN_CLIP_DURATION) {
+        throw new Error('The range to export is empty');
+    }
+    if (signal?.aborted) throw new TaskAbortedError();
+
+    const directory = options.directory ?? new Directory(Paths.cache, EXPORT_DIRECTORY_NAME);
+    if (!directory.exists) directory.create({ intermediates: true });
+    const times = `${formatFileTime(range.start)}-${formatFileTime(range.end)}`;
+    const fileName = `${fileNameFromTitle(title)}_${times}.${encoder.extension}`;
+    const output = new File(directory, fileName);
+    if (output.exists) output.delete();
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    try {
+        await encoder.encode(ranges, output.uri, {
+            onProgress: (fraction) => onProgress?.(Math.min(1, Math.max(0, fraction))),
+            signal: controller.signal,
+        });
+        if (controller.signal.aborted) throw new TaskAbortedError();
+        onProgress?.(1);
+        return { uri: output.uri, mimeType: encoder.mimeType, duration };
+    } catch (error) {
+        // Never leave a half-written file behind
+        if (output.exists) output.delete();
+        throw controller.signal.aborted ? new TaskAbortedError() : error;
+    } finally {
+        signal?.removeEventListener('abort', abort);
+    }
+}
+
+// ============================================================================
+// Encoders
+// ============================================================================
+
+/**
+ * The native side of NativeClipEncoder (modules/clip-encoder): starts an
+ * export and reports `progress` events until the promise settles.
+ */
+interface ClipEncoderModule {
+    exportAsync(ranges: ExportRange[], outputUri: string): Promise<void>;
+    cancelAsync(): Promise<void>;
+    addListener(
+        event: 'progress',
+        listener: (event: { fraction: number }) => void
+    ): { remove(): void };
+}
+
+/** MP4 export through the app's native ClipEncoder module. */
+export class NativeClipEncoder implements ClipEncoder {
+    readonly extension = 'mp4';
+    readonly mimeType = 'video/mp4';
+
+    constructor(private readonly module: ClipEncoderModule) {}
+
+    async encode(ranges: ExportRange[], outputUri: string, context: EncodeContext) {
+        const subscription = this.module.addListener('progress', ({ fraction }) =>
+            context.onProgress(fraction)
+        );
+        const cancel = () => {
+            this.module.cancelAsync().catch(() => {
+                // Already finished
+            });
+        };
+        context.signal.addEventListener('abort', cancel);
+        try {
+            await this.module.exportAsync(ranges, outputUri);
+        } finally {
+            context.signal.removeEventListener('abort', cancel);
+            subscription.remove();
+        }
+    }
+}
+
+let registeredEncoder: ClipEncoder | null | undefined;
+
+/** Replaces the encoder exports use; null turns exporting off. */
+export function setClipEncoder(encoder: ClipEncoder | null): void {
+    registeredEncoder = encoder;
+}
+
+/** The encoder in use, or null when this build can't export. */
+export function getClipEncoder(): ClipEncoder | null {
+    if (registeredEncoder === undefined) {
+        const module = requireOptionalNativeModule<ClipEncoderModule>('ClipEncoder');
+        registeredEncoder = module ? new NativeClipEncoder(module) : null;
+    }
+    return registeredEncoder;
+}
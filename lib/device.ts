@@ -0,0 +1,4 @@
+import { PixelRatio, Platform } from 'react-native';
+
+/** Low-density screens and Android get lighter thumbnail and export settings. */
+export const IS_LOW_END_DEVICE = PixelRatio.get() < 2 || Platform.OS === 'android';
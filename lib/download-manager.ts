@@ -0,0 +1,448 @@
+import { fetch as expoFetch } from 'expo/fetch';
+import { Directory, File, Paths } from 'expo-file-system';
+
+import { hashString } from './hash';
+import { readJson, writeJson } from './json-storage';
+import { base64ToHex, Md5 } from './md5';
+
+/**
+ * Offline copies of remote videos.
+ *
+ * Downloads start from a queue as slots free up and stream into
+ * `<documents>/downloads`. Pausing aborts the request but keeps the partial
+ * file; resuming asks for the rest with an HTTP Range request and starts over
+ * when the server ignores it or the file changed in between (If-Range).
+ * Finished files are checked against the reported length and an MD5 checksum
+ * when one is known: given by the caller, or sent by the server as
+ * Content-MD5 or x-goog-hash. The hash is computed as the bytes arrive, so
+ * large files never need a blocking pass at the end. Records survive
+ * restarts; a download cut off by the app closing comes back paused.
+ */
+
+export type DownloadStatus = 'queued' | 'downloading' | 'paused' | 'completed' | 'failed';
+
+export interface Download {
+    /** Remote URL; also identifies the download. */
+    uri: string;
+    /** Local file:// URI, playable once the download completes. */
+    fileUri: string;
+    status: DownloadStatus;
+    bytesWritten: number;
+    /** 0 until the server reports the length. */
+    totalBytes: number;
+    /** Expected MD5 of the finished file, as hex. */
+    md5?: string;
+    /** Validator of the partial file, sent as If-Range when resuming. */
+    etag?: string;
+    error?: string;
+}
+
+export class DownloadQuotaError extends Error {
+    constructor(needed: number, available: number) {
+        super(
+            `Not enough storage: needs ${formatBytes(needed)}, ${formatBytes(available)} available`
+        );
+        this.name = 'DownloadQuotaError';
+    }
+}
+
+export class DownloadChecksumError extends Error {
+    constructor() {
+        super('The downloaded file does not match its checksum');
+        this.name = 'DownloadChecksumError';
+    }
+}
+
+/** The part of a fetch response the manager reads. */
+export interface DownloadResponse {
+    status: number;
+    ok: boolean;
+    headers: { get(name: string): string | null };
+    body: ReadableStream<Uint8Array> | null;
+}
+
+/**
+ * How requests are made. Defaults to expo/fetch, which streams the body;
+ * tests can point the manager at a local stand-in server instead.
+ */
+export type DownloadFetch = (
+    url: string,
+    init: { headers: Record<string, string>; signal: AbortSignal }
+) => Promise<DownloadResponse>;
+
+export interface DownloadManagerOptions {
+    directory?: Directory;
+    fetch?: DownloadFetch;
+    maxConcurrent?: number;
+    /** Bytes all downloads together may take. */
+    quotaBytes?: number;
+    /** Free space on the device, in bytes. */
+    availableSpace?: () => number;
+    /** json-storage document the records are kept in. */
+    storageName?: string;
+}
+
+const DOWNLOAD_DIRECTORY_NAME = 'downloads';
+const DOWNLOADS_STORAGE_NAME = 'downloads';
+
+export const DEFAULT_DOWNLOAD_QUOTA_BYTES = 4 * 1024 * 1024 * 1024;
+
+// Space left free on the device so downloads never fill it completely
+const DISK_HEADROOM_BYTES = 200 * 1024 * 1024;
+
+// Progress is reported at most this often per download
+const PROGRESS_INTERVAL = 250;
+
+// Bytes of an existing partial file hashed between yields to the JS thread
+const HASH_CHUNK_BYTES = 1024 * 1024;
+
+/** "1.2 GB" style sizes. */
+export function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let value = Math.max(0, bytes);
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value >= 10 || unit === 0 ? Math.round(value) : value.toFixed(1)} ${units[unit]}`;
+}
+
+/** Fraction of a download done, 0-1; 0 while the length is unknown. */
+export const downloadProgress = ({ bytesWritten, totalBytes }: Download): number =>
+    totalBytes > 0 ? Math.min(1, bytesWritten / totalBytes) : 0;
+
+// "bytes 100-199/1000"; the total may be "*" when the server doesn't know it
+function parseContentRange(header: string | null): { start: number; total: number } | null {
+    const match = header?.match(/^bytes\s+(\d+)-\d+\/(\d+|\*)$/i);
+    if (!match) return null;
+    return { start: Number(match[1]), total: match[2] === '*' ? 0 : Number(match[2]) };
+}
+
+/**
+ * Expected MD5 of the whole file, as hex, from the response headers. GCS-style
+ * x-goog-hash always describes the whole object; Content-MD5 only covers the
+ * body sent, so a partial (206) response's is ignored.
+ */
+function responseMd5(response: DownloadResponse): string | undefined {
+    const googHash = response.headers.get('x-goog-hash')?.match(/(?:^|,)\s*md5=([^,\s]+)/);
+    const base64 =
+        googHash?.[1] ?? (response.status !== 206 ? response.headers.get('Content-MD5') : null);
+    if (!base64) return undefined;
+    try {
+        return base64ToHex(base64);
+    } catch {
+        // Not base64 - nothing to check against
+        return undefined;
+    }
+}
+
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const extensionOf = (uri: string): string =>
+    uri.split(/[?#]/)[0].match(/\.(\w{2,4})$/)?.[0] ?? '.mp4';
+
+export class DownloadManager {
+    private static instance: DownloadManager;
+    private downloads: Download[] = [];
+    private controllers = new Map<string, AbortController>();
+    private listeners = new Set<() => void>();
+    private running = 0;
+    private readonly directory: Directory;
+    private readonly fetch: DownloadFetch;
+    private readonly maxConcurrent: number;
+    private readonly quotaBytes: number;
+    private readonly availableSpace: () => number;
+    private readonly storageName: string;
+
+    constructor(options: DownloadManagerOptions = {}) {
+        this.directory =
+            options.directory ?? new Directory(Paths.document, DOWNLOAD_DIRECTORY_NAME);
+        this.fetch = options.fetch ?? expoFetch;
+        this.maxConcurrent = options.maxConcurrent ?? 1;
+        this.quotaBytes = options.quotaBytes ?? DEFAULT_DOWNLOAD_QUOTA_BYTES;
+        this.availableSpace = options.availableSpace ?? (() => Paths.availableDiskSpace);
+        this.storageName = options.storageName ?? DOWNLOADS_STORAGE_NAME;
+        this.load();
+    }
+
+    /** The app-wide manager. */
+    static getInstance(): DownloadManager {
+        if (!DownloadManager.instance) {
+            DownloadManager.instance = new DownloadManager();
+        }
+        return DownloadManager.instance;
+    }
+
+    /** Every download; a new array after each change (for useSyncExternalStore). */
+    getSnapshot = (): Download[] => this.downloads;
+
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    get(uri: string): Download | undefined {
+        return this.downloads.find((download) => download.uri === uri);
+    }
+
+    /** The local copy of `uri` if its download completed and the file is still there. */
+    localUri(uri: string): string | null {
+        const download = this.get(uri);
+        if (download?.status !== 'completed') return null;
+        try {
+            return new File(download.fileUri).exists ? download.fileUri : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /** Queues a download; an existing one that failed or was paused is resumed. */
+    enqueue(uri: string, options: { md5?: string } = {}): void {
+        const existing = this.get(uri);
+        if (existing) {
+            if (existing.status === 'paused' || existing.status === 'failed') this.resume(uri);
+            return;
+        }
+        const fileUri = new File(this.directory, `${hashString(uri)}${extensionOf(uri)}`).uri;
+        this.set([
+            ...this.downloads,
+            { uri, fileUri, status: 'queued', bytesWritten: 0, totalBytes: 0, md5: options.md5 },
+        ]);
+        this.pump();
+    }
+
+    /** Stops a download, keeping what was written so far. */
+    pause(uri: string): void {
+        const download = this.get(uri);
+        if (download?.status !== 'downloading' && download?.status !== 'queued') return;
+        this.update(uri, { status: 'paused' });
+        this.controllers.get(uri)?.abort();
+    }
+
+    resume(uri: string): void {
+        const download = this.get(uri);
+        if (download?.status !== 'paused' && download?.status !== 'failed') return;
+        this.update(uri, { status: 'queued', error: undefined });
+        this.pump();
+    }
+
+    /** Cancels the download if needed and deletes the file. */
+    remove(uri: string): void {
+        const download = this.get(uri);
+        if (!download) return;
+        this.set(this.downloads.filter((candidate) => candidate !== download));
+        this.controllers.get(uri)?.abort();
+        this.deleteFile(download.fileUri);
+    }
+
+    // ========================================================================
+    // Transfer
+    // ========================================================================
+
+    private pump(): void {
+        while (this.running < this.maxConcurrent) {
+            const next = this.downloads.find((download) => download.status === 'queued');
+            if (!next) return;
+            this.running++;
+            this.update(next.uri, { status: 'downloading' });
+            this.run(next.uri).finally(() => {
+                this.running--;
+                this.pump();
+            });
+        }
+    }
+
+    private async run(uri: string): Promise<void> {
+        const controller = new AbortController();
+        this.controllers.set(uri, controller);
+        try {
+            const md5 = await this.transfer(uri, controller.signal);
+            this.verify(uri, md5);
+            this.update(uri, { status: 'completed' });
+        } catch (error) {
+            // Paused or removed: the status was already set
+            if (controller.signal.aborted) return;
+            this.update(uri, {
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error),
+            });
+        } finally {
+            this.controllers.delete(uri);
+        }
+    }
+
+    /** Writes the rest of the file; resolves with its MD5 when there is one to check. */
+    private async transfer(uri: string, signal: AbortSignal): Promise<string | null> {
+        const download = this.get(uri)!;
+        const file = new File(download.fileUri);
+        if (!this.directory.exists) this.directory.create({ intermediates: true });
+        if (!file.exists) file.create();
+
+        let offset = file.size ?? 0;
+        const headers: Record<string, string> = {};
+        if (offset > 0) {
+            headers.Range = `bytes=${offset}-`;
+            if (download.etag) headers['If-Range'] = download.etag;
+        }
+
+        const response = await this.fetch(uri, { headers, signal });
+        let totalBytes: number;
+        if (response.status === 206) {
+            const range = parseContentRange(response.headers.get('Content-Range'));
+            if (!range || range.start !== offset) {
+                throw new Error('The server sent an unexpected byte range');
+            }
+            totalBytes = range.total;
+        } else if (response.status === 416 && offset > 0 && offset === download.totalBytes) {
+            // Nothing left to fetch; the file was complete when the app stopped
+            if (!download.md5) return null;
+            const hash = new Md5();
+            await this.hashFile(file, offset, hash, signal);
+            return hash.digest();
+        } else if (response.ok) {
+            // A full response: no range support, or the remote file changed
+            file.delete();
+            file.create();
+            offset = 0;
+            totalBytes = Number(response.headers.get('Content-Length')) || 0;
+        } else {
+            throw new Error(`Download failed (${response.status})`);
+        }
+
+        const md5 = responseMd5(response) ?? download.md5;
+        this.update(uri, {
+            bytesWritten: offset,
+            totalBytes,
+            md5,
+            etag: response.headers.get('ETag') ?? undefined,
+        });
+        if (totalBytes > 0) this.checkQuota(uri, totalBytes - offset);
+        if (!response.body) throw new Error('The server sent no data');
+
+        // A resumed download hashes what it already has before appending to it
+        const hash = md5 ? new Md5() : null;
+        if (hash && offset > 0) await this.hashFile(file, offset, hash, signal);
+
+        const reader = response.body.getReader();
+        const handle = file.open();
+        let reportedAt = 0;
+        try {
+            handle.offset = offset;
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                handle.writeBytes(value);
+                hash?.update(value);
+                offset += value.length;
+                if (Date.now() - reportedAt >= PROGRESS_INTERVAL) {
+                    reportedAt = Date.now();
+                    this.update(uri, { bytesWritten: offset }, false);
+                }
+            }
+        } finally {
+            handle.close();
+            this.update(uri, { bytesWritten: offset });
+        }
+        return hash ? hash.digest() : null;
+    }
+
+    /** Feeds the first `length` bytes of a file to `hash` a chunk at a time. */
+    private async hashFile(
+        file: File,
+        length: number,
+        hash: Md5,
+        signal: AbortSignal
+    ): Promise<void> {
+        const handle = file.open();
+        try {
+            handle.offset = 0;
+            for (let read = 0; read < length; ) {
+                if (signal.aborted) throw new Error('Download stopped');
+                const bytes = handle.readBytes(Math.min(HASH_CHUNK_BYTES, length - read));
+                if (bytes.length === 0) break;
+                hash.update(bytes);
+                read += bytes.length;
+                await nextTick();
+            }
+        } finally {
+            handle.close();
+        }
+    }
+
+    /** Free space and the quota both have to fit the rest of the download. */
+    private checkQuota(uri: string, remaining: number): void {
+        const used = this.downloads.reduce((sum, download) => sum + download.bytesWritten, 0);
+        const quotaLeft = this.quotaBytes - used;
+        if (remaining > quotaLeft) throw new DownloadQuotaError(remaining, quotaLeft);
+
+        let available = Infinity;
+        try {
+            available = this.availableSpace() - DISK_HEADROOM_BYTES;
+        } catch {
+            // Unknown on this platform - let the write fail if it has to
+        }
+        if (remaining > available) throw new DownloadQuotaError(remaining, available);
+    }
+
+    private verify(uri: string, md5: string | null): void {
+        const download = this.get(uri)!;
+        const size = new File(download.fileUri).size ?? 0;
+        if (download.totalBytes > 0 && size !== download.totalBytes) {
+            throw new Error(`Incomplete download (${size} of ${download.totalBytes} bytes)`);
+        }
+        if (download.md5 && md5 !== download.md5.toLowerCase()) {
+            // A corrupt file can't be resumed; the next attempt starts over
+            this.deleteFile(download.fileUri);
+            this.update(uri, { bytesWritten: 0, etag: undefined });
+            throw new DownloadChecksumError();
+        }
+    }
+
+    // ========================================================================
+    // State
+    // ========================================================================
+
+    private update(uri: string, changes: Partial<Download>, persist = true): void {
+        if (!this.get(uri)) return;
+        this.set(
+            this.downloads.map((download) =>
+                download.uri === uri ? { ...download, ...changes } : download
+            ),
+            persist
+        );
+    }
+
+    private set(downloads: Download[], persist = true): void {
+        this.downloads = downloads;
+        if (persist) writeJson(this.storageName, downloads);
+        this.listeners.forEach((listener) => listener());
+    }
+
+    private load(): void {
+        // Whatever was running when the app stopped comes back paused, at the size on disk
+        this.downloads = readJson<Download[]>(this.storageName, []).map((download) => {
+            if (download.status !== 'downloading' && download.status !== 'queued') {
+                return download;
+            }
+            let bytesWritten = 0;
+            try {
+                bytesWritten = new File(download.fileUri).size ?? 0;
+            } catch {
+                // Missing file - start from zero
+            }
+            return { ...download, status: 'paused', bytesWritten };
+        });
+    }
+
+    private deleteFile(fileUri: string): void {
+        try {
+            const file = new File(fileUri);
+            if (file.exists) file.delete();
+        } catch {
+            // Already gone
+        }
+    }
+}
@@ -0,0 +1,159 @@
+/**
+ * Command-based undo/redo stack.
+ *
+ * Each command knows how to apply and revert itself. Consecutive commands
+ * that share a `coalesceKey` (for example the updates of one pan gesture)
+ * merge into a single undo step until the entry is sealed or goes stale.
+ */
+
+export interface Command<S> {
+    label: string;
+    apply(state: S): S;
+    revert(state: S): S;
+    coalesceKey?: string;
+}
+
+export interface EditHistoryOptions {
+    /** Maximum number of undo steps kept. */
+    limit?: number;
+    /** Commands further apart than this (ms) never coalesce. */
+    coalesceWindow?: number;
+    /** Clock used for coalescing, injectable for tests. */
+    now?: () => number;
+}
+
+export interface EditHistorySnapshot<S> {
+    state: S;
+    canUndo: boolean;
+    canRedo: boolean;
+    undoLabel: string | null;
+    redoLabel: string | null;
+}
+
+interface Entry<S> {
+    command: Command<S>;
+    timestamp: number;
+    sealed: boolean;
+}
+
+const DEFAULT_LIMIT = 100;
+const DEFAULT_COALESCE_WINDOW = 1000;
+
+function mergeCommands<S>(first: Command<S>, second: Command<S>): Command<S> {
+    return {
+        label: second.label,
+        coalesceKey: second.coalesceKey,
+        apply: (state) => second.apply(first.apply(state)),
+        revert: (state) => first.revert(second.revert(state)),
+    };
+}
+
+export class EditHistory<S> {
+    private undoStack: Entry<S>[] = [];
+    private redoStack: Command<S>[] = [];
+    private listeners = new Set<() => void>();
+    private snapshot: EditHistorySnapshot<S>;
+    private readonly limit: number;
+    private readonly coalesceWindow: number;
+    private readonly now: () => number;
+
+    constructor(
+        private current: S,
+        options: EditHistoryOptions = {}
+    ) {
+        this.limit = Math.max(1, options.limit ?? DEFAULT_LIMIT);
+        this.coalesceWindow = options.coalesceWindow ?? DEFAULT_COALESCE_WINDOW;
+        this.now = options.now ?? Date.now;
+        this.snapshot = this.createSnapshot();
+    }
+
+    get state(): S {
+        return this.current;
+    }
+
+    getSnapshot = (): EditHistorySnapshot<S> => this.snapshot;
+
+    subscribe = (listener: () => void): (() => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    execute(command: Command<S>): S {
+        this.current = command.apply(this.current);
+        this.redoStack = [];
+
+        const now = this.now();
+        const top = this.undoStack[this.undoStack.length - 1];
+        if (
+            top &&
+            !top.sealed &&
+            command.coalesceKey !== undefined &&
+            top.command.coalesceKey === command.coalesceKey &&
+            now - top.timestamp <= this.coalesceWindow
+        ) {
+            top.command = mergeCommands(top.command, command);
+            top.timestamp = now;
+        } else {
+            this.undoStack.push({ command, timestamp: now, sealed: false });
+            if (this.undoStack.length > this.limit) {
+                this.undoStack.shift();
+            }
+        }
+
+        this.notify();
+        return this.current;
+    }
+
+    /** Closes the latest entry so the next command starts a new undo step. */
+    seal(): void {
+        const top = this.undoStack[this.undoStack.length - 1];
+        if (top) top.sealed = true;
+    }
+
+    undo(): S {
+        const entry = this.undoStack.pop();
+        if (!entry) return this.current;
+
+        this.current = entry.command.revert(this.current);
+        this.redoStack.push(entry.command);
+        this.notify();
+        return this.current;
+    }
+
+    redo(): S {
+        const command = this.redoStack.pop();
+        if (!command) return this.current;
+
+        this.current = command.apply(this.current);
+        this.undoStack.push({ command, timestamp: this.now(), sealed: true });
+        this.notify();
+        return this.current;
+    }
+
+    /** Replaces the state and forgets all history. */
+    reset(state: S): void {
+        this.current = state;
+        this.undoStack = [];
+        this.redoStack = [];
+        this.notify();
+    }
+
+    private createSnapshot(): EditHistorySnapshot<S> {
+        const top = this.undoStack[this.undoStack.length - 1];
+        const next = this.redoStack[this.redoStack.length - 1];
+        return {
+            state: this.current,
+            canUndo: this.undoStack.length > 0,
+            canRedo: this.redoStack.length > 0,
+            undoLabel: top?.command.label ?? null,
+            redoLabel: next?.label ?? null,
+        };
+    }
+
+    private notify(): void {
+        this.snapshot = this.createSnapshot();
+        this.listeners.forEach((listener) => listener());
+    }
+}
@@ -0,0 +1,114 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+
+import { readJson, writeJson } from './json-storage';
+import { formatFileTime } from './timecode';
+import { fileNameFromTitle } from './video-source';
+
+/**
+ * Stills of the frame under the playhead, at the video's full resolution.
+ *
+ * The frame is decoded through expo-video-thumbnails like the timeline
+ * strip, but at full quality, then re-rendered at explicit dimensions in the
+ * picked format: the decoder has no size option and may hand back a frame
+ * that doesn't match the video's own size.
+ */
+
+export type FrameFormat = 'png' | 'jpeg';
+
+export interface FrameGrabSettings {
+    format: FrameFormat;
+    /** JPEG compression quality, 0-1; PNG is lossless. */
+    quality: number;
+}
+
+export interface FrameSize {
+    width: number;
+    height: number;
+}
+
+export interface FrameGrab extends FrameSize {
+    uri: string;
+    fileName: string;
+    mimeType: string;
+}
+
+export const FRAME_FORMATS: FrameFormat[] = ['png', 'jpeg'];
+export const JPEG_QUALITIES = [0.6, 0.8, 0.9, 1];
+
+export const DEFAULT_FRAME_GRAB_SETTINGS: FrameGrabSettings = { format: 'png', quality: 0.9 };
+
+const FRAME_GRAB_SETTINGS_STORAGE_NAME = 'frame-grab-settings';
+const FRAME_DIRECTORY_NAME = 'frames';
+
+const SAVE_FORMATS: Record<FrameFormat, SaveFormat> = {
+    png: SaveFormat.PNG,
+    jpeg: SaveFormat.JPEG,
+};
+
+const MIME_TYPES: Record<FrameFormat, string> = { png: 'image/png', jpeg: 'image/jpeg' };
+
+const EXTENSIONS: Record<FrameFormat, string> = { png: 'png', jpeg: 'jpg' };
+
+export function loadFrameGrabSettings(): FrameGrabSettings {
+    return {
+        ...DEFAULT_FRAME_GRAB_SETTINGS,
+        ...readJson<Partial<FrameGrabSettings>>(FRAME_GRAB_SETTINGS_STORAGE_NAME, {}),
+    };
+}
+
+export function saveFrameGrabSettings(settings: FrameGrabSettings): void {
+    writeJson(FRAME_GRAB_SETTINGS_STORAGE_NAME, settings);
+}
+
+/** "Title_00-01-02_345_1920x1080.png" - source, timecode and size in the name. */
+export const frameFileName = (
+    title: string,
+    time: number,
+    { width, height }: FrameSize,
+    format: FrameFormat
+): string =>
+    `${fileNameFromTitle(title)}_${formatFileTime(time)}_${width}x${height}.${EXTENSIONS[format]}`;
+
+/**
+ * Decodes the frame at `time` (source seconds) and writes it to the cache.
+ * `size` is the video's own size when the player knows it; otherwise the
+ * decoded frame's size is used.
+ */
+export async function grabFrame(
+    sourceUri: string,
+    time: number,
+    title: string,
+    settings: FrameGrabSettings,
+    size?: FrameSize | null
+): Promise<FrameGrab> {
+    const frame = await VideoThumbnails.getThumbnailAsync(sourceUri, {
+        time: Math.max(0, time) * 1000,
+        quality: 1,
+    });
+    const width = Math.round(size?.width || frame.width);
+    const height = Math.round(size?.height || frame.height);
+
+    const image = await ImageManipulator.manipulate(frame.uri)
+        .resize({ width, height })
+        .renderAsync();
+    const result = await image.saveAsync({
+        format: SAVE_FORMATS[settings.format],
+        compress: settings.format === 'jpeg' ? settings.quality : 1,
+    });
+
+    const directory = new Directory(Paths.cache, FRAME_DIRECTORY_NAME);
+    if (!directory.exists) directory.create({ intermediates: true });
+    const fileName = frameFileName(title, time, { width, height }, settings.format);
+    const output = new File(directory, fileName);
+    if (output.exists) output.delete();
+    new File(result.uri).move(output);
+    try {
+        new File(frame.uri).delete();
+    } catch {
+        // Left for the OS to clear with the rest of the cache
+    }
+
+    return { uri: output.uri, fileName, width, height, mimeType: MIME_TYPES[settings.format] };
+}
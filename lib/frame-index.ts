@@ -0,0 +1,60 @@
+/**
+ * In-memory lookup of already generated frames, per source, sorted by time.
+ * Lets the scrub preview show the closest known frame without waiting.
+ */
+
+export interface IndexedFrame {
+    time: number;
+    uri: string;
+}
+
+export class FrameIndex {
+    private frames = new Map<string, IndexedFrame[]>();
+
+    add(sourceUri: string, time: number, uri: string): void {
+        const list = this.frames.get(sourceUri) ?? [];
+        const index = this.lowerBound(list, time);
+        if (list[index]?.time === time) {
+            list[index] = { time, uri };
+        } else {
+            list.splice(index, 0, { time, uri });
+        }
+        this.frames.set(sourceUri, list);
+    }
+
+    /** Closest frame to `time` for a source, or null when none is known. */
+    nearest(sourceUri: string, time: number): IndexedFrame | null {
+        const list = this.frames.get(sourceUri);
+        if (!list || list.length === 0) return null;
+
+        const index = this.lowerBound(list, time);
+        const after = list[index];
+        const before = list[index - 1];
+        if (!after) return before;
+        if (!before) return after;
+        return time - before.time <= after.time - time ? before : after;
+    }
+
+    clear(sourceUri?: string): void {
+        if (sourceUri === undefined) {
+            this.frames.clear();
+        } else {
+            this.frames.delete(sourceUri);
+        }
+    }
+
+    // First position whose time is >= `time`
+    private lowerBound(list: IndexedFrame[], time: number): number {
+        let lo = 0;
+        let hi = list.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (list[mid].time < time) {
+                lo = mid + 1;
+            } else {
+                hi = mid;
+            }
+        }
+        return lo;
+    }
+}
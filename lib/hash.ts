@@ -0,0 +1,8 @@
+/** djb2 string hash as hex - short, stable and safe to use in file names. */
+export function hashString(value: string): string {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+        hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(16);
+}
@@ -0,0 +1,57 @@
+import { Directory, File, Paths } from 'expo-file-system';
+
+import { hashString } from './hash';
+
+/**
+ * Small JSON documents persisted in the app's document directory. Reads fall
+ * back to a default and writes fail silently, so callers can treat storage as
+ * best effort (it isn't available on web).
+ */
+
+const STORAGE_DIRECTORY_NAME = 'storage';
+
+const getFile = (name: string): File | null => {
+    try {
+        const directory = new Directory(Paths.document, STORAGE_DIRECTORY_NAME);
+        if (!directory.exists) {
+            directory.create({ intermediates: true });
+        }
+        return new File(directory, `${name}.json`);
+    } catch {
+        return null;
+    }
+};
+
+/** Storage name for data that belongs to one video source. */
+export const sourceStorageName = (prefix: string, sourceUri: string): string =>
+    `${prefix}-${hashString(sourceUri)}`;
+
+export function readJson<T>(name: string, fallback: T): T {
+    const file = getFile(name);
+    if (!file?.exists) return fallback;
+    try {
+        return JSON.parse(file.textSync()) as T;
+    } catch {
+        return fallback;
+    }
+}
+
+export function writeJson(name: string, value: unknown): void {
+    const file = getFile(name);
+    if (!file) return;
+    try {
+        if (!file.exists) file.create();
+        file.write(JSON.stringify(value));
+    } catch {
+        // Best effort - the in-memory state is still correct
+    }
+}
+
+export function removeJson(name: string): void {
+    const file = getFile(name);
+    try {
+        if (file?.exists) file.delete();
+    } catch {
+        // Ignore
+    }
+}
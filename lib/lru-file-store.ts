@@ -0,0 +1,222 @@
+import { Directory, File, Paths } from 'expo-file-system';
+
+/**
+ * Files in a cache directory, tracked by an index file so they survive app
+ * restarts. Entries are kept in least-recently-used order (reads count as
+ * use) and evicted once their files exceed the byte budget. Each entry names
+ * its files after an id from `createId()`, so different keys never share a
+ * file. The thumbnail and waveform caches are built on it.
+ */
+
+const INDEX_FILE_NAME = 'index.json';
+
+// Batch index writes caused by LRU reordering on reads
+const INDEX_WRITE_DELAY = 500;
+
+export interface StoreEntry {
+    bytes: number;
+}
+
+interface StoreIndex<Entry> {
+    format: string;
+    /** Entries ordered from least to most recently used. */
+    entries: [string, Entry][];
+    /** Id for the next entry's file names. */
+    nextId: number;
+}
+
+export interface LruFileStoreOptions<Entry extends StoreEntry> {
+    /** Directory inside the app cache. */
+    directoryName: string;
+    /** Describes the entries; an index written in another format is dropped. */
+    format: string;
+    maxBytes: number;
+    /** Names of the entry's files inside the directory; null is skipped. */
+    filesOf: (entry: Entry) => (string | null)[];
+    /** Called once an entry is gone, e.g. to drop a copy kept in memory. */
+    onRemove?: (key: string) => void;
+}
+
+function openDirectory(name: string): Directory | null {
+    try {
+        const directory = new Directory(Paths.cache, name);
+        if (!directory.exists) {
+            directory.create({ intermediates: true });
+        }
+        return directory;
+    } catch {
+        // No writable cache directory (e.g. web)
+        return null;
+    }
+}
+
+export class LruFileStore<Entry extends StoreEntry> {
+    /** Where the entries' files go; null when there's nowhere to write (e.g. web). */
+    readonly directory: Directory | null;
+    private entries = new Map<string, Entry>();
+    private totalBytes = 0;
+    private nextId = 1;
+    private maxBytes: number;
+    private writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(private readonly options: LruFileStoreOptions<Entry>) {
+        this.maxBytes = options.maxBytes;
+        this.directory = openDirectory(options.directoryName);
+        this.load();
+    }
+
+    get size(): number {
+        return this.totalBytes;
+    }
+
+    /** The entry for `key`, which becomes the most recently used. */
+    get(key: string): Entry | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+
+        // Move to the most recently used end
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.scheduleIndexWrite();
+        return entry;
+    }
+
+    /** A new id to name an entry's files after, before they're written. */
+    createId(): number {
+        return this.nextId++;
+    }
+
+    /** Adds an entry whose files are already written, replacing any for `key`. */
+    set(key: string, entry: Entry): void {
+        this.remove(key);
+        this.entries.set(key, entry);
+        this.totalBytes += entry.bytes;
+        this.evict();
+        this.scheduleIndexWrite();
+    }
+
+    /** Removes an entry and its files. */
+    delete(key: string): void {
+        this.remove(key);
+        this.scheduleIndexWrite();
+    }
+
+    /** Changes the byte budget, evicting immediately if it shrank. */
+    setMaxBytes(maxBytes: number): void {
+        this.maxBytes = maxBytes;
+        this.evict();
+        this.scheduleIndexWrite();
+    }
+
+    clear(): void {
+        for (const key of [...this.entries.keys()]) {
+            this.remove(key);
+        }
+        this.writeIndex();
+    }
+
+    private load(): void {
+        if (!this.directory) return;
+
+        try {
+            const indexFile = new File(this.directory, INDEX_FILE_NAME);
+            if (indexFile.exists) {
+                const index: StoreIndex<Entry> = JSON.parse(indexFile.textSync());
+                if (index.format === this.options.format) {
+                    for (const [key, entry] of index.entries) {
+                        this.entries.set(key, entry);
+                        this.totalBytes += entry.bytes;
+                    }
+                    this.nextId = index.nextId;
+                }
+            }
+        } catch {
+            // Corrupt index - start over, the orphan sweep removes old files
+            this.entries.clear();
+            this.totalBytes = 0;
+            this.nextId = 1;
+        }
+
+        this.removeOrphans();
+        this.evict();
+    }
+
+    /** Deletes files the index doesn't know and entries whose files vanished. */
+    private removeOrphans(): void {
+        const directory = this.directory;
+        if (!directory) return;
+
+        for (const [key, entry] of this.entries) {
+            const missing = this.options
+                .filesOf(entry)
+                .some((name) => name !== null && !new File(directory, name).exists);
+            if (missing) this.remove(key);
+        }
+
+        const referenced = new Set<string>([INDEX_FILE_NAME]);
+        this.entries.forEach((entry) => {
+            this.options.filesOf(entry).forEach((name) => name && referenced.add(name));
+        });
+
+        for (const item of directory.list()) {
+            if (item instanceof File && !referenced.has(item.name)) {
+                try {
+                    item.delete();
+                } catch {
+                    // Ignore - retried on next launch
+                }
+            }
+        }
+    }
+
+    private remove(key: string): void {
+        const entry = this.entries.get(key);
+        if (!entry) return;
+
+        this.entries.delete(key);
+        this.totalBytes -= entry.bytes;
+        for (const name of this.options.filesOf(entry)) {
+            if (!name || !this.directory) continue;
+            try {
+                const file = new File(this.directory, name);
+                if (file.exists) file.delete();
+            } catch {
+                // Ignore - the orphan sweep picks it up later
+            }
+        }
+        this.options.onRemove?.(key);
+    }
+
+    // Drop least recently used entries until we're within budget
+    private evict(): void {
+        while (this.totalBytes > this.maxBytes && this.entries.size > 0) {
+            const oldestKey = this.entries.keys().next().value;
+            if (oldestKey === undefined) break;
+            this.remove(oldestKey);
+        }
+    }
+
+    private scheduleIndexWrite(): void {
+        if (this.writeTimer) return;
+        this.writeTimer = setTimeout(() => {
+            this.writeTimer = null;
+            this.writeIndex();
+        }, INDEX_WRITE_DELAY);
+    }
+
+    private writeIndex(): void {
+        if (!this.directory) return;
+        const index: StoreIndex<Entry> = {
+            format: this.options.format,
+            entries: [...this.entries],
+            nextId: this.nextId,
+        };
+        try {
+            const indexFile = new File(this.directory, INDEX_FILE_NAME);
+            if (!indexFile.exists) indexFile.create();
+            indexFile.write(JSON.stringify(index));
+        } catch {
+            // Entries stay usable in memory for this session
+        }
+    }
+}
@@ -0,0 +1,146 @@
+/**
+ * Named timeline markers and the chapters derived from them.
+ *
+ * Markers live on the sequence timeline. Chapters run from one marker to the
+ * next (the last one to the end), which is also how WebVTT chapter tracks and
+ * YouTube description timestamps describe them, so both formats round-trip.
+ */
+
+import { formatClockTime, formatVttTime, parseClockTime } from './timecode';
+
+export interface Marker {
+    id: string;
+    time: number;
+    title: string;
+    color: string;
+}
+
+export interface Chapter {
+    marker: Marker;
+    start: number;
+    end: number;
+}
+
+export type ChapterFormat = 'webvtt' | 'youtube';
+
+export const MARKER_COLORS = ['#FFD700', '#FF6B6B', '#4ECDC4', '#A78BFA', '#34D399', '#F472B6'];
+
+let markerCounter = 0;
+
+export const createMarkerId = (): string => `marker-${Date.now().toString(36)}-${++markerCounter}`;
+
+export function createMarker(time: number, title: string, color = MARKER_COLORS[0]): Marker {
+    return { id: createMarkerId(), time: Math.max(0, time), title, color };
+}
+
+export const sortMarkers = (markers: Marker[]): Marker[] =>
+    [...markers].sort((a, b) => a.time - b.time);
+
+/** Picks the next color in the palette so neighbouring markers differ. */
+export const nextMarkerColor = (markers: Marker[]): string =>
+    MARKER_COLORS[markers.length % MARKER_COLORS.length];
+
+/** Chapters in time order. Markers past `duration` are dropped. */
+export function deriveChapters(markers: Marker[], duration: number): Chapter[] {
+    const sorted = sortMarkers(markers).filter((marker) => marker.time < duration);
+    return sorted.map((marker, i) => ({
+        marker,
+        start: marker.time,
+        end: i + 1 < sorted.length ? sorted[i + 1].time : duration,
+    }));
+}
+
+// ============================================================================
+// WebVTT
+// ============================================================================
+
+export function toWebVTTChapters(markers: Marker[], duration: number): string {
+    const cues = deriveChapters(markers, duration).map(
+        ({ marker, start, end }, i) =>
+            `${i + 1}\n${formatVttTime(start)} --> ${formatVttTime(end)}\n${marker.title}`
+    );
+    return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+const VTT_TIMING = /^\s*(\S+)\s+-->\s+(\S+)/;
+
+/** Reads cue start times and titles; cue end times are implied by the next cue. */
+export function parseWebVTTChapters(text: string): Marker[] {
+    const markers: Marker[] = [];
+    const blocks = text.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex((line) => VTT_TIMING.test(line));
+        if (timingIndex < 0) continue;
+
+        const start = parseClockTime(lines[timingIndex].match(VTT_TIMING)![1]);
+        const title = lines
+            .slice(timingIndex + 1)
+            .join(' ')
+            .trim();
+        if (start === null) continue;
+
+        markers.push(
+            createMarker(start, title || `Chapter ${markers.length + 1}`, nextMarkerColor(markers))
+        );
+    }
+
+    return sortMarkers(markers);
+}
+
+// ============================================================================
+// YouTube description text
+// ============================================================================
+
+export function toYouTubeChapters(markers: Marker[], duration: number): string {
+    const chapters = deriveChapters(markers, duration);
+    // YouTube only recognizes a chapter list that starts at 00:00
+    if (chapters.length > 0 && chapters[0].start > 0) {
+        chapters.unshift({
+            marker: createMarker(0, 'Intro'),
+            start: 0,
+            end: chapters[0].start,
+        });
+    }
+    return chapters
+        .map(({ marker, start }) => `${formatClockTime(start)} ${marker.title}`)
+        .join('\n');
+}
+
+// "00:00 Title", "1:02:03 - Title", "(12:34) Title" - ignores any other lines
+const YOUTUBE_LINE = /^\s*[([]?((?:\d+:)?\d{1,2}:\d{2})[)\]]?\s*[-–—:]?\s*(.*)$/;
+
+export function parseYouTubeChapters(text: string): Marker[] {
+    const markers: Marker[] = [];
+
+    for (const line of text.split(/\r?\n/)) {
+        const match = line.match(YOUTUBE_LINE);
+        if (!match) continue;
+        const start = parseClockTime(match[1]);
+        if (start === null) continue;
+        const title = match[2].trim() || `Chapter ${markers.length + 1}`;
+        markers.push(createMarker(start, title, nextMarkerColor(markers)));
+    }
+
+    return sortMarkers(markers);
+}
+
+export const detectChapterFormat = (text: string): ChapterFormat =>
+    text.trimStart().startsWith('WEBVTT') ? 'webvtt' : 'youtube';
+
+export function parseChapters(text: string): Marker[] {
+    return detectChapterFormat(text) === 'webvtt'
+        ? parseWebVTTChapters(text)
+        : parseYouTubeChapters(text);
+}
+
+export function formatChapters(
+    format: ChapterFormat,
+    markers: Marker[],
+    duration: number
+): string {
+    return format === 'webvtt'
+        ? toWebVTTChapters(markers, duration)
+        : toYouTubeChapters(markers, duration);
+}
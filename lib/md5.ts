@@ -0,0 +1,107 @@
+/**
+ * Incremental MD5 (RFC 1321), for checking downloads as they stream in
+ * instead of hashing the finished file in one blocking pass.
+ */
+
+// Per-round left rotations and the sine-derived constants
+const SHIFTS = [
+    7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9,
+    14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15,
+    21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+const CONSTANTS = Array.from({ length: 64 }, (_, i) =>
+    Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32)
+);
+
+const BLOCK_SIZE = 64;
+
+export class Md5 {
+    private state = new Int32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+    private buffer = new Uint8Array(BLOCK_SIZE);
+    private buffered = 0;
+    private length = 0;
+    private words = new Int32Array(16);
+
+    update(bytes: Uint8Array): this {
+        let i = 0;
+        this.length += bytes.length;
+
+        // Top up a partial block first
+        if (this.buffered > 0) {
+            const take = Math.min(BLOCK_SIZE - this.buffered, bytes.length);
+            this.buffer.set(bytes.subarray(0, take), this.buffered);
+            this.buffered += take;
+            i = take;
+            if (this.buffered < BLOCK_SIZE) return this;
+            this.processBlock(this.buffer, 0);
+            this.buffered = 0;
+        }
+
+        for (; i + BLOCK_SIZE <= bytes.length; i += BLOCK_SIZE) {
+            this.processBlock(bytes, i);
+        }
+        this.buffer.set(bytes.subarray(i), 0);
+        this.buffered = bytes.length - i;
+        return this;
+    }
+
+    /** Hex digest of everything passed to update(); call it once, at the end. */
+    digest(): string {
+        // A 1 bit, zeros, then the length in bits: the block count comes out whole
+        const bitLength = this.length * 8;
+        const padding = new Uint8Array((this.buffered < 56 ? 64 : 128) - this.buffered);
+        padding[0] = 0x80;
+        const view = new DataView(padding.buffer);
+        view.setUint32(padding.length - 8, bitLength >>> 0, true);
+        view.setUint32(padding.length - 4, Math.floor(bitLength / 2 ** 32), true);
+        this.update(padding);
+
+        return Array.from(new Uint8Array(this.state.buffer), (byte) =>
+            byte.toString(16).padStart(2, '0')
+        ).join('');
+    }
+
+    private processBlock(bytes: Uint8Array, offset: number): void {
+        const words = this.words;
+        for (let j = 0; j < 16; j++) {
+            const k = offset + j * 4;
+            words[j] = bytes[k] | (bytes[k + 1] << 8) | (bytes[k + 2] << 16) | (bytes[k + 3] << 24);
+        }
+
+        let [a, b, c, d] = this.state;
+        for (let j = 0; j < 64; j++) {
+            let f: number;
+            let g: number;
+            if (j < 16) {
+                f = (b & c) | (~b & d);
+                g = j;
+            } else if (j < 32) {
+                f = (d & b) | (~d & c);
+                g = (5 * j + 1) % 16;
+            } else if (j < 48) {
+                f = b ^ c ^ d;
+                g = (3 * j + 5) % 16;
+            } else {
+                f = c ^ (b | ~d);
+                g = (7 * j) % 16;
+            }
+            const sum = (a + f + CONSTANTS[j] + words[g]) | 0;
+            a = d;
+            d = c;
+            c = b;
+            b = (b + ((sum << SHIFTS[j]) | (sum >>> (32 - SHIFTS[j])))) | 0;
+        }
+
+        this.state[0] += a;
+        this.state[1] += b;
+        this.state[2] += c;
+        this.state[3] += d;
+    }
+}
+
+/** Hex form of a base64 digest, as sent in Content-MD5 and x-goog-hash headers. */
+export function base64ToHex(base64: string): string {
+    return Array.from(atob(base64.trim()), (char) =>
+        char.charCodeAt(0).toString(16).padStart(2, '0')
+    ).join('');
+}
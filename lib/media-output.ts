@@ -0,0 +1,22 @@
+import * as MediaLibrary from 'expo-media-library';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Handing exported files to the user: the photo library or the share sheet.
+ * Both reject when the platform can't do it; callers show the error.
+ */
+
+/** Saves an image or video to the library; false when access was denied. */
+export async function saveToLibrary(uri: string): Promise<boolean> {
+    const permission = await MediaLibrary.requestPermissionsAsync(true);
+    if (!permission.granted) return false;
+    await MediaLibrary.saveToLibraryAsync(uri);
+    return true;
+}
+
+export async function shareFile(uri: string, mimeType: string): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(uri, { mimeType });
+}
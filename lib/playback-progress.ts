@@ -0,0 +1,62 @@
+/**
+ * Where playback of each source stopped, so reopening it continues there.
+ * A position close to the end marks the video as watched, and it then
+ * starts from the beginning again.
+ */
+
+import { readJson, removeJson, sourceStorageName, writeJson } from './json-storage';
+
+export interface PlaybackProgress {
+    /** Position on the sequence timeline, in seconds. */
+    position: number;
+    /** Sequence duration, in seconds. */
+    duration: number;
+    updatedAt: number;
+}
+
+// How often the position is written while playing; pause and close always write
+export const PROGRESS_SAVE_INTERVAL = 5000;
+
+// Watched once past this fraction, or within this many seconds of the end
+const COMPLETED_FRACTION = 0.95;
+const COMPLETED_REMAINING = 10;
+
+// Positions this early aren't worth resuming from
+const MIN_RESUME_POSITION = 5;
+
+const progressStorageName = (uri: string) => sourceStorageName('progress', uri);
+
+export function loadProgress(uri: string): PlaybackProgress | null {
+    return readJson<PlaybackProgress | null>(progressStorageName(uri), null);
+}
+
+export function saveProgress(
+    uri: string,
+    position: number,
+    duration: number,
+    now = Date.now()
+): void {
+    if (duration <= 0) return;
+    writeJson(progressStorageName(uri), { position, duration, updatedAt: now });
+}
+
+export function clearProgress(uri: string): void {
+    removeJson(progressStorageName(uri));
+}
+
+export const isCompleted = ({ position, duration }: PlaybackProgress): boolean =>
+    duration > 0 &&
+    (position >= duration * COMPLETED_FRACTION || duration - position <= COMPLETED_REMAINING);
+
+/** Where to continue from, or null to start at the beginning. */
+export function resumePosition(progress: PlaybackProgress | null): number | null {
+    if (!progress || isCompleted(progress)) return null;
+    return progress.position >= MIN_RESUME_POSITION ? progress.position : null;
+}
+
+/** Share of the video watched, 0-1; a completed video counts as 1. */
+export function progressFraction(progress: PlaybackProgress | null): number {
+    if (!progress || progress.duration <= 0) return 0;
+    if (isCompleted(progress)) return 1;
+    return Math.min(1, Math.max(0, progress.position / progress.duration));
+}
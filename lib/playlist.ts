@@ -0,0 +1,163 @@
+/**
+ * Playlist of sources played one after another.
+ *
+ * `items` is the play order. Shuffling reorders the items after the current
+ * one and keeps the previous order around, so turning shuffle off puts the
+ * queue back the way it was. Every operation is pure and returns a new
+ * playlist.
+ */
+
+import { readJson, writeJson } from './json-storage';
+import type { VideoSourceInfo } from './video-source';
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one'];
+
+export interface Playlist {
+    items: VideoSourceInfo[];
+    index: number;
+    shuffle: boolean;
+    repeat: RepeatMode;
+    /** Play order from before shuffling, restored when shuffle is turned off. */
+    unshuffled: VideoSourceInfo[] | null;
+}
+
+/** What happens when the current item plays to the end. */
+export type EndAction = 'next' | 'replay' | 'stop';
+
+const PLAYLIST_STORAGE_NAME = 'playlist';
+
+// Repeat all by default so a single video keeps looping as it always has
+export function createPlaylist(items: VideoSourceInfo[], index = 0): Playlist {
+    const unique = items.filter(
+        (item, i) => items.findIndex((other) => other.uri === item.uri) === i
+    );
+    return {
+        items: unique,
+        index: Math.max(0, Math.min(index, unique.length - 1)),
+        shuffle: false,
+        repeat: 'all',
+        unshuffled: null,
+    };
+}
+
+export function loadPlaylist(): Playlist | null {
+    const playlist = readJson<Playlist | null>(PLAYLIST_STORAGE_NAME, null);
+    return playlist && playlist.items.length > 0 ? playlist : null;
+}
+
+export function savePlaylist(playlist: Playlist): void {
+    writeJson(PLAYLIST_STORAGE_NAME, playlist);
+}
+
+export const currentItem = (playlist: Playlist): VideoSourceInfo | undefined =>
+    playlist.items[playlist.index];
+
+export const indexOfUri = (playlist: Playlist, uri: string): number =>
+    playlist.items.findIndex((item) => item.uri === uri);
+
+/**
+ * Index to play after the current item, or null when playback should stop.
+ * `auto` is true when the item ended by itself, which is when repeat-one
+ * applies; the next button always moves on.
+ */
+export function nextIndex(playlist: Playlist, auto: boolean): number | null {
+    const { items, index, repeat } = playlist;
+    if (auto && repeat === 'one') return index;
+    if (index + 1 < items.length) return index + 1;
+    return repeat === 'off' ? null : 0;
+}
+
+export function previousIndex(playlist: Playlist): number | null {
+    const { items, index, repeat } = playlist;
+    if (index > 0) return index - 1;
+    return repeat === 'off' ? null : items.length - 1;
+}
+
+export function endAction(playlist: Playlist): EndAction {
+    const next = nextIndex(playlist, true);
+    if (next === null) return 'stop';
+    return next === playlist.index ? 'replay' : 'next';
+}
+
+export function goTo(playlist: Playlist, index: number): Playlist {
+    if (index < 0 || index >= playlist.items.length) return playlist;
+    return { ...playlist, index };
+}
+
+/** Moves an item within the play order; the current item keeps playing. */
+export function moveItem(playlist: Playlist, from: number, to: number): Playlist {
+    const { items } = playlist;
+    if (from < 0 || from >= items.length || to < 0 || to >= items.length || from === to) {
+        return playlist;
+    }
+
+    const current = items[playlist.index];
+    const next = [...items];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    return { ...playlist, items: next, index: next.indexOf(current) };
+}
+
+/** Removes an item. Removing the current one makes the following item current. */
+export function removeItem(playlist: Playlist, index: number): Playlist {
+    const { items } = playlist;
+    if (index < 0 || index >= items.length || items.length <= 1) return playlist;
+
+    const uri = items[index].uri;
+    const next = items.filter((_, i) => i !== index);
+    const current = index < playlist.index ? playlist.index - 1 : playlist.index;
+    return {
+        ...playlist,
+        items: next,
+        index: Math.min(current, next.length - 1),
+        unshuffled: playlist.unshuffled?.filter((item) => item.uri !== uri) ?? null,
+    };
+}
+
+/** Shuffles the items after the current one, or restores their earlier order. */
+export function setShuffle(
+    playlist: Playlist,
+    shuffle: boolean,
+    random: () => number = Math.random
+): Playlist {
+    if (shuffle === playlist.shuffle) return playlist;
+    const current = playlist.items[playlist.index];
+
+    if (!shuffle) {
+        // Items added while shuffled go after the ones the earlier order knows
+        const known = (playlist.unshuffled ?? []).filter((item) =>
+            playlist.items.some((other) => other.uri === item.uri)
+        );
+        const added = playlist.items.filter(
+            (item) => !known.some((other) => other.uri === item.uri)
+        );
+        const items = [...known, ...added];
+        return {
+            ...playlist,
+            items,
+            index: items.findIndex((item) => item.uri === current.uri),
+            shuffle: false,
+            unshuffled: null,
+        };
+    }
+
+    // Fisher-Yates over the upcoming items only
+    const upcoming = playlist.items.slice(playlist.index + 1);
+    for (let i = upcoming.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [upcoming[i], upcoming[j]] = [upcoming[j], upcoming[i]];
+    }
+    return {
+        ...playlist,
+        items: [...playlist.items.slice(0, playlist.index + 1), ...upcoming],
+        shuffle: true,
+        unshuffled: playlist.items,
+    };
+}
+
+export function cycleRepeat(playlist: Playlist): Playlist {
+    const next = REPEAT_MODES[(REPEAT_MODES.indexOf(playlist.repeat) + 1) % REPEAT_MODES.length];
+    return { ...playlist, repeat: next };
+}
@@ -0,0 +1,115 @@
+/**
+ * Seek policy: configurable skip steps, accumulation of repeated skips
+ * ("+30s" after three double-taps) and jumps between edit boundaries.
+ */
+
+import type { Cue } from './captions';
+import { readJson, writeJson } from './json-storage';
+import type { Marker } from './markers';
+import { clipEnd, Project } from './timeline-project';
+
+export interface SeekSettings {
+    /** Seconds the skip-back button jumps. */
+    backwardStep: number;
+    /** Seconds the skip-forward button jumps. */
+    forwardStep: number;
+    /** Seconds each double-tap on the video jumps. */
+    doubleTapStep: number;
+    /** Seconds of video covered per second of long-press fast scrub. */
+    fastScrubRate: number;
+}
+
+export const DEFAULT_SEEK_SETTINGS: SeekSettings = {
+    backwardStep: 10,
+    forwardStep: 10,
+    doubleTapStep: 10,
+    fastScrubRate: 8,
+};
+
+export const SEEK_STEP_OPTIONS = [5, 10, 15, 30, 60];
+export const FAST_SCRUB_RATES = [2, 4, 8, 16];
+
+const SEEK_SETTINGS_STORAGE_NAME = 'seek-settings';
+
+// Skips further apart than this start a new run
+export const SKIP_ACCUMULATE_WINDOW = 1000;
+
+// Within this many seconds after a boundary, "previous" goes one further back
+const BOUNDARY_TOLERANCE = 0.5;
+
+export function loadSeekSettings(): SeekSettings {
+    // Merge so settings saved by an older version pick up new fields
+    return {
+        ...DEFAULT_SEEK_SETTINGS,
+        ...readJson<Partial<SeekSettings>>(SEEK_SETTINGS_STORAGE_NAME, {}),
+    };
+}
+
+export function saveSeekSettings(settings: SeekSettings): void {
+    writeJson(SEEK_SETTINGS_STORAGE_NAME, settings);
+}
+
+export const clampSeek = (time: number, duration: number): number =>
+    Math.max(0, Math.min(time, duration));
+
+/** "+30s" / "-10s" label for an accumulated skip. */
+export const formatSkip = (seconds: number): string =>
+    `${seconds < 0 ? '-' : '+'}${Math.abs(Math.round(seconds))}s`;
+
+/**
+ * Adds up consecutive skips in the same direction. A pause longer than the
+ * window or a change of direction starts over.
+ */
+export class SkipAccumulator {
+    private total = 0;
+    private lastAt = -Infinity;
+
+    constructor(
+        private readonly window = SKIP_ACCUMULATE_WINDOW,
+        private readonly now: () => number = Date.now
+    ) {}
+
+    /** Records a skip of `seconds` (negative = backward); returns the run total. */
+    add(seconds: number): number {
+        const at = this.now();
+        const sameDirection = Math.sign(seconds) === Math.sign(this.total);
+        if (!sameDirection || at - this.lastAt > this.window) {
+            this.total = 0;
+        }
+        this.total += seconds;
+        this.lastAt = at;
+        return this.total;
+    }
+
+    reset(): void {
+        this.total = 0;
+        this.lastAt = -Infinity;
+    }
+}
+
+/** Clip edges, marker times and caption starts, sorted and without duplicates. */
+export function boundaryTimes(
+    project: Project | null,
+    markers: Marker[],
+    captions: Cue[] = []
+): number[] {
+    const times = new Set<number>(markers.map((marker) => marker.time));
+    captions.forEach((cue) => times.add(cue.start));
+    project?.clips.forEach((clip) => {
+        times.add(clip.start);
+        times.add(clipEnd(clip));
+    });
+    return [...times].sort((a, b) => a - b);
+}
+
+export function previousBoundary(times: number[], time: number): number | null {
+    for (let i = times.length - 1; i >= 0; i--) {
+        if (times[i] < time - BOUNDARY_TOLERANCE) return times[i];
+    }
+    return null;
+}
+
+export function nextBoundary(times: number[], time: number): number | null {
+    // Small slack so a seek that landed just short of a boundary doesn't stick there
+    return times.find((boundary) => boundary > time + 0.05) ?? null;
+}
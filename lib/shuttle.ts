@@ -0,0 +1,46 @@
+/**
+ * Playback speeds and J/K/L shuttle control.
+ *
+ * Rates are signed: negative means reverse, which the player can't do
+ * natively and is simulated by stepping backwards (see usePlaybackRate).
+ * L plays forward and doubles the speed on each further press, J does the
+ * same in reverse, K stops.
+ */
+
+export const SPEED_OPTIONS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+export const MAX_SHUTTLE_RATE = 4;
+
+export type ShuttleKey = 'j' | 'k' | 'l';
+
+export interface ShuttleState {
+    rate: number;
+    playing: boolean;
+}
+
+export function shuttle(state: ShuttleState, key: ShuttleKey): ShuttleState {
+    const { rate, playing } = state;
+    switch (key) {
+        case 'l':
+            return playing && rate > 0
+                ? { rate: Math.min(rate * 2, MAX_SHUTTLE_RATE), playing: true }
+                : { rate: 1, playing: true };
+        case 'j':
+            return playing && rate < 0
+                ? { rate: Math.max(rate * 2, -MAX_SHUTTLE_RATE), playing: true }
+                : { rate: -1, playing: true };
+        case 'k':
+            // Stopping leaves reverse so the play button resumes forward
+            return { rate: rate < 0 ? 1 : rate, playing: false };
+    }
+}
+
+/** Maps a keyboard key to a shuttle key, ignoring case. */
+export function toShuttleKey(key: string): ShuttleKey | null {
+    const lower = key.toLowerCase();
+    return lower === 'j' || lower === 'k' || lower === 'l' ? lower : null;
+}
+
+/** "1x", "0.25x", or "◀ 2x" in reverse. */
+export const formatRate = (rate: number): string =>
+    `${rate < 0 ? '◀ ' : ''}${Math.abs(rate)}x`;
@@ -0,0 +1,84 @@
+/**
+ * Thumbnails cut from sprite sheets: images holding a grid of small frames,
+ * each covering a time range. Streams publish these so clients don't have to
+ * decode frames themselves.
+ */
+
+/** Region of an image, in the image's own pixels. */
+export interface SpriteCrop {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** A thumbnail to draw: a whole image, or one tile of a sprite sheet. */
+export interface ThumbnailImage {
+    uri: string;
+    crop?: SpriteCrop;
+}
+
+export interface SpriteTile {
+    /** Time range the tile stands for, in source seconds. */
+    start: number;
+    end: number;
+    image: ThumbnailImage;
+}
+
+export interface SpriteGrid {
+    uri: string;
+    /** Source time of the first tile. */
+    start: number;
+    /** Seconds each tile covers. */
+    tileDuration: number;
+    columns: number;
+    rows: number;
+    tileWidth: number;
+    tileHeight: number;
+    /** Tiles actually used; the last sheet of a stream is often partly empty. */
+    count?: number;
+}
+
+/** Tiles of one sprite sheet, row by row. */
+export function gridTiles(grid: SpriteGrid): SpriteTile[] {
+    const count = Math.min(grid.count ?? Infinity, grid.columns * grid.rows);
+    return Array.from({ length: count }, (_, i) => {
+        const start = grid.start + i * grid.tileDuration;
+        return {
+            start,
+            end: start + grid.tileDuration,
+            image: {
+                uri: grid.uri,
+                crop: {
+                    x: (i % grid.columns) * grid.tileWidth,
+                    y: Math.floor(i / grid.columns) * grid.tileHeight,
+                    width: grid.tileWidth,
+                    height: grid.tileHeight,
+                },
+            },
+        };
+    });
+}
+
+/** Tile covering `time` (tiles sorted by start), or the closest one. */
+export function tileAt(tiles: SpriteTile[], time: number): SpriteTile | null {
+    if (tiles.length === 0) return null;
+
+    // Last tile starting at or before `time`
+    let lo = 0;
+    let hi = tiles.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (tiles[mid].start <= time) {
+            lo = mid;
+        } else {
+            hi = mid - 1;
+        }
+    }
+
+    const tile = tiles[lo];
+    const after = tiles[lo + 1];
+    if (time < tile.end || !after) return tile;
+    // In a gap between tiles - pick the nearer side
+    return time - tile.end <= after.start - time ? tile : after;
+}
@@ -0,0 +1,455 @@
+/**
+ * HLS and DASH manifests: what a stream offers (video renditions and
+ * thumbnail sprites) and single-rendition copies of a manifest for pinning
+ * playback to one quality. Audio and subtitle tracks come from the player.
+ *
+ * Parsing is line/regex based and tolerant - unknown tags and attributes
+ * are skipped, so a partly understood manifest still plays.
+ */
+
+import { Directory, File, Paths } from 'expo-file-system';
+import type { VideoSource } from 'expo-video';
+
+import { hashString } from './hash';
+import { gridTiles, SpriteTile } from './sprite-tiles';
+
+export type StreamType = 'hls' | 'dash' | 'progressive';
+
+/** One video quality the stream offers. */
+export interface Rendition {
+    id: string;
+    /** Peak bits per second. */
+    bandwidth: number;
+    width: number;
+    height: number;
+    frameRate: number | null;
+    /** Media playlist (HLS only). */
+    uri?: string;
+}
+
+export interface StreamManifest {
+    type: Exclude<StreamType, 'progressive'>;
+    uri: string;
+    text: string;
+    /** Sorted from the highest bandwidth down. */
+    renditions: Rendition[];
+    /** Sprite tiles for the timeline, when the stream publishes an image track. */
+    thumbnails: SpriteTile[];
+}
+
+const PINNED_DIRECTORY_NAME = 'streams';
+
+export function detectStreamType(uri: string): StreamType {
+    const path = uri.split(/[?#]/)[0].toLowerCase();
+    if (path.endsWith('.m3u8')) return 'hls';
+    if (path.endsWith('.mpd')) return 'dash';
+    return 'progressive';
+}
+
+/** Player source with the content type spelled out (iOS needs it for HLS). */
+export function toVideoSource(uri: string, type = detectStreamType(uri)): VideoSource {
+    return type === 'progressive' ? uri : { uri, contentType: type };
+}
+
+/** Resolves a manifest reference against the manifest's own URL. */
+export function resolveUri(base: string, reference: string): string {
+    if (/^[a-z][\w+.-]*:/i.test(reference)) return reference;
+
+    const origin = base.match(/^[a-z][\w+.-]*:\/\/[^/?#]*/i)?.[0] ?? '';
+    if (reference.startsWith('//')) return `${base.split(':')[0]}:${reference}`;
+    if (reference.startsWith('/')) return origin + reference;
+
+    const path = base.split(/[?#]/)[0];
+    const segments = path.substring(origin.length, path.lastIndexOf('/') + 1).split('/');
+    segments.pop();
+    for (const part of reference.split('/')) {
+        if (part === '..') {
+            if (segments.length > 1) segments.pop();
+        } else if (part !== '.') {
+            segments.push(part);
+        }
+    }
+    return origin + segments.join('/');
+}
+
+// "5x5" / "1280x720"
+const parsePair = (value: string | undefined): [number, number] | null => {
+    const match = value?.match(/^(\d+)x(\d+)$/i);
+    return match ? [Number(match[1]), Number(match[2])] : null;
+};
+
+const byBandwidth = (a: Rendition, b: Rendition) => b.bandwidth - a.bandwidth;
+
+// ============================================================================
+// HLS
+// ============================================================================
+
+/** HLS attribute list: KEY=value,KEY="quoted, value" */
+export function parseAttributes(list: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(list))) {
+        attributes[match[1].toUpperCase()] = match[2].replace(/^"|"$/g, '');
+    }
+    return attributes;
+}
+
+const tagValue = (line: string) => line.substring(line.indexOf(':') + 1);
+
+interface HlsMaster {
+    renditions: Rendition[];
+    /** Image media playlist with thumbnail tiles. */
+    imagePlaylistUri: string | null;
+}
+
+export function parseHlsMaster(text: string, baseUri: string): HlsMaster {
+    const lines = text.split(/\r?\n/).map((line) => line.trim());
+    const master: HlsMaster = { renditions: [], imagePlaylistUri: null };
+
+    lines.forEach((line, i) => {
+        if (line.startsWith('#EXT-X-STREAM-INF:')) {
+            const attributes = parseAttributes(tagValue(line));
+            const uri = lines.slice(i + 1).find((next) => next && !next.startsWith('#'));
+            const size = parsePair(attributes.RESOLUTION);
+            if (!uri) return;
+            master.renditions.push({
+                id: String(master.renditions.length),
+                bandwidth: Number(attributes.BANDWIDTH) || 0,
+                width: size?.[0] ?? 0,
+                height: size?.[1] ?? 0,
+                frameRate: Number(attributes['FRAME-RATE']) || null,
+                uri: resolveUri(baseUri, uri),
+            });
+        } else if (line.startsWith('#EXT-X-IMAGE-STREAM-INF:') && !master.imagePlaylistUri) {
+            const uri = parseAttributes(tagValue(line)).URI;
+            if (uri) master.imagePlaylistUri = resolveUri(baseUri, uri);
+        }
+    });
+
+    master.renditions.sort(byBandwidth);
+    return master;
+}
+
+/**
+ * Tiles of an HLS image media playlist: each segment is a sprite laid out as
+ * in the last #EXT-X-TILES, and its #EXTINF says how much time it covers.
+ */
+export function parseHlsImagePlaylist(text: string, baseUri: string): SpriteTile[] {
+    const tiles: SpriteTile[] = [];
+    let layout: [number, number] | null = null;
+    let size: [number, number] | null = null;
+    let tileDuration = 0;
+    let segmentDuration = 0;
+    let time = 0;
+
+    for (const raw of text.split(/\r?\n/)) {
+        const line = raw.trim();
+        if (line.startsWith('#EXT-X-TILES:')) {
+            const attributes = parseAttributes(tagValue(line));
+            layout = parsePair(attributes.LAYOUT);
+            size = parsePair(attributes.RESOLUTION);
+            tileDuration = Number(attributes.DURATION) || 0;
+        } else if (line.startsWith('#EXTINF:')) {
+            segmentDuration = parseFloat(tagValue(line)) || 0;
+        } else if (line && !line.startsWith('#')) {
+            if (layout && size && tileDuration > 0) {
+                tiles.push(
+                    ...gridTiles({
+                        uri: resolveUri(baseUri, line),
+                        start: time,
+                        tileDuration,
+                        columns: layout[0],
+                        rows: layout[1],
+                        tileWidth: size[0],
+                        tileHeight: size[1],
+                        count: Math.ceil(segmentDuration / tileDuration - 0.001),
+                    })
+                );
+            }
+            time += segmentDuration;
+        }
+    }
+    return tiles;
+}
+
+/** The master playlist with a single variant, every URI made absolute. */
+export function pinHlsRendition(text: string, baseUri: string, rendition: Rendition): string {
+    const lines = text.split(/\r?\n/);
+    const output: string[] = [];
+    let index = -1;
+    let skipUri = false;
+
+    for (const raw of lines) {
+        const line = raw.trim();
+        if (line.startsWith('#EXT-X-STREAM-INF:')) {
+            // Renditions were numbered in file order before sorting
+            index++;
+            skipUri = String(index) !== rendition.id;
+            if (!skipUri) output.push(line);
+        } else if (line && !line.startsWith('#')) {
+            if (!skipUri) output.push(resolveUri(baseUri, line));
+            skipUri = false;
+        } else if (
+            line.startsWith('#EXT-X-I-FRAME-STREAM-INF:') ||
+            line.startsWith('#EXT-X-IMAGE-STREAM-INF:')
+        ) {
+            continue;
+        } else {
+            output.push(
+                line.replace(/URI="([^"]*)"/, (_, uri) => `URI="${resolveUri(baseUri, uri)}"`)
+            );
+        }
+    }
+    return output.join('\n');
+}
+
+// ============================================================================
+// DASH
+// ============================================================================
+
+const xmlAttributes = (tag: string): Record<string, string> => {
+    const attributes: Record<string, string> = {};
+    const pattern = /([\w:-]+)="([^"]*)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(tag))) {
+        attributes[match[1]] = match[2];
+    }
+    return attributes;
+};
+
+/** ISO 8601 duration as used by MPDs, e.g. "PT1H2M3.5S". */
+export function parseIsoDuration(value: string | undefined): number {
+    const match = value?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?)?$/);
+    if (!match) return 0;
+    const [, days, hours, minutes, seconds] = match;
+    return (
+        Number(days ?? 0) * 86400 +
+        Number(hours ?? 0) * 3600 +
+        Number(minutes ?? 0) * 60 +
+        Number(seconds ?? 0)
+    );
+}
+
+interface DashAdaptationSet {
+    attributes: Record<string, string>;
+    body: string;
+    representations: { attributes: Record<string, string>; body: string; source: string }[];
+}
+
+function dashAdaptationSets(text: string): DashAdaptationSet[] {
+    const sets: DashAdaptationSet[] = [];
+    const setPattern = /<AdaptationSet\b([^>]*)>([\s\S]*?)<\/AdaptationSet>/g;
+    let match: RegExpExecArray | null;
+    while ((match = setPattern.exec(text))) {
+        const body = match[2];
+        const representations: DashAdaptationSet['representations'] = [];
+        const representationPattern =
+            /<Representation\b([^>]*?)(?:\/>|>([\s\S]*?)<\/Representation>)/g;
+        let representation: RegExpExecArray | null;
+        while ((representation = representationPattern.exec(body))) {
+            representations.push({
+                attributes: xmlAttributes(representation[1]),
+                body: representation[2] ?? '',
+                source: representation[0],
+            });
+        }
+        sets.push({ attributes: xmlAttributes(match[1]), body, representations });
+    }
+    return sets;
+}
+
+// contentType is optional in DASH; fall back to the mime type of the set or its first representation
+function contentTypeOf(set: DashAdaptationSet): string {
+    const mimeType =
+        set.attributes.mimeType ?? set.representations[0]?.attributes.mimeType ?? '';
+    return set.attributes.contentType ?? mimeType.split('/')[0];
+}
+
+interface DashManifest {
+    renditions: Rendition[];
+    thumbnails: SpriteTile[];
+}
+
+export function parseDashManifest(text: string, baseUri: string): DashManifest {
+    const manifest: DashManifest = { renditions: [], thumbnails: [] };
+    const mpd = xmlAttributes(text.match(/<MPD\b[^>]*>/)?.[0] ?? '');
+    const duration = parseIsoDuration(mpd.mediaPresentationDuration);
+    const base = resolveUri(baseUri, text.match(/<BaseURL>([^<]*)<\/BaseURL>/)?.[1] ?? '');
+
+    for (const set of dashAdaptationSets(text)) {
+        const type = contentTypeOf(set);
+        if (type === 'video') {
+            set.representations.forEach(({ attributes }) => {
+                manifest.renditions.push({
+                    id: attributes.id ?? String(manifest.renditions.length),
+                    bandwidth: Number(attributes.bandwidth) || 0,
+                    width: Number(attributes.width ?? set.attributes.width) || 0,
+                    height: Number(attributes.height ?? set.attributes.height) || 0,
+                    frameRate: parseFrameRate(attributes.frameRate ?? set.attributes.frameRate),
+                });
+            });
+        } else if (type === 'image' && manifest.thumbnails.length === 0) {
+            manifest.thumbnails = dashThumbnails(set, base, duration);
+        }
+    }
+
+    manifest.renditions.sort(byBandwidth);
+    return manifest;
+}
+
+// "30000/1001" or "25"
+function parseFrameRate(value: string | undefined): number | null {
+    if (!value) return null;
+    const [numerator, denominator = '1'] = value.split('/');
+    const rate = Number(numerator) / Number(denominator);
+    return Number.isFinite(rate) && rate > 0 ? rate : null;
+}
+
+/**
+ * DASH-IF thumbnail tracks: each segment is a sprite of the representation's
+ * size, split into the grid given by the thumbnail_tile property.
+ */
+function dashThumbnails(set: DashAdaptationSet, baseUri: string, duration: number): SpriteTile[] {
+    const representation = set.representations[0];
+    if (!representation || duration <= 0) return [];
+
+    const layout = parsePair(
+        representation.body.match(/thumbnail_tile"\s+value="([^"]*)"/)?.[1] ??
+            set.body.match(/thumbnail_tile"\s+value="([^"]*)"/)?.[1]
+    );
+    const template = xmlAttributes(
+        (representation.body + set.body).match(/<SegmentTemplate\b[^>]*>/)?.[0] ?? ''
+    );
+    const width = Number(representation.attributes.width);
+    const height = Number(representation.attributes.height);
+    if (!layout || !template.media || !template.duration || !width || !height) return [];
+
+    const [columns, rows] = layout;
+    const segmentDuration = Number(template.duration) / Number(template.timescale ?? 1);
+    const startNumber = Number(template.startNumber ?? 1);
+    const segmentCount = Math.ceil(duration / segmentDuration);
+    const tiles: SpriteTile[] = [];
+
+    for (let i = 0; i < segmentCount; i++) {
+        const media = template.media
+            .replace(/\$RepresentationID\$/g, representation.attributes.id ?? '')
+            .replace(/\$Number(?:%0(\d+)d)?\$/g, (_, digits?: string) =>
+                String(startNumber + i).padStart(Number(digits ?? 0), '0')
+            );
+        const start = i * segmentDuration;
+        tiles.push(
+            ...gridTiles({
+                uri: resolveUri(baseUri, media),
+                start,
+                tileDuration: segmentDuration / (columns * rows),
+                columns,
+                rows,
+                tileWidth: width / columns,
+                tileHeight: height / rows,
+                count: Math.ceil(((duration - start) / segmentDuration) * columns * rows - 0.001),
+            })
+        );
+    }
+    return tiles;
+}
+
+/**
+ * The MPD with a single video representation. An absolute MPD-level BaseURL
+ * keeps relative segment URLs working once the copy lives on disk.
+ */
+export function pinDashRendition(text: string, baseUri: string, rendition: Rendition): string {
+    let pinned = text;
+    for (const set of dashAdaptationSets(text)) {
+        if (contentTypeOf(set) !== 'video') continue;
+        set.representations
+            .filter(({ attributes }) => attributes.id !== rendition.id)
+            .forEach(({ source }) => {
+                pinned = pinned.replace(source, '');
+            });
+    }
+
+    const firstPeriod = pinned.indexOf('<Period');
+    const baseMatch = pinned.match(/<BaseURL>([^<]*)<\/BaseURL>/);
+    if (baseMatch?.index !== undefined && baseMatch.index < firstPeriod) {
+        return pinned.replace(
+            baseMatch[0],
+            `<BaseURL>${resolveUri(baseUri, baseMatch[1])}</BaseURL>`
+        );
+    }
+    return pinned.replace(
+        /<MPD\b[^>]*>/,
+        (tag) => `${tag}\n<BaseURL>${resolveUri(baseUri, '')}</BaseURL>`
+    );
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/** Fetches and parses a stream manifest; null for progressive sources. */
+export async function loadStreamManifest(
+    uri: string,
+    signal?: AbortSignal
+): Promise<StreamManifest | null> {
+    const type = detectStreamType(uri);
+    if (type === 'progressive') return null;
+
+    const response = await fetch(uri, { signal });
+    if (!response.ok) throw new Error(`Manifest request failed (${response.status})`);
+    const text = await response.text();
+
+    if (type === 'dash') {
+        return { type, uri, text, ...parseDashManifest(text, uri) };
+    }
+
+    const { imagePlaylistUri, ...master } = parseHlsMaster(text, uri);
+    let thumbnails: SpriteTile[] = [];
+    if (imagePlaylistUri) {
+        try {
+            const imageResponse = await fetch(imagePlaylistUri, { signal });
+            if (imageResponse.ok) {
+                thumbnails = parseHlsImagePlaylist(await imageResponse.text(), imagePlaylistUri);
+            }
+        } catch {
+            // Thumbnails are optional - the stream still plays
+        }
+    }
+    return { type, uri, text, ...master, thumbnails };
+}
+
+/**
+ * Writes a copy of the manifest limited to one rendition and returns a
+ * player source for it.
+ */
+export function writePinnedManifest(manifest: StreamManifest, rendition: Rendition): VideoSource {
+    const text =
+        manifest.type === 'hls'
+            ? pinHlsRendition(manifest.text, manifest.uri, rendition)
+            : pinDashRendition(manifest.text, manifest.uri, rendition);
+
+    const directory = new Directory(Paths.cache, PINNED_DIRECTORY_NAME);
+    if (!directory.exists) directory.create({ intermediates: true });
+
+    const extension = manifest.type === 'hls' ? 'm3u8' : 'mpd';
+    const file = new File(
+        directory,
+        `${hashString(manifest.uri)}_${hashString(rendition.id)}.${extension}`
+    );
+    if (!file.exists) file.create();
+    file.write(text);
+    return { uri: file.uri, contentType: manifest.type };
+}
+
+/** "1080p · 4.5 Mbps" */
+export function formatRendition(height: number, bandwidth: number | null): string {
+    const parts = [height > 0 ? `${height}p` : 'Video'];
+    if (bandwidth) {
+        parts.push(
+            bandwidth >= 1e6
+                ? `${(bandwidth / 1e6).toFixed(1)} Mbps`
+                : `${Math.round(bandwidth / 1e3)} kbps`
+        );
+    }
+    return parts.join(' · ');
+}
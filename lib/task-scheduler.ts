@@ -0,0 +1,179 @@
+/**
+ * Concurrency-limited task scheduler.
+ *
+ * Queued tasks start in priority order (higher first, FIFO among equals) as
+ * slots free up. Tasks can be cancelled through an AbortSignal and given a
+ * timeout; either one releases the slot immediately. Batches submitted with
+ * `runAll` resolve to results in the same order as the tasks, no matter
+ * which finished first.
+ */
+
+export class TaskAbortedError extends Error {
+    constructor() {
+        super('Task aborted');
+        this.name = 'TaskAbortedError';
+    }
+}
+
+export class TaskTimeoutError extends Error {
+    constructor(timeout: number) {
+        super(`Task timed out after ${timeout}ms`);
+        this.name = 'TaskTimeoutError';
+    }
+}
+
+export type TaskFunction<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface TaskOptions {
+    /** Higher runs sooner. Defaults to 0. */
+    priority?: number;
+    /** Milliseconds the task may run before it fails with TaskTimeoutError. */
+    timeout?: number;
+    signal?: AbortSignal;
+}
+
+export interface BatchTask<T> {
+    run: TaskFunction<T>;
+    priority?: number;
+}
+
+export interface BatchOptions<T> {
+    timeout?: number;
+    signal?: AbortSignal;
+    /** Called as each task settles, with the task's index in the batch. */
+    onSettled?: (index: number, result: TaskResult<T>) => void;
+}
+
+export type TaskResult<T> =
+    | { status: 'fulfilled'; value: T }
+    | { status: 'rejected'; reason: unknown };
+
+interface QueuedTask {
+    priority: number;
+    sequence: number;
+    start: () => void;
+    cancel: () => void;
+}
+
+export class TaskScheduler {
+    private queue: QueuedTask[] = [];
+    private running = 0;
+    private sequence = 0;
+
+    constructor(private readonly concurrency: number) {}
+
+    get pending(): number {
+        return this.queue.length;
+    }
+
+    get active(): number {
+        return this.running;
+    }
+
+    schedule<T>(run: TaskFunction<T>, options: TaskOptions = {}): Promise<T> {
+        const { priority = 0, timeout, signal } = options;
+
+        return new Promise<T>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(new TaskAbortedError());
+                return;
+            }
+
+            let settled = false;
+            let started = false;
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const controller = new AbortController();
+
+            const finish = (outcome: () => void) => {
+                if (settled) return;
+                settled = true;
+                if (timer !== undefined) clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                if (started) {
+                    this.running--;
+                    this.drain();
+                }
+                outcome();
+            };
+
+            const onAbort = () => {
+                controller.abort();
+                this.queue = this.queue.filter((task) => task !== queued);
+                finish(() => reject(new TaskAbortedError()));
+            };
+
+            const queued: QueuedTask = {
+                priority,
+                sequence: this.sequence++,
+                start: () => {
+                    started = true;
+                    this.running++;
+                    if (timeout !== undefined) {
+                        timer = setTimeout(() => {
+                            controller.abort();
+                            finish(() => reject(new TaskTimeoutError(timeout)));
+                        }, timeout);
+                    }
+                    run(controller.signal).then(
+                        (value) => finish(() => resolve(value)),
+                        (error) => finish(() => reject(error))
+                    );
+                },
+                cancel: onAbort,
+            };
+
+            signal?.addEventListener('abort', onAbort);
+            this.enqueue(queued);
+            this.drain();
+        });
+    }
+
+    /** Runs a batch and resolves with one result per task, in task order. */
+    runAll<T>(tasks: BatchTask<T>[], options: BatchOptions<T> = {}): Promise<TaskResult<T>[]> {
+        const { timeout, signal, onSettled } = options;
+
+        return Promise.all(
+            tasks.map((task, index) =>
+                this.schedule(task.run, { priority: task.priority, timeout, signal }).then(
+                    (value): TaskResult<T> => {
+                        const result: TaskResult<T> = { status: 'fulfilled', value };
+                        onSettled?.(index, result);
+                        return result;
+                    },
+                    (reason): TaskResult<T> => {
+                        const result: TaskResult<T> = { status: 'rejected', reason };
+                        onSettled?.(index, result);
+                        return result;
+                    }
+                )
+            )
+        );
+    }
+
+    /** Cancels every task that hasn't started yet. */
+    clear(): void {
+        const queued = this.queue;
+        this.queue = [];
+        queued.forEach((task) => task.cancel());
+    }
+
+    private enqueue(task: QueuedTask): void {
+        // Keep the queue sorted: higher priority first, then submission order
+        const index = this.queue.findIndex(
+            (other) =>
+                other.priority < task.priority ||
+                (other.priority === task.priority && other.sequence > task.sequence)
+        );
+        if (index < 0) {
+            this.queue.push(task);
+        } else {
+            this.queue.splice(index, 0, task);
+        }
+    }
+
+    private drain(): void {
+        while (this.running < this.concurrency && this.queue.length > 0) {
+            this.queue.shift()!.start();
+        }
+    }
+}
@@ -0,0 +1,51 @@
+export interface Throttled<A extends unknown[]> {
+    (...args: A): void;
+    /** Drops a pending trailing call. */
+    cancel(): void;
+}
+
+/**
+ * Calls `fn` at most once per `interval` ms. The first call runs right away;
+ * calls made in between collapse into one trailing call with the latest args.
+ */
+export function throttle<A extends unknown[]>(
+    fn: (...args: A) => void,
+    interval: number
+): Throttled<A> {
+    let lastRun = -Infinity;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let pendingArgs: A | null = null;
+
+    const run = (args: A) => {
+        lastRun = Date.now();
+        fn(...args);
+    };
+
+    const throttled = (...args: A) => {
+        const wait = lastRun + interval - Date.now();
+        if (wait <= 0 && !timer) {
+            run(args);
+            return;
+        }
+
+        pendingArgs = args;
+        if (!timer) {
+            timer = setTimeout(() => {
+                timer = null;
+                if (pendingArgs) {
+                    const latest = pendingArgs;
+                    pendingArgs = null;
+                    run(latest);
+                }
+            }, Math.max(0, wait));
+        }
+    };
+
+    throttled.cancel = () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        pendingArgs = null;
+    };
+
+    return throttled;
+}
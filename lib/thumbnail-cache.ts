@@ -0,0 +1,92 @@
+import { File } from 'expo-file-system';
+
+import { LruFileStore } from './lru-file-store';
+
+/**
+ * Persistent thumbnail cache.
+ *
+ * Thumbnails are copied into `<cache>/thumbnails`, so a strip generated once
+ * shows up instantly after an app restart. Each key's files are named after
+ * its entry id; the LruFileStore keeps the index and evicts the least
+ * recently used strips once the files exceed the byte budget.
+ */
+
+const CACHE_DIRECTORY_NAME = 'thumbnails';
+const INDEX_FORMAT = 'thumbnails-3';
+
+export const DEFAULT_THUMBNAIL_CACHE_BYTES = 50 * 1024 * 1024;
+
+interface CacheEntry {
+    /** File names inside the cache directory; null marks a failed frame. */
+    files: (string | null)[];
+    bytes: number;
+}
+
+export interface ThumbnailCacheOptions {
+    maxBytes?: number;
+}
+
+export class ThumbnailCache {
+    private static instance: ThumbnailCache;
+    private store: LruFileStore<CacheEntry>;
+
+    private constructor(options: ThumbnailCacheOptions) {
+        this.store = new LruFileStore<CacheEntry>({
+            directoryName: CACHE_DIRECTORY_NAME,
+            format: INDEX_FORMAT,
+            maxBytes: options.maxBytes ?? DEFAULT_THUMBNAIL_CACHE_BYTES,
+            filesOf: (entry) => entry.files,
+        });
+    }
+
+    static getInstance(options: ThumbnailCacheOptions = {}): ThumbnailCache {
+        if (!ThumbnailCache.instance) {
+            ThumbnailCache.instance = new ThumbnailCache(options);
+        }
+        return ThumbnailCache.instance;
+    }
+
+    get size(): number {
+        return this.store.size;
+    }
+
+    get(key: string): (string | null)[] | undefined {
+        const directory = this.store.directory;
+        const entry = this.store.get(key);
+        if (!entry || !directory) return undefined;
+
+        return entry.files.map((name) => (name ? new File(directory, name).uri : null));
+    }
+
+    set(key: string, thumbnails: (string | null)[]): void {
+        const directory = this.store.directory;
+        if (!directory) return;
+
+        const id = this.store.createId();
+        let bytes = 0;
+        const files = thumbnails.map((uri, i) => {
+            if (!uri) return null;
+            try {
+                const name = `${id}_${i}.jpg`;
+                const target = new File(directory, name);
+                if (target.exists) target.delete();
+                new File(uri).copy(target);
+                bytes += target.size;
+                return name;
+            } catch {
+                return null;
+            }
+        });
+
+        this.store.set(key, { files, bytes });
+    }
+
+    /** Changes the byte budget, evicting immediately if it shrank. */
+    setMaxBytes(maxBytes: number): void {
+        this.store.setMaxBytes(maxBytes);
+    }
+
+    clear(): void {
+        this.store.clear();
+    }
+}
@@ -0,0 +1,36 @@
+/**
+ * Coarse-to-fine generation order for a strip of `count` thumbnails.
+ *
+ * The first, middle and last frames come first, then each gap is bisected
+ * level by level so the strip sharpens evenly. Within a level, frames closer
+ * to `focusIndex` (usually the playhead) go first.
+ */
+export function coarseToFineOrder(count: number, focusIndex = 0): number[] {
+    if (count <= 0) return [];
+
+    const byFocus = (a: number, b: number) =>
+        Math.abs(a - focusIndex) - Math.abs(b - focusIndex) || a - b;
+
+    const last = count - 1;
+    const mid = Math.floor(last / 2);
+    const order = [...new Set([0, mid, last])].sort(byFocus);
+
+    let intervals: [number, number][] = [
+        [0, mid],
+        [mid, last],
+    ];
+    while (intervals.length > 0) {
+        const level: number[] = [];
+        const next: [number, number][] = [];
+        for (const [lo, hi] of intervals) {
+            if (hi - lo < 2) continue;
+            const split = Math.floor((lo + hi) / 2);
+            level.push(split);
+            next.push([lo, split], [split, hi]);
+        }
+        order.push(...level.sort(byFocus));
+        intervals = next;
+    }
+
+    return order;
+}
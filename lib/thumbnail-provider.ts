@@ -0,0 +1,106 @@
+/**
+ * Where timeline thumbnails come from. The timeline asks a provider for the
+ * frame at a source time and doesn't care whether it's decoded on the device
+ * or cut from a sprite sheet a server published.
+ */
+
+import { File } from 'expo-file-system';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+
+import { SpriteTile, ThumbnailImage, tileAt } from './sprite-tiles';
+import { resolveUri } from './stream-manifest';
+import { parseClockTime } from './timecode';
+
+export interface ThumbnailProvider {
+    /**
+     * True when each thumbnail costs real work (decoding). The timeline queues
+     * those on its shared scheduler and caches them on disk; cheap providers
+     * are called directly.
+     */
+    readonly isExpensive: boolean;
+    /** Thumbnail for a source time, in seconds. Rejects when there is none. */
+    getThumbnail(time: number): Promise<ThumbnailImage>;
+}
+
+/** Decodes frames on the device with expo-video-thumbnails. */
+export class VideoFrameProvider implements ThumbnailProvider {
+    readonly isExpensive = true;
+
+    constructor(
+        private readonly sourceUri: string,
+        private readonly quality = 0.3
+    ) {}
+
+    async getThumbnail(time: number): Promise<ThumbnailImage> {
+        const result = await VideoThumbnails.getThumbnailAsync(this.sourceUri, {
+            time: time * 1000,
+            quality: this.quality,
+        });
+        return { uri: result.uri };
+    }
+}
+
+/** Looks thumbnails up in published sprite tiles; nothing is decoded. */
+export class SpriteSheetProvider implements ThumbnailProvider {
+    readonly isExpensive = false;
+
+    constructor(private readonly tiles: SpriteTile[]) {}
+
+    async getThumbnail(time: number): Promise<ThumbnailImage> {
+        const tile = tileAt(this.tiles, time);
+        if (!tile) throw new Error('No thumbnail tiles');
+        return tile.image;
+    }
+}
+
+// ============================================================================
+// WebVTT thumbnail tracks
+// ============================================================================
+
+const VTT_TIMING = /^\s*(\S+)\s+-->\s+(\S+)/;
+
+// "#xywh=0,0,160,90" or "#xywh=pixel:0,0,160,90"; percent regions aren't supported
+const XYWH = /#xywh=(?:pixel:)?(\d+),(\d+),(\d+),(\d+)$/;
+
+/**
+ * Tiles of a WebVTT thumbnails track: each cue's text is an image URL,
+ * usually a sprite sheet with the tile given as a `#xywh=` fragment. Cues
+ * with bad timings or no image are skipped.
+ */
+export function parseWebVTTThumbnails(text: string, baseUri: string): SpriteTile[] {
+    const tiles: SpriteTile[] = [];
+    const blocks = text.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+
+    for (const block of blocks) {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex((line) => VTT_TIMING.test(line));
+        const reference = lines[timingIndex + 1]?.trim();
+        if (timingIndex < 0 || !reference) continue;
+
+        const [, startText, endText] = lines[timingIndex].match(VTT_TIMING)!;
+        const start = parseClockTime(startText);
+        const end = parseClockTime(endText);
+        if (start === null || end === null || end <= start) continue;
+
+        const fragment = reference.match(XYWH);
+        const uri = resolveUri(baseUri, fragment ? reference.replace(XYWH, '') : reference);
+        const [x, y, width, height] = fragment ? fragment.slice(1).map(Number) : [];
+        const crop = width > 0 && height > 0 ? { x, y, width, height } : undefined;
+        tiles.push({ start, end, image: crop ? { uri, crop } : { uri } });
+    }
+
+    return tiles.sort((a, b) => a.start - b.start);
+}
+
+/** Reads a WebVTT thumbnails track from a URL or a local file. */
+export async function loadWebVTTThumbnails(uri: string): Promise<SpriteTile[]> {
+    let text: string;
+    if (uri.startsWith('file:')) {
+        text = await new File(uri).text();
+    } else {
+        const response = await fetch(uri);
+        if (!response.ok) throw new Error(`Thumbnail track request failed (${response.status})`);
+        text = await response.text();
+    }
+    return parseWebVTTThumbnails(text, uri);
+}
@@ -0,0 +1,170 @@
+/**
+ * Timecode formatting and parsing shared by chapters, captions and the
+ * timeline display.
+ */
+
+const pad = (value: number, length = 2): string => value.toString().padStart(length, '0');
+
+/** "MM:SS", or "H:MM:SS" from one hour on (YouTube chapter style). */
+export function formatClockTime(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds || 0));
+    const hours = Math.floor(total / 3600);
+    const mins = Math.floor((total % 3600) / 60);
+    const secs = total % 60;
+    return hours > 0 ? `${hours}:${pad(mins)}:${pad(secs)}` : `${pad(mins)}:${pad(secs)}`;
+}
+
+/** "MM:SS.cc" - clock time with hundredths of a second. */
+export function formatPreciseTime(seconds: number): string {
+    const safe = Math.max(0, seconds || 0);
+    return `${formatClockTime(safe)}.${pad(Math.floor((safe % 1) * 100))}`;
+}
+
+/** "HH:MM:SS.mmm" as used by WebVTT cues. */
+export function formatVttTime(seconds: number): string {
+    const totalMs = Math.max(0, Math.round((seconds || 0) * 1000));
+    const hours = Math.floor(totalMs / 3600000);
+    const mins = Math.floor((totalMs % 3600000) / 60000);
+    const secs = Math.floor((totalMs % 60000) / 1000);
+    return `${pad(hours)}:${pad(mins)}:${pad(secs)}.${pad(totalMs % 1000, 3)}`;
+}
+
+/** "HH:MM:SS,mmm" as used by SRT cues. */
+export const formatSrtTime = (seconds: number): string => formatVttTime(seconds).replace('.', ',');
+
+/** "HH-MM-SS_mmm" - a timestamp that is safe in file names. */
+export const formatFileTime = (seconds: number): string =>
+    formatVttTime(seconds).replace(/:/g, '-').replace('.', '_');
+
+/**
+ * Parses "[[H:]M:]S[.fff]" (a comma works as the decimal separator too).
+ * Returns null when the text isn't a valid timestamp.
+ */
+export function parseClockTime(text: string): number | null {
+    const match = text.trim().match(/^(?:(\d+):)?(?:(\d+):)?(\d+)(?:[.,](\d+))?$/);
+    if (!match) return null;
+
+    const [, first, second, secs, fraction] = match;
+    // With a single colon the leading group is minutes, not hours
+    const hours = second !== undefined ? Number(first) : 0;
+    const mins = second !== undefined ? Number(second) : Number(first ?? 0);
+    const wholeSeconds = Number(secs);
+
+    // Only the leading unit may overflow ("90" seconds, "75:00" minutes)
+    if (first !== undefined && wholeSeconds >= 60) return null;
+    if (second !== undefined && mins >= 60) return null;
+
+    return hours * 3600 + mins * 60 + wholeSeconds + (fraction ? Number(`0.${fraction}`) : 0);
+}
+
+// ============================================================================
+// Frame-based timecodes
+// ============================================================================
+
+/** How the current position is displayed and typed. */
+export type TimecodeMode = 'clock' | 'centis' | 'smpte' | 'frames';
+
+/** Display modes in the order a tap cycles through them. */
+export const TIMECODE_MODES: TimecodeMode[] = ['clock', 'centis', 'smpte', 'frames'];
+
+// Used until the player reports the video track's frame rate
+export const DEFAULT_FRAME_RATE = 24;
+
+// Guards against 0.1 + 0.2 style errors landing a frame early
+const FRAME_EPSILON = 1e-6;
+
+/** Index of the frame shown at `seconds`. */
+export const timeToFrame = (seconds: number, frameRate: number): number =>
+    Math.max(0, Math.floor(seconds * frameRate + FRAME_EPSILON));
+
+/**
+ * Seek target for a frame. Aims at the middle of the frame so decoder
+ * rounding can't land on its neighbour.
+ */
+export const frameToTime = (frame: number, frameRate: number): number =>
+    (Math.max(0, frame) + 0.5) / frameRate;
+
+// Drop-frame rates skip this many frame labels at the start of every minute but each tenth
+// (29.97 and 59.94 fps), so the timecode keeps up with the clock
+function droppedFrames(frameRate: number): number {
+    if (Math.abs(frameRate - 30000 / 1001) < 0.01) return 2;
+    if (Math.abs(frameRate - 60000 / 1001) < 0.01) return 4;
+    return 0;
+}
+
+/** "HH:MM:SS:FF" label of a frame index; drop-frame rates use "HH:MM:SS;FF". */
+export function frameToSmpte(frame: number, frameRate: number): string {
+    const rate = Math.max(1, Math.round(frameRate));
+    const drop = droppedFrames(frameRate);
+    let label = Math.max(0, Math.floor(frame));
+    if (drop > 0) {
+        // Add back the labels skipped so far, then count at the nominal rate
+        const framesPerTenMinutes = rate * 600 - drop * 9;
+        const framesPerMinute = rate * 60 - drop;
+        const tens = Math.floor(label / framesPerTenMinutes);
+        const rest = label % framesPerTenMinutes;
+        const minutes = rest > drop ? Math.floor((rest - drop) / framesPerMinute) : 0;
+        label += drop * (9 * tens + minutes);
+    }
+    const totalSeconds = Math.floor(label / rate);
+    const hours = Math.floor(totalSeconds / 3600);
+    const mins = Math.floor((totalSeconds % 3600) / 60);
+    const separator = drop > 0 ? ';' : ':';
+    return `${pad(hours)}:${pad(mins)}:${pad(totalSeconds % 60)}${separator}${pad(label % rate)}`;
+}
+
+/** Frame index of an SMPTE label, or null for labels a drop-frame rate skips. */
+export function smpteToFrame(
+    hours: number,
+    mins: number,
+    secs: number,
+    frames: number,
+    frameRate: number
+): number | null {
+    const rate = Math.max(1, Math.round(frameRate));
+    const drop = droppedFrames(frameRate);
+    if (mins >= 60 || secs >= 60 || frames >= rate) return null;
+    if (drop > 0 && secs === 0 && mins % 10 !== 0 && frames < drop) return null;
+
+    const totalMinutes = hours * 60 + mins;
+    const skipped = drop * (totalMinutes - Math.floor(totalMinutes / 10));
+    return (totalMinutes * 60 + secs) * rate + frames - skipped;
+}
+
+export function formatTimecode(seconds: number, mode: TimecodeMode, frameRate: number): string {
+    const safe = Math.max(0, seconds || 0);
+    switch (mode) {
+        case 'clock':
+            return formatClockTime(safe);
+        case 'centis':
+            return formatPreciseTime(safe);
+        case 'smpte':
+            // Frames are counted at the real rate and labelled at the nominal one
+            return frameToSmpte(timeToFrame(safe, frameRate), frameRate);
+        case 'frames':
+            return timeToFrame(safe, frameRate).toString();
+    }
+}
+
+/**
+ * Parses typed input: SMPTE "HH:MM:SS:FF" (or ";FF"), a bare frame number in
+ * frames mode, or any clock time accepted by parseClockTime. Returns seconds,
+ * or null when the text isn't a valid timecode. Frame-based input seeks to the
+ * middle of its frame, so formatting the result gives the same timecode back.
+ */
+export function parseTimecode(text: string, mode: TimecodeMode, frameRate: number): number | null {
+    const trimmed = text.trim();
+
+    if (mode === 'frames' && /^\d+$/.test(trimmed)) {
+        return frameToTime(Number(trimmed), frameRate);
+    }
+
+    const smpte = trimmed.match(/^(\d+):(\d{1,2}):(\d{1,2})[:;](\d{1,3})$/);
+    if (smpte) {
+        const [hours, mins, secs, frames] = smpte.slice(1).map(Number);
+        const frame = smpteToFrame(hours, mins, secs, frames, frameRate);
+        return frame === null ? null : frameToTime(frame, frameRate);
+    }
+
+    return parseClockTime(trimmed);
+}
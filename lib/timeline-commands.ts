@@ -0,0 +1,197 @@
+/**
+ * Undoable edits of the timeline state. Commands capture the slice they
+ * change, so reverting restores it without touching unrelated slices.
+ */
+
+import { Cue, mergeCues, sortCues, splitCue } from './captions';
+import type { Command } from './edit-history';
+import { Marker, sortMarkers } from './markers';
+import { Project, projectDuration, TrimRange } from './timeline-project';
+
+export interface TimelineState {
+    project: Project | null;
+    /** Trim selection on the sequence timeline; null selects everything. */
+    trim: TrimRange | null;
+    /** Markers on the sequence timeline, sorted by time. */
+    markers: Marker[];
+    /** Caption cues on the sequence timeline, sorted by start. */
+    captions: Cue[];
+}
+
+export const EMPTY_TIMELINE_STATE: TimelineState = {
+    project: null,
+    trim: null,
+    markers: [],
+    captions: [],
+};
+
+/** Keeps a trim selection inside a sequence whose length changed. */
+export function fitTrim(trim: TrimRange | null, duration: number): TrimRange | null {
+    if (!trim) return null;
+    const start = Math.min(trim.start, duration);
+    const end = Math.min(trim.end, duration);
+    if (end <= start || (start <= 0 && end >= duration)) return null;
+    return { start, end };
+}
+
+/** Replaces the project, refitting the trim selection to the new length. */
+export function editProject(
+    label: string,
+    state: TimelineState,
+    next: Project
+): Command<TimelineState> | null {
+    const previous = state.project;
+    if (!previous || next === previous) return null;
+
+    const previousTrim = state.trim;
+    const nextTrim = fitTrim(previousTrim, projectDuration(next));
+    return {
+        label,
+        apply: (current) => ({ ...current, project: next, trim: nextTrim }),
+        revert: (current) => ({ ...current, project: previous, trim: previousTrim }),
+    };
+}
+
+/** Moves the trim handles. Updates from one drag coalesce into one step. */
+export function setTrim(state: TimelineState, trim: TrimRange | null): Command<TimelineState> {
+    const previous = state.trim;
+    const next = state.project ? fitTrim(trim, projectDuration(state.project)) : trim;
+    return {
+        label: 'Trim',
+        coalesceKey: 'trim',
+        apply: (current) => ({ ...current, trim: next }),
+        revert: (current) => ({ ...current, trim: previous }),
+    };
+}
+
+export function addMarker(state: TimelineState, marker: Marker): Command<TimelineState> {
+    const previous = state.markers;
+    const next = sortMarkers([...previous, marker]);
+    return {
+        label: 'Add marker',
+        apply: (current) => ({ ...current, markers: next }),
+        revert: (current) => ({ ...current, markers: previous }),
+    };
+}
+
+export function removeMarker(state: TimelineState, id: string): Command<TimelineState> | null {
+    const previous = state.markers;
+    if (!previous.some((marker) => marker.id === id)) return null;
+    const next = previous.filter((marker) => marker.id !== id);
+    return {
+        label: 'Delete marker',
+        apply: (current) => ({ ...current, markers: next }),
+        revert: (current) => ({ ...current, markers: previous }),
+    };
+}
+
+/** Renames, recolors or moves a marker. Keystrokes on one marker coalesce. */
+export function updateMarker(
+    state: TimelineState,
+    id: string,
+    changes: Partial<Omit<Marker, 'id'>>
+): Command<TimelineState> | null {
+    const previous = state.markers;
+    if (!previous.some((marker) => marker.id === id)) return null;
+    const next = sortMarkers(
+        previous.map((marker) => (marker.id === id ? { ...marker, ...changes } : marker))
+    );
+    return {
+        label: 'Edit marker',
+        coalesceKey: `marker-${id}`,
+        apply: (current) => ({ ...current, markers: next }),
+        revert: (current) => ({ ...current, markers: previous }),
+    };
+}
+
+/** Swaps the whole marker list, e.g. when importing chapters. */
+export function replaceMarkers(state: TimelineState, markers: Marker[]): Command<TimelineState> {
+    const previous = state.markers;
+    const next = sortMarkers(markers);
+    return {
+        label: 'Import chapters',
+        apply: (current) => ({ ...current, markers: next }),
+        revert: (current) => ({ ...current, markers: previous }),
+    };
+}
+
+/** Swaps the whole caption track, e.g. when importing a caption file. */
+export function replaceCaptions(state: TimelineState, captions: Cue[]): Command<TimelineState> {
+    const previous = state.captions;
+    const next = sortCues(captions);
+    return {
+        label: captions.length > 0 ? 'Import captions' : 'Remove captions',
+        apply: (current) => ({ ...current, captions: next }),
+        revert: (current) => ({ ...current, captions: previous }),
+    };
+}
+
+export function addCaption(state: TimelineState, cue: Cue): Command<TimelineState> {
+    const previous = state.captions;
+    const next = sortCues([...previous, cue]);
+    return {
+        label: 'Add caption',
+        apply: (current) => ({ ...current, captions: next }),
+        revert: (current) => ({ ...current, captions: previous }),
+    };
+}
+
+export function removeCaption(state: TimelineState, id: string): Command<TimelineState> | null {
+    const previous = state.captions;
+    if (!previous.some((cue) => cue.id === id)) return null;
+    const next = previous.filter((cue) => cue.id !== id);
+    return {
+        label: 'Delete caption',
+        apply: (current) => ({ ...current, captions: next }),
+        revert: (current) => ({ ...current, captions: previous }),
+    };
+}
+
+/** Retimes or retypes a cue. Edge drags and keystrokes on one cue coalesce. */
+export function updateCaption(
+    state: TimelineState,
+    id: string,
+    changes: Partial<Omit<Cue, 'id'>>
+): Command<TimelineState> | null {
+    const previous = state.captions;
+    if (!previous.some((cue) => cue.id === id)) return null;
+    const next = sortCues(previous.map((cue) => (cue.id === id ? { ...cue, ...changes } : cue)));
+    return {
+        label: 'Edit caption',
+        coalesceKey: `cue-${id}`,
+        apply: (current) => ({ ...current, captions: next }),
+        revert: (current) => ({ ...current, captions: previous }),
+    };
+}
+
+/** Splits a cue at `time`; null when the time is too close to either edge. */
+export function splitCaption(
+    state: TimelineState,
+    id: string,
+    time: number
+): Command<TimelineState> | null {
+    const previous = state.captions;
+    const cue = previous.find((candidate) => candidate.id === id);
+    const parts = cue ? splitCue(cue, time) : null;
+    if (!parts) return null;
+    const next = sortCues([...previous.filter((candidate) => candidate.id !== id), ...parts]);
+    return {
+        label: 'Split caption',
+        apply: (current) => ({ ...current, captions: next }),
+        revert: (current) => ({ ...current, captions: previous }),
+    };
+}
+
+/** Merges a cue with the one after it. */
+export function mergeCaptions(state: TimelineState, id: string): Command<TimelineState> | null {
+    const previous = state.captions;
+    const index = previous.findIndex((cue) => cue.id === id);
+    if (index < 0 || index + 1 >= previous.length) return null;
+    const merged = mergeCues(previous[index], previous[index + 1]);
+    const next = sortCues([...previous.slice(0, index), merged, ...previous.slice(index + 2)]);
+    return {
+        label: 'Merge captions',
+        apply: (current) => ({ ...current, captions: next }),
+        revert: (current) => ({ ...current, captions: previous }),
+    };
+}
@@ -0,0 +1,151 @@
+/**
+ * Multi-clip sequence model behind the timeline.
+ *
+ * A project is an ordered list of clips. Each clip plays the source range
+ * [sourceIn, sourceOut) of its video and sits at `start` on the sequence
+ * timeline. Every operation is pure and returns a new project.
+ */
+
+export interface Clip {
+    id: string;
+    sourceUri: string;
+    sourceIn: number;
+    sourceOut: number;
+    start: number;
+}
+
+export interface Project {
+    clips: Clip[];
+}
+
+/** A range on the sequence timeline, in seconds. */
+export interface TrimRange {
+    start: number;
+    end: number;
+}
+
+export interface ClipLocation {
+    clip: Clip;
+    index: number;
+    sourceTime: number;
+}
+
+// Splits closer than this to a clip edge would produce an unusable sliver
+export const MIN_CLIP_DURATION = 0.1;
+
+let clipCounter = 0;
+
+export const createClipId = (): string => `clip-${++clipCounter}`;
+
+export const clipDuration = (clip: Clip): number => clip.sourceOut - clip.sourceIn;
+
+export const clipEnd = (clip: Clip): number => clip.start + clipDuration(clip);
+
+export function projectDuration(project: Project): number {
+    return project.clips.reduce((end, clip) => Math.max(end, clipEnd(clip)), 0);
+}
+
+/** Creates a project holding one clip that spans the whole source. */
+export function createProject(sourceUri: string, sourceDuration: number): Project {
+    return {
+        clips: [
+            {
+                id: createClipId(),
+                sourceUri,
+                sourceIn: 0,
+                sourceOut: sourceDuration,
+                start: 0,
+            },
+        ],
+    };
+}
+
+/**
+ * Finds the clip playing at a sequence time. Times inside a gap resolve to
+ * the start of the next clip; times past the last clip return null.
+ */
+export function clipAtTime(project: Project, time: number): ClipLocation | null {
+    for (let index = 0; index < project.clips.length; index++) {
+        const clip = project.clips[index];
+        if (time < clip.start) {
+            return { clip, index, sourceTime: clip.sourceIn };
+        }
+        if (time < clipEnd(clip)) {
+            return { clip, index, sourceTime: clip.sourceIn + (time - clip.start) };
+        }
+    }
+    return null;
+}
+
+/** Maps a source time inside a clip back onto the sequence timeline. */
+export function sequenceTime(clip: Clip, sourceTime: number): number {
+    return clip.start + (sourceTime - clip.sourceIn);
+}
+
+/** Splits the clip under `time` into two clips that play back to back. */
+export function splitAt(project: Project, time: number): Project {
+    const location = clipAtTime(project, time);
+    if (!location || time < location.clip.start) return project;
+
+    const { clip, index, sourceTime } = location;
+    if (
+        sourceTime - clip.sourceIn < MIN_CLIP_DURATION ||
+        clip.sourceOut - sourceTime < MIN_CLIP_DURATION
+    ) {
+        return project;
+    }
+
+    const head: Clip = { ...clip, sourceOut: sourceTime };
+    const tail: Clip = {
+        ...clip,
+        id: createClipId(),
+        sourceIn: sourceTime,
+        start: clipEnd(head),
+    };
+
+    const clips = [...project.clips];
+    clips.splice(index, 1, head, tail);
+    return { clips };
+}
+
+/** Removes a clip and leaves a gap where it was. */
+export function deleteClip(project: Project, clipId: string): Project {
+    const clips = project.clips.filter((clip) => clip.id !== clipId);
+    return clips.length === project.clips.length ? project : { clips };
+}
+
+/** Removes a clip and shifts everything after it left to close the gap. */
+export function rippleDelete(project: Project, clipId: string): Project {
+    const index = project.clips.findIndex((clip) => clip.id === clipId);
+    if (index < 0) return project;
+
+    const removed = project.clips[index];
+    const shift = clipDuration(removed);
+    const clips = project.clips
+        .filter((clip) => clip.id !== clipId)
+        .map((clip) => (clip.start > removed.start ? { ...clip, start: clip.start - shift } : clip));
+    return { clips };
+}
+
+/** Moves a clip to a new position in the order and packs the sequence. */
+export function moveClip(project: Project, clipId: string, toIndex: number): Project {
+    const fromIndex = project.clips.findIndex((clip) => clip.id === clipId);
+    const target = Math.max(0, Math.min(toIndex, project.clips.length - 1));
+    if (fromIndex < 0 || fromIndex === target) return project;
+
+    const clips = [...project.clips];
+    const [clip] = clips.splice(fromIndex, 1);
+    clips.splice(target, 0, clip);
+    return ripple({ clips });
+}
+
+/** Closes every gap so clips play back to back from zero. */
+export function ripple(project: Project): Project {
+    let cursor = 0;
+    const clips = project.clips.map((clip) => {
+        const packed = clip.start === cursor ? clip : { ...clip, start: cursor };
+        cursor = clipEnd(packed);
+        return packed;
+    });
+    return { clips };
+}
@@ -0,0 +1,94 @@
+/**
+ * Video sources the player can open, and the recently opened list (most
+ * recent first). Where playback stopped is kept by playback-progress.
+ */
+
+import { readJson, writeJson } from './json-storage';
+
+export type VideoSourceKind = 'sample' | 'library' | 'file' | 'url';
+
+export interface VideoSourceInfo {
+    uri: string;
+    title: string;
+    kind: VideoSourceKind;
+    /** WebVTT thumbnails track (sprite tiles) published for the video. */
+    thumbnailsUri?: string;
+}
+
+export interface RecentSource extends VideoSourceInfo {
+    openedAt: number;
+}
+
+// 4K Video with Audio - Sintel (Blender Foundation)
+export const SAMPLE_SOURCE: VideoSourceInfo = {
+    uri: 'https://commondatastorage.googleapis.com/gtv-videos-bucket/sample/Sintel.mp4',
+    title: 'Sintel',
+    kind: 'sample',
+};
+
+const RECENTS_STORAGE_NAME = 'recent-sources';
+const MAX_RECENTS = 20;
+
+export type UrlValidation = { valid: true; uri: string } | { valid: false; error: string };
+
+/** Checks a pasted URL: http(s) only, with a host. */
+export function validateVideoUrl(text: string): UrlValidation {
+    const uri = text.trim();
+    if (!uri) return { valid: false, error: 'Enter a URL' };
+
+    const match = uri.match(/^(https?):\/\/([^/?#\s]+)[^\s]*$/i);
+    if (!match) {
+        return { valid: false, error: 'Only http:// and https:// URLs are supported' };
+    }
+    if (!/^(([\w-]+\.)+[\w-]+|localhost)(:\d+)?$/i.test(match[2])) {
+        return { valid: false, error: 'The URL has no valid host' };
+    }
+    return { valid: true, uri };
+}
+
+/** File name without extension, for sources that don't come with a title. */
+export function titleFromUri(uri: string): string {
+    const path = uri.split(/[?#]/)[0];
+    let name = path.substring(path.lastIndexOf('/') + 1);
+    try {
+        name = decodeURIComponent(name);
+    } catch {
+        // Malformed escapes - show the name as is
+    }
+    return name.replace(/\.[^.]+$/, '') || uri;
+}
+
+/** A title reduced to characters every file system accepts, for exported files. */
+export function fileNameFromTitle(title: string): string {
+    const name = title
+        .replace(/[^\w\-. ]+/g, '')
+        .trim()
+        .replace(/\s+/g, '-');
+    return name.slice(0, 60) || 'video';
+}
+
+export function loadRecentSources(): RecentSource[] {
+    return readJson<RecentSource[]>(RECENTS_STORAGE_NAME, []);
+}
+
+export function saveRecentSources(recents: RecentSource[]): void {
+    writeJson(RECENTS_STORAGE_NAME, recents);
+}
+
+export const findRecentSource = (recents: RecentSource[], uri: string) =>
+    recents.find((recent) => recent.uri === uri);
+
+/** Moves a source to the top of the list. */
+export function addRecentSource(
+    recents: RecentSource[],
+    source: VideoSourceInfo,
+    now = Date.now()
+): RecentSource[] {
+    const existing = findRecentSource(recents, source.uri);
+    const entry: RecentSource = { ...existing, ...source, openedAt: now };
+    const others = recents.filter((recent) => recent.uri !== source.uri);
+    return [entry, ...others].slice(0, MAX_RECENTS);
+}
+
+export const removeRecentSource = (recents: RecentSource[], uri: string): RecentSource[] =>
+    recents.filter((recent) => recent.uri !== uri);
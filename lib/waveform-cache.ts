@@ -0,0 +1,100 @@
+import { File } from 'expo-file-system';
+
+import { LruFileStore } from './lru-file-store';
+import { PEAKS_PER_SECOND } from './waveform';
+
+/**
+ * Persistent cache of audio peaks, one small binary file per source in
+ * `<cache>/waveforms`. Like thumbnails, the LruFileStore evicts the least
+ * recently used sources once the files exceed the byte budget; peaks take
+ * about 50 bytes per second of audio.
+ */
+
+const CACHE_DIRECTORY_NAME = 'waveforms';
+// Peaks of another resolution are dropped on load
+const INDEX_FORMAT = `waveforms-2-${PEAKS_PER_SECOND}`;
+
+export const DEFAULT_WAVEFORM_CACHE_BYTES = 5 * 1024 * 1024;
+
+interface CacheEntry {
+    /** File name inside the cache directory. */
+    file: string;
+    bytes: number;
+}
+
+export interface WaveformCacheOptions {
+    maxBytes?: number;
+}
+
+export class WaveformCache {
+    private static instance: WaveformCache;
+    // Peaks read or decoded this session, for the entries still cached
+    private memory = new Map<string, Uint8Array>();
+    private store: LruFileStore<CacheEntry>;
+
+    private constructor(options: WaveformCacheOptions) {
+        this.store = new LruFileStore<CacheEntry>({
+            directoryName: CACHE_DIRECTORY_NAME,
+            format: INDEX_FORMAT,
+            maxBytes: options.maxBytes ?? DEFAULT_WAVEFORM_CACHE_BYTES,
+            filesOf: (entry) => [entry.file],
+            onRemove: (sourceUri) => this.memory.delete(sourceUri),
+        });
+    }
+
+    static getInstance(options: WaveformCacheOptions = {}): WaveformCache {
+        if (!WaveformCache.instance) {
+            WaveformCache.instance = new WaveformCache(options);
+        }
+        return WaveformCache.instance;
+    }
+
+    get size(): number {
+        return this.store.size;
+    }
+
+    get(sourceUri: string): Uint8Array | undefined {
+        const directory = this.store.directory;
+        const entry = this.store.get(sourceUri);
+        const cached = this.memory.get(sourceUri);
+        if (!entry || !directory || cached) return cached;
+
+        try {
+            const peaks = new File(directory, entry.file).bytesSync();
+            this.memory.set(sourceUri, peaks);
+            return peaks;
+        } catch {
+            this.store.delete(sourceUri);
+            return undefined;
+        }
+    }
+
+    set(sourceUri: string, peaks: Uint8Array): void {
+        this.store.delete(sourceUri);
+        this.memory.set(sourceUri, peaks);
+        const directory = this.store.directory;
+        // No writable cache directory (e.g. web) - keep peaks in memory only
+        if (!directory) return;
+
+        const name = `${this.store.createId()}.peaks`;
+        try {
+            const file = new File(directory, name);
+            if (!file.exists) file.create();
+            file.write(peaks);
+        } catch {
+            // Still cached in memory for this session
+            return;
+        }
+        this.store.set(sourceUri, { file: name, bytes: peaks.byteLength });
+    }
+
+    /** Changes the byte budget, evicting immediately if it shrank. */
+    setMaxBytes(maxBytes: number): void {
+        this.store.setMaxBytes(maxBytes);
+    }
+
+    clear(): void {
+        this.store.clear();
+        this.memory.clear();
+    }
+}
@@ -0,0 +1,134 @@
+/**
+ * Audio peaks for the timeline waveform.
+ *
+ * Decoded audio is reduced once to a fixed number of peaks per second
+ * (max absolute amplitude across channels, quantized to a byte). Drawing at
+ * any zoom level then only resamples those peaks into the bars on screen.
+ */
+
+export const PEAKS_PER_SECOND = 50;
+
+// Decoded PCM is held whole until it is reduced, so decode at the lowest rate that still
+// gives each peak a few dozen samples: 8 KB per second of audio per channel
+export const WAVEFORM_SAMPLE_RATE = 2000;
+
+// Samples reduced between yields to the JS thread, per channel
+const REDUCE_CHUNK_SAMPLES = 64 * 1024;
+
+/** Decoded audio, as returned by the decoder. */
+export interface PcmAudio {
+    numberOfChannels: number;
+    sampleRate: number;
+    length: number;
+    getChannelData(channel: number): Float32Array;
+}
+
+/**
+ * Reduces per-channel PCM samples to quantized peaks (0-255) chunk by chunk,
+ * so audio can be fed in as it becomes available. Each peak is the max
+ * absolute amplitude across channels over 1/peaksPerSecond seconds.
+ */
+export class PeakReducer {
+    private peaks: number[] = [];
+    private position = 0;
+    private peakMax = 0;
+    private peakStart = 0;
+    private peakEnd: number;
+    private readonly samplesPerPeak: number;
+
+    constructor(sampleRate: number, peaksPerSecond = PEAKS_PER_SECOND) {
+        this.samplesPerPeak = sampleRate / peaksPerSecond;
+        this.peakEnd = Math.floor(this.samplesPerPeak);
+    }
+
+    /** Adds the next samples; every channel must hold the same number. */
+    push(channels: Float32Array[]): void {
+        const length = channels[0]?.length ?? 0;
+        for (let i = 0; i < length; i++) {
+            if (this.position >= this.peakEnd) this.closePeak();
+            for (const samples of channels) {
+                const value = Math.abs(samples[i]);
+                if (value > this.peakMax) this.peakMax = value;
+            }
+            this.position++;
+        }
+    }
+
+    /** Closes the last, possibly partial, peak and returns them all. */
+    finish(): Uint8Array {
+        if (this.position > this.peakStart) this.closePeak();
+        return Uint8Array.from(this.peaks);
+    }
+
+    private closePeak(): void {
+        this.peaks.push(Math.round(Math.min(1, this.peakMax) * 255));
+        this.peakMax = 0;
+        this.peakStart = this.peakEnd;
+        this.peakEnd = Math.floor((this.peaks.length + 1) * this.samplesPerPeak);
+    }
+}
+
+/** Reduces PCM samples to peaks in one go. */
+export function computePeaks(
+    channels: Float32Array[],
+    sampleRate: number,
+    peaksPerSecond = PEAKS_PER_SECOND
+): Uint8Array {
+    const reducer = new PeakReducer(sampleRate, peaksPerSecond);
+    reducer.push(channels);
+    return reducer.finish();
+}
+
+/**
+ * Reduces decoded audio to peaks a chunk at a time, yielding to the event
+ * loop in between so long tracks don't stall the UI.
+ */
+export async function reducePeaks(
+    audio: PcmAudio,
+    peaksPerSecond = PEAKS_PER_SECOND
+): Promise<Uint8Array> {
+    const reducer = new PeakReducer(audio.sampleRate, peaksPerSecond);
+    const channels = Array.from({ length: audio.numberOfChannels }, (_, i) =>
+        audio.getChannelData(i)
+    );
+    for (let from = 0; from < audio.length; from += REDUCE_CHUNK_SAMPLES) {
+        const to = Math.min(audio.length, from + REDUCE_CHUNK_SAMPLES);
+        reducer.push(channels.map((samples) => samples.subarray(from, to)));
+        await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    return reducer.finish();
+}
+
+/**
+ * Resamples the peaks covering [start, end) seconds into `bars` amplitudes
+ * between 0 and 1, normalized to the loudest peak of the whole track so the
+ * lane keeps its scale while zooming.
+ */
+export function resamplePeaks(
+    peaks: Uint8Array,
+    start: number,
+    end: number,
+    bars: number,
+    peaksPerSecond = PEAKS_PER_SECOND
+): number[] {
+    if (bars <= 0 || end <= start || peaks.length === 0) return [];
+
+    let loudest = 1;
+    for (let i = 0; i < peaks.length; i++) {
+        if (peaks[i] > loudest) loudest = peaks[i];
+    }
+
+    const step = ((end - start) * peaksPerSecond) / bars;
+    const first = start * peaksPerSecond;
+
+    return Array.from({ length: bars }, (_, i) => {
+        const from = Math.floor(first + i * step);
+        // Always cover at least one peak when zoomed in past the peak resolution
+        const to = Math.max(from + 1, Math.floor(first + (i + 1) * step));
+        let max = 0;
+        for (let j = Math.max(0, from); j < Math.min(peaks.length, to); j++) {
+            if (peaks[j] > max) max = peaks[j];
+        }
+        return max / loudest;
+    });
+}
@@ -0,0 +1,15 @@
+package expo.modules.clipencoder
+
+import expo.modules.kotlin.exception.CodedException
+
+internal class ExportInProgressException :
+  CodedException("Another export is still running")
+
+internal class ExportCancelledException :
+  CodedException("The export was cancelled")
+
+internal class InvalidOutputUriException(uri: String) :
+  CodedException("The output has to be a file URI: $uri")
+
+internal class ExportFailedException(cause: Throwable) :
+  CodedException("Could not export the clip: ${cause.message}", cause)
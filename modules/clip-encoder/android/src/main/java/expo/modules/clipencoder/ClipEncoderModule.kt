@@ -0,0 +1,131 @@
+package expo.modules.clipencoder
+
+import android.net.Uri
+import android.os.Handler
+import android.os.Looper
+import androidx.media3.common.MediaItem
+import androidx.media3.common.MimeTypes
+import androidx.media3.common.util.UnstableApi
+import androidx.media3.transformer.Composition
+import androidx.media3.transformer.EditedMediaItem
+import androidx.media3.transformer.EditedMediaItemSequence
+import androidx.media3.transformer.ExportException
+import androidx.media3.transformer.ExportResult
+import androidx.media3.transformer.ProgressHolder
+import androidx.media3.transformer.Transformer
+import expo.modules.kotlin.Promise
+import expo.modules.kotlin.exception.Exceptions
+import expo.modules.kotlin.functions.Queues
+import expo.modules.kotlin.modules.Module
+import expo.modules.kotlin.modules.ModuleDefinition
+import expo.modules.kotlin.records.Field
+import expo.modules.kotlin.records.Record
+
+private const val PROGRESS_INTERVAL_MS = 100L
+
+class ExportRange : Record {
+  @Field var sourceUri: String = ""
+  @Field var start: Double = 0.0
+  @Field var end: Double = 0.0
+}
+
+/**
+ * Joins source ranges into one MP4 with Media3 Transformer: each range is a
+ * clipped item in a single sequence, re-encoded to H.264 and AAC. One export
+ * runs at a time; Transformer is driven from the main thread.
+ */
+@UnstableApi
+class ClipEncoderModule : Module() {
+  private val handler = Handler(Looper.getMainLooper())
+  private val progressHolder = ProgressHolder()
+  private var transformer: Transformer? = null
+  private var promise: Promise? = null
+
+  // Transformer only exposes progress on request, so poll it
+  private val reportProgress = object : Runnable {
+    override fun run() {
+      val transformer = transformer ?: return
+      if (transformer.getProgress(progressHolder) == Transformer.PROGRESS_STATE_AVAILABLE) {
+        sendEvent("progress", mapOf("fraction" to progressHolder.progress / 100.0))
+      }
+      handler.postDelayed(this, PROGRESS_INTERVAL_MS)
+    }
+  }
+
+  override fun definition() = ModuleDefinition {
+    Name("ClipEncoder")
+
+    Events("progress")
+
+    AsyncFunction("exportAsync") { ranges: List<ExportRange>, outputUri: String, promise: Promise ->
+      export(ranges, outputUri, promise)
+    }.runOnQueue(Queues.MAIN)
+
+    AsyncFunction("cancelAsync") {
+      cancel()
+    }.runOnQueue(Queues.MAIN)
+
+    OnDestroy {
+      handler.post { cancel() }
+    }
+  }
+
+  private fun export(ranges: List<ExportRange>, outputUri: String, promise: Promise) {
+    if (transformer != null) {
+      promise.reject(ExportInProgressException())
+      return
+    }
+    val context = appContext.reactContext ?: throw Exceptions.ReactContextLost()
+    val outputPath = Uri.parse(outputUri).takeIf { it.scheme == "file" }?.path
+      ?: throw InvalidOutputUriException(outputUri)
+
+    val items = ranges.map { range ->
+      val clipping = MediaItem.ClippingConfiguration.Builder()
+        .setStartPositionMs((range.start * 1000).toLong())
+        .setEndPositionMs((range.end * 1000).toLong())
+        .build()
+      val mediaItem = MediaItem.Builder()
+        .setUri(range.sourceUri)
+        .setClippingConfiguration(clipping)
+        .build()
+      EditedMediaItem.Builder(mediaItem).build()
+    }
+    val composition = Composition.Builder(EditedMediaItemSequence(items)).build()
+
+    val transformer = Transformer.Builder(context)
+      .setVideoMimeType(MimeTypes.VIDEO_H264)
+      .setAudioMimeType(MimeTypes.AUDIO_AAC)
+      .addListener(object : Transformer.Listener {
+        override fun onCompleted(composition: Composition, exportResult: ExportResult) {
+          finish()?.resolve(null)
+        }
+
+        override fun onError(
+          composition: Composition,
+          exportResult: ExportResult,
+          exportException: ExportException
+        ) {
+          finish()?.reject(ExportFailedException(exportException))
+        }
+      })
+      .build()
+
+    this.transformer = transformer
+    this.promise = promise
+    transformer.start(composition, outputPath)
+    handler.post(reportProgress)
+  }
+
+  private fun cancel() {
+    val transformer = transformer ?: return
+    transformer.cancel()
+    finish()?.reject(ExportCancelledException())
+  }
+
+  // Clears the running export; returns its promise the first time only
+  private fun finish(): Promise? {
+    handler.removeCallbacks(reportProgress)
+    transformer = null
+    return promise.also { promise = null }
+  }
+}
@@ -0,0 +1,25 @@
+import ExpoModulesCore
+
+internal final class ExportInProgressException: Exception {
+  override var reason: String {
+    "Another export is still running"
+  }
+}
+
+internal final class ExportCancelledException: Exception {
+  override var reason: String {
+    "The export was cancelled"
+  }
+}
+
+internal final class InvalidSourceException: GenericException<String> {
+  override var reason: String {
+    "Can't open the source: \(param)"
+  }
+}
+
+internal final class ExportFailedException: GenericException<String?> {
+  override var reason: String {
+    "Could not export the clip: \(param ?? "unknown cause")"
+  }
+}
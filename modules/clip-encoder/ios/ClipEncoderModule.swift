@@ -0,0 +1,156 @@
+import AVFoundation
+import ExpoModulesCore
+
+private let progressInterval: UInt64 = 100_000_000 // ns
+
+internal struct ExportRange: Record {
+  @Field
+  var sourceUri: String = ""
+
+  @Field
+  var start: Double = 0
+
+  @Field
+  var end: Double = 0
+}
+
+/**
+ Joins source ranges into one MP4: the ranges are laid back to back in an
+ AVMutableComposition and written by an AVAssetExportSession, one export at a time.
+ */
+public final class ClipEncoderModule: Module {
+  // Guards the state below; calls can arrive on any thread
+  private let stateQueue = DispatchQueue(label: "expo.modules.clipencoder.state")
+  // Set for the whole export, including the composition loads before `session` exists
+  private var isExporting = false
+  private var isCancelled = false
+  private var session: AVAssetExportSession?
+
+  public func definition() -> ModuleDefinition {
+    Name("ClipEncoder")
+
+    Events("progress")
+
+    AsyncFunction("exportAsync") { (ranges: [ExportRange], outputUrl: URL) async throws in
+      try await self.export(ranges, to: outputUrl)
+    }
+
+    AsyncFunction("cancelAsync") {
+      self.cancel()
+    }
+
+    OnDestroy {
+      self.cancel()
+    }
+  }
+
+  private func cancel() {
+    stateQueue.sync {
+      isCancelled = isExporting
+      session?.cancelExport()
+    }
+  }
+
+  private func export(_ ranges: [ExportRange], to outputUrl: URL) async throws {
+    // Claim the module before the first await so overlapping calls can't both start
+    let claimed = stateQueue.sync {
+      if isExporting {
+        return false
+      }
+      isExporting = true
+      isCancelled = false
+      return true
+    }
+    guard claimed else {
+      throw ExportInProgressException()
+    }
+    defer {
+      stateQueue.sync {
+        isExporting = false
+        self.session = nil
+      }
+    }
+
+    let composition = try await makeComposition(ranges)
+    guard let session = AVAssetExportSession(
+      asset: composition,
+      presetName: AVAssetExportPresetHighestQuality
+    ) else {
+      throw ExportFailedException("this device has no suitable encoder")
+    }
+    try? FileManager.default.removeItem(at: outputUrl)
+    session.outputURL = outputUrl
+    session.outputFileType = .mp4
+    session.shouldOptimizeForNetworkUse = true
+
+    // A cancel that came in while the composition loaded
+    let cancelled = stateQueue.sync {
+      self.session = session
+      return isCancelled
+    }
+    if cancelled {
+      throw ExportCancelledException()
+    }
+
+    // The session only exposes progress as a property, so poll it
+    let progressTask = Task { [weak self] in
+      while !Task.isCancelled {
+        self?.sendEvent("progress", ["fraction": Double(session.progress)])
+        try? await Task.sleep(nanoseconds: progressInterval)
+      }
+    }
+    await session.export()
+    progressTask.cancel()
+
+    switch session.status {
+    case .completed:
+      return
+    case .cancelled:
+      throw ExportCancelledException()
+    default:
+      throw ExportFailedException(session.error?.localizedDescription)
+    }
+  }
+
+  private func makeComposition(_ ranges: [ExportRange]) async throws -> AVMutableComposition {
+    let composition = AVMutableComposition()
+    let videoTrack = composition.addMutableTrack(
+      withMediaType: .video,
+      preferredTrackID: kCMPersistentTrackID_Invalid
+    )
+    let audioTrack = composition.addMutableTrack(
+      withMediaType: .audio,
+      preferredTrackID: kCMPersistentTrackID_Invalid
+    )
+    var cursor = CMTime.zero
+
+    for range in ranges {
+      guard let url = URL(string: range.sourceUri) else {
+        throw InvalidSourceException(range.sourceUri)
+      }
+      let asset = AVURLAsset(url: url)
+      let timeRange = CMTimeRange(
+        start: CMTime(seconds: range.start, preferredTimescale: 600),
+        end: CMTime(seconds: range.end, preferredTimescale: 600)
+      )
+      guard let sourceVideo = try await asset.loadTracks(withMediaType: .video).first else {
+        throw InvalidSourceException(range.sourceUri)
+      }
+      try videoTrack?.insertTimeRange(timeRange, of: sourceVideo, at: cursor)
+      if cursor == .zero {
+        // Keep portrait recordings upright
+        videoTrack?.preferredTransform = try await sourceVideo.load(.preferredTransform)
+      }
+      // A source without sound leaves silence in its place
+      if let sourceAudio = try await asset.loadTracks(withMediaType: .audio).first {
+        try audioTrack?.insertTimeRange(timeRange, of: sourceAudio, at: cursor)
+      }
+      cursor = cursor + timeRange.duration
+    }
+
+    if let audioTrack, audioTrack.segments.isEmpty {
+      composition.removeTrack(audioTrack)
+    }
+    return composition
+  }
+}
@@ -0,0 +1,45 @@
+// gifenc ships no type definitions; these cover the parts the app uses.
+declare module 'gifenc' {
+    export type Palette = number[][];
+    export type ColorFormat = 'rgb565' | 'rgb444' | 'rgba4444';
+
+    export interface GIFFrameOptions {
+        palette?: Palette;
+        /** Milliseconds this frame stays on screen. */
+        delay?: number;
+        /** -1 plays once, 0 loops forever. */
+        repeat?: number;
+        transparent?: boolean;
+        dispose?: number;
+    }
+
+    export interface GIFEncoderInstance {
+        writeFrame(
+            index: Uint8Array,
+            width: number,
+            height: number,
+            options?: GIFFrameOptions
+        ): void;
+        finish(): void;
+        bytes(): Uint8Array;
+        bytesView(): Uint8Array;
+        reset(): void;
+    }
+
+    export function GIFEncoder(options?: {
+        initialCapacity?: number;
+        auto?: boolean;
+    }): GIFEncoderInstance;
+
+    export function quantize(
+        rgba: Uint8Array | Uint8ClampedArray,
+        maxColors: number,
+        options?: { format?: ColorFormat; oneBitAlpha?: boolean | number }
+    ): Palette;
+
+    export function applyPalette(
+        rgba: Uint8Array | Uint8ClampedArray,
+        palette: Palette,
+        format?: ColorFormat
+    ): Uint8Array;
+}